@@ -0,0 +1,114 @@
+const fs = require("fs");
+const { createStorageFromEnv } = require("./relay-storage.cjs");
+
+// Uses the same RELAY_STORAGE / RELAY_DATA_FILE settings as relay-server.cjs.
+// With the json backend, purge and approve refuse to run while the relay holds
+// the data file: it would write its own copy back on the next push.
+const USAGE = `Usage: node relay-admin.cjs <command>
+
+  list                     Users with their key state, version count, bytes and latest timestamp
+  export <userId> [file]   All stored versions of a user as JSON (stdout without file)
+  purge <userId>           Delete a user and all their versions
+  approve <userId> <key>   Bind the key that claimed an unsigned user; confirm it with the owner first`;
+
+// Keep stdout clean for `export` without a file. Commands that change data take
+// the same lock as the relay.
+const openStorage = (lock = false) => createStorageFromEnv(process.env, { log: () => {}, lock }).storage;
+
+const formatTimestamp = (timestamp) => (timestamp ? new Date(timestamp).toISOString() : "-");
+
+// Unsigned users hold data stored before pushes were signed.
+const keyState = (user) => {
+  if (user.signed) return "signed";
+  return user.claimRequestedAt ? `claimed ${formatTimestamp(user.claimRequestedAt)}` : "unsigned";
+};
+
+const list = (storage) => {
+  const users = storage.listUsers();
+  if (users.length === 0) {
+    console.log("No users stored.");
+    return;
+  }
+  users.forEach((user) => {
+    console.log([user.userId, keyState(user), user.versions, user.bytes, formatTimestamp(user.latestTimestamp)].join("\t"));
+  });
+  const bytes = users.reduce((sum, user) => sum + user.bytes, 0);
+  console.log(`${users.length} users, ${bytes} bytes`);
+};
+
+const exportUser = (storage, userId, file) => {
+  const record = storage.exportUser(userId);
+  if (!record) {
+    console.error(`Unknown user ${userId}`);
+    return 1;
+  }
+  const json = JSON.stringify(record, null, 2);
+  if (file) {
+    fs.writeFileSync(file, json, "utf8");
+    console.log(`Exported ${record.versions.length} versions of ${userId} to ${file}`);
+  } else {
+    console.log(json);
+  }
+  return 0;
+};
+
+const purge = (storage, userId) => {
+  if (!storage.purgeUser(userId)) {
+    console.error(`Unknown user ${userId}`);
+    return 1;
+  }
+  console.log(`Purged ${userId}`);
+  return 0;
+};
+
+// The key must match the pending claim, so the approved key has signed a push
+// and the admin has checked it with the owner.
+const approve = (storage, userId, publicKey) => {
+  const record = storage.exportUser(userId);
+  if (!record) {
+    console.error(`Unknown user ${userId}`);
+    return 1;
+  }
+  if (record.publicKey) {
+    console.error(`${userId} is already bound to a key`);
+    return 1;
+  }
+  if (!record.claim || record.claim.publicKey !== publicKey) {
+    console.error(`No pending claim by ${publicKey} for ${userId}`);
+    return 1;
+  }
+  storage.bindPublicKey(userId, publicKey);
+  console.log(`Bound ${userId} to ${publicKey}`);
+  return 0;
+};
+
+const run = ([command, userId, argument]) => {
+  if (command === "list") {
+    const storage = openStorage();
+    list(storage);
+    storage.close();
+    return 0;
+  }
+  if (command === "export" && userId) {
+    const storage = openStorage();
+    const status = exportUser(storage, userId, argument);
+    storage.close();
+    return status;
+  }
+  if ((command === "purge" && userId) || (command === "approve" && userId && argument)) {
+    let storage;
+    try {
+      storage = openStorage(true);
+    } catch (error) {
+      console.error(error.message);
+      return 1;
+    }
+    const status = command === "purge" ? purge(storage, userId) : approve(storage, userId, argument);
+    storage.close();
+    return status;
+  }
+  console.error(USAGE);
+  return 1;
+};
+
+process.exitCode = run(process.argv.slice(2));
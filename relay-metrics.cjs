@@ -0,0 +1,88 @@
+// Counters for relay-server.cjs, reported as JSON on /health and in the
+// Prometheus text format on /metrics.
+
+// Per-minute rates in /health count the events of the last minute.
+const RATE_WINDOW_MS = 60 * 1000;
+
+const createMetrics = () => {
+  const startedAt = Date.now();
+  const totals = { pushesAccepted: 0, pushesRejected: 0, pulls: 0 };
+  const recent = { pushes: [], pulls: [] };
+
+  const prune = (events, now) => {
+    while (events.length > 0 && events[0] <= now - RATE_WINDOW_MS) events.shift();
+  };
+
+  const record = (events) => {
+    const now = Date.now();
+    events.push(now);
+    prune(events, now);
+  };
+
+  return {
+    recordPush: (accepted) => {
+      if (accepted) totals.pushesAccepted += 1;
+      else totals.pushesRejected += 1;
+      record(recent.pushes);
+    },
+    recordPull: () => {
+      totals.pulls += 1;
+      record(recent.pulls);
+    },
+    snapshot: ({ backend, connections, storage }) => {
+      const now = Date.now();
+      prune(recent.pushes, now);
+      prune(recent.pulls, now);
+      const users = storage.listUsers();
+      const lastPersistedAt = storage.lastPersistedAt();
+      return {
+        status: "ok",
+        startedAt: new Date(startedAt).toISOString(),
+        uptimeSeconds: Math.round((now - startedAt) / 1000),
+        storage: backend,
+        connections,
+        users: users.length,
+        bytesStored: users.reduce((sum, user) => sum + user.bytes, 0),
+        pushes: {
+          accepted: totals.pushesAccepted,
+          rejected: totals.pushesRejected,
+          perMinute: recent.pushes.length,
+        },
+        pulls: { total: totals.pulls, perMinute: recent.pulls.length },
+        lastPersistedAt: lastPersistedAt ? new Date(lastPersistedAt).toISOString() : null,
+      };
+    },
+  };
+};
+
+const metric = (name, type, help, samples) => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+  ...samples.map(([labels, value]) => `${name}${labels} ${value}`),
+];
+
+// Rates are left to Prometheus, e.g. rate(relay_pushes_total[5m]).
+const renderPrometheus = (snapshot) =>
+  [
+    ...metric("relay_start_time_seconds", "gauge", "Start time of the relay in unix seconds.", [
+      ["", Date.parse(snapshot.startedAt) / 1000],
+    ]),
+    ...metric("relay_connections", "gauge", "Open WebSocket connections.", [["", snapshot.connections]]),
+    ...metric("relay_users", "gauge", "Users with stored data.", [["", snapshot.users]]),
+    ...metric("relay_stored_bytes", "gauge", "Bytes of data stored across all retained versions.", [
+      ["", snapshot.bytesStored],
+    ]),
+    ...metric("relay_pushes_total", "counter", "Pushes received, by result.", [
+      ['{result="accepted"}', snapshot.pushes.accepted],
+      ['{result="rejected"}', snapshot.pushes.rejected],
+    ]),
+    ...metric("relay_pulls_total", "counter", "Pulls served.", [["", snapshot.pulls.total]]),
+    ...(snapshot.lastPersistedAt
+      ? metric("relay_last_persisted_timestamp_seconds", "gauge", "Time of the last successful write in unix seconds.", [
+          ["", Date.parse(snapshot.lastPersistedAt) / 1000],
+        ])
+      : []),
+    "",
+  ].join("\n");
+
+module.exports = { createMetrics, renderPrometheus };
@@ -1,81 +1,224 @@
-const fs = require("fs");
-const path = require("path");
+const crypto = require("crypto");
+const http = require("http");
 const WebSocket = require("ws");
+const { createMetrics, renderPrometheus } = require("./relay-metrics.cjs");
+const { createStorageFromEnv } = require("./relay-storage.cjs");
 
 const PORT = process.env.RELAY_PORT ? Number(process.env.RELAY_PORT) : 8080;
-const DATA_FILE = process.env.RELAY_DATA_FILE || path.join(__dirname, "relay-data.json");
 
-const wss = new WebSocket.Server({ port: PORT });
+// Must match relayPushPayload in src/relaySignature.ts.
+const PUSH_PAYLOAD_TAG = "fakturing-relay-push";
+const PUSH_PAYLOAD_VERSION = 1;
+// Must match runRelayPersistenceCheck in src/db.ts. These users only live until
+// their pull is answered.
+const CHECK_USER_PREFIX = "__relay_check__:";
 
-const dataStore = new Map();
-let saveTimer = null;
+// Older versions than the last RELAY_KEEP_VERSIONS are dropped on push.
+const KEEP_VERSIONS = Number(process.env.RELAY_KEEP_VERSIONS) || 20;
+// Bytes of data a user may keep across their retained versions.
+const USER_QUOTA_BYTES = Number(process.env.RELAY_USER_QUOTA_BYTES) || 10 * 1024 * 1024;
 
-const loadStore = () => {
+// The lock keeps relay-admin from changing the JSON file under a running relay.
+const { backend, file, storage } = createStorageFromEnv(process.env, { lock: true });
+
+const metrics = createMetrics();
+
+const snapshot = () => metrics.snapshot({ backend, connections: wss.clients.size, storage });
+
+// Plain HTTP on the relay port: /health as JSON, /metrics for Prometheus.
+const server = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url, "http://localhost");
   try {
-    if (!fs.existsSync(DATA_FILE)) return;
-    const raw = fs.readFileSync(DATA_FILE, "utf8");
-    if (!raw) return;
-    const parsed = JSON.parse(raw);
-    Object.entries(parsed).forEach(([userId, value]) => {
-      if (value && typeof value === "object") {
-        dataStore.set(userId, value);
-      }
-    });
-    console.log(`[relay] Loaded ${dataStore.size} records from ${DATA_FILE}`);
+    if (req.method === "GET" && pathname === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(snapshot()));
+      return;
+    }
+    if (req.method === "GET" && pathname === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(renderPrometheus(snapshot()));
+      return;
+    }
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found");
   } catch (error) {
-    console.error("[relay] Failed to load data file:", error);
+    console.error("[relay] Failed to report status:", error);
+    res.writeHead(503, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "error" }));
+  }
+});
+
+const wss = new WebSocket.Server({ server });
+
+const pushPayload = (message) =>
+  JSON.stringify([
+    PUSH_PAYLOAD_TAG,
+    PUSH_PAYLOAD_VERSION,
+    message.userId,
+    message.timestamp,
+    message.previousTimestamp,
+    message.data,
+  ]);
+
+const verifyPush = (message, publicKey) => {
+  try {
+    const key = crypto.createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: publicKey },
+      format: "jwk",
+    });
+    return crypto.verify(
+      null,
+      Buffer.from(pushPayload(message), "utf8"),
+      key,
+      Buffer.from(message.signature, "base64url")
+    );
+  } catch {
+    return false;
   }
 };
 
-const saveStore = () => {
-  if (saveTimer) clearTimeout(saveTimer);
-  saveTimer = setTimeout(() => {
-    try {
-      const obj = Object.fromEntries(dataStore.entries());
-      fs.writeFileSync(DATA_FILE, JSON.stringify(obj, null, 2), "utf8");
-      console.log(`[relay] Persisted ${dataStore.size} records to ${DATA_FILE}`);
-    } catch (error) {
-      console.error("[relay] Failed to save data file:", error);
+// Size of the versions the user would keep once this push is stored.
+const retainedBytesAfter = (userId, data) => {
+  const versions = storage.listVersions(userId);
+  return versions
+    .slice(Math.max(0, versions.length - (KEEP_VERSIONS - 1)))
+    .reduce((sum, version) => sum + version.size, Buffer.byteLength(data, "utf8"));
+};
+
+// Returns the rejection reason, or null when the push may be stored.
+const checkPush = (message) => {
+  const userId = message.userId;
+  if (
+    typeof message.data !== "string" ||
+    !Number.isSafeInteger(message.timestamp) ||
+    !(message.previousTimestamp === null || Number.isSafeInteger(message.previousTimestamp))
+  ) {
+    return "invalid";
+  }
+  if (typeof message.publicKey !== "string" || typeof message.signature !== "string") {
+    return "unsigned";
+  }
+  // The first signed push binds the userId to its key; later ones must match it.
+  const publicKey = storage.getPublicKey(userId);
+  if (publicKey && publicKey !== message.publicKey) return "unauthorized";
+  if (!verifyPush(message, message.publicKey)) return "unauthorized";
+
+  const latest = storage.getLatest(userId);
+  // Data stored before pushes were signed has no key, and anyone who knows the
+  // userId could sign one. Its key is bound only by `relay-admin approve`.
+  if (!publicKey && latest) return "unclaimed";
+  if ((latest ? latest.timestamp : null) !== message.previousTimestamp) return "conflict";
+  if (latest && message.timestamp <= latest.timestamp) return "stale";
+  if (retainedBytesAfter(userId, message.data) > USER_QUOTA_BYTES) return "quota";
+  return null;
+};
+
+const handlePush = (ws, message) => {
+  const userId = message.userId;
+  const reason = checkPush(message);
+  metrics.recordPush(!reason);
+  if (reason) {
+    const latest = storage.getLatest(userId);
+    console.warn(`[relay] Rejected push for ${userId}: ${reason}`);
+    if (reason === "unclaimed") {
+      storage.setClaim(userId, message.publicKey);
+      console.warn(`[relay] Key ${message.publicKey} claims ${userId}, approve it with relay-admin`);
     }
-  }, 250);
+    ws.send(
+      JSON.stringify({
+        type: "push-rejected",
+        userId,
+        reason,
+        timestamp: latest ? latest.timestamp : null,
+      })
+    );
+    return;
+  }
+
+  storage.appendVersion(
+    userId,
+    message.publicKey,
+    { data: message.data, timestamp: message.timestamp, receivedAt: Date.now() },
+    KEEP_VERSIONS
+  );
+  // Acknowledge only what is on disk, so a crash cannot lose an acked push.
+  storage.whenPersisted((error) => {
+    if (error) {
+      ws.send(JSON.stringify({ type: "push-rejected", userId, reason: "storage", timestamp: null }));
+      return;
+    }
+    ws.send(JSON.stringify({ type: "push-ack", userId, timestamp: message.timestamp }));
+  });
+};
+
+// Without a timestamp the latest version is returned.
+const handlePull = (ws, message) => {
+  const userId = message.userId;
+  metrics.recordPull();
+  const stored =
+    message.timestamp === undefined || message.timestamp === null
+      ? storage.getLatest(userId)
+      : storage.getVersion(userId, message.timestamp);
+  ws.send(
+    JSON.stringify({
+      type: "pull-response",
+      userId,
+      data: stored?.data || null,
+      timestamp: stored?.timestamp,
+    })
+  );
+  if (userId.startsWith(CHECK_USER_PREFIX)) storage.purgeUser(userId);
 };
 
-loadStore();
+const handleHistory = (ws, message) => {
+  const userId = message.userId;
+  ws.send(
+    JSON.stringify({
+      type: "history-response",
+      userId,
+      versions: storage.listVersions(userId),
+    })
+  );
+};
 
-console.log(`Relay server running on ws://localhost:${PORT}`);
-console.log(`Relay data file: ${DATA_FILE}`);
+server.listen(PORT, () => {
+  console.log(`Relay server running on ws://localhost:${PORT}`);
+  console.log(`Relay status on http://localhost:${PORT}/health and /metrics`);
+  console.log(`Relay storage: ${backend} (${file})`);
+});
 
 wss.on("connection", (ws) => {
   ws.on("message", (rawMessage) => {
     try {
       const message = JSON.parse(rawMessage.toString());
       if (!message || typeof message !== "object") return;
-      const userId = message.userId;
-      if (!userId) return;
+      if (!message.userId || typeof message.userId !== "string") return;
 
       if (message.type === "push") {
-        dataStore.set(userId, {
-          data: message.data,
-          timestamp: message.timestamp || Date.now(),
-        });
-        saveStore();
-        ws.send(JSON.stringify({ type: "push-ack", userId }));
+        handlePush(ws, message);
         return;
       }
 
       if (message.type === "pull") {
-        const stored = dataStore.get(userId);
-        ws.send(
-          JSON.stringify({
-            type: "pull-response",
-            userId,
-            data: stored?.data || null,
-            timestamp: stored?.timestamp,
-          })
-        );
+        handlePull(ws, message);
+        return;
+      }
+
+      if (message.type === "history") {
+        handleHistory(ws, message);
       }
     } catch (error) {
       console.error("Relay error:", error);
     }
   });
 });
+
+const shutdown = () => {
+  wss.close();
+  server.close();
+  storage.close();
+  process.exit(0);
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,362 @@
+const fs = require("fs");
+const path = require("path");
+
+// Storage backends for relay-server.cjs and relay-admin.cjs. Both expose the same
+// synchronous interface:
+//   getPublicKey(userId), getLatest(userId), getVersion(userId, timestamp),
+//   listVersions(userId), appendVersion(userId, publicKey, version, keepVersions),
+//   getClaim(userId), setClaim(userId, publicKey), bindPublicKey(userId, publicKey),
+//   listUsers(), exportUser(userId), purgeUser(userId), lastPersistedAt(),
+//   whenPersisted(callback), close()
+// whenPersisted calls back with null once every change made so far is on disk,
+// or with the error that kept it from getting there.
+// A version is { data, timestamp, receivedAt }; versions are ordered oldest first.
+// A claim is { publicKey, requestedAt }: a key that signed a push to a record
+// stored before pushes were signed, waiting for an admin to bind it.
+
+const versionSize = (version) => Buffer.byteLength(version.data, "utf8");
+
+const describeVersion = (version) => ({
+  timestamp: version.timestamp,
+  receivedAt: version.receivedAt,
+  size: versionSize(version),
+});
+
+// Records written before pushes were signed hold a single { data, timestamp }.
+const normalizeRecord = (value) => {
+  if (Array.isArray(value.versions)) {
+    return { publicKey: value.publicKey || null, claim: value.claim || null, versions: value.versions };
+  }
+  return {
+    publicKey: null,
+    claim: null,
+    versions: value.data ? [{ data: value.data, timestamp: value.timestamp || 0, receivedAt: null }] : [],
+  };
+};
+
+const lockFileOf = (file) => `${file}.lock`;
+
+// PID in the lock file if that process is still alive, null without a lock or
+// when its process is gone. A lock without a PID may be one being written, so
+// it counts as held.
+const lockOwner = (file) => {
+  let pid;
+  try {
+    pid = Number(fs.readFileSync(lockFileOf(file), "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+  if (!Number.isSafeInteger(pid) || pid <= 0) return -1;
+  try {
+    process.kill(pid, 0);
+    return pid;
+  } catch (error) {
+    return error.code === "EPERM" ? pid : null;
+  }
+};
+
+// Creating the lock file fails when it exists, so only one process takes it.
+// A lock left behind by a crashed process is removed and taken over.
+const acquireLock = (file) => {
+  const createLock = () => fs.writeFileSync(lockFileOf(file), String(process.pid), { encoding: "utf8", flag: "wx" });
+  try {
+    createLock();
+    return;
+  } catch (error) {
+    if (error.code !== "EEXIST") throw error;
+  }
+  const pid = lockOwner(file);
+  if (pid === -1) {
+    throw new Error(`${file} is locked; delete ${lockFileOf(file)} if no relay or relay-admin is running`);
+  }
+  if (pid) throw new Error(`${file} is in use by process ${pid}; stop it first`);
+  fs.rmSync(lockFileOf(file), { force: true });
+  try {
+    createLock();
+  } catch (error) {
+    if (error.code === "EEXIST") throw new Error(`${file} was locked by another process; try again`);
+    throw error;
+  }
+};
+
+const releaseLock = (file) => {
+  if (lockOwner(file) === process.pid) fs.rmSync(lockFileOf(file), { force: true });
+};
+
+// Everything in memory, written to one JSON file shortly after each change. The
+// file is replaced by renaming a fully written temporary file, so a crash
+// mid-write leaves the previous copy intact.
+// With `lock`, the process holds `<file>.lock` until close(): whoever writes the
+// file would otherwise overwrite the other's changes with its own copy.
+const createJsonStorage = ({ file, log = console.log, lock = false }) => {
+  if (lock) acquireLock(file);
+  const records = new Map();
+  let saveTimer = null;
+  let lastPersistedAt = null;
+  // Callbacks waiting for the scheduled write.
+  let waiting = [];
+
+  const load = () => {
+    try {
+      if (!fs.existsSync(file)) return;
+      const raw = fs.readFileSync(file, "utf8");
+      if (!raw) return;
+      const parsed = JSON.parse(raw);
+      Object.entries(parsed).forEach(([userId, value]) => {
+        if (value && typeof value === "object") {
+          records.set(userId, normalizeRecord(value));
+        }
+      });
+      log(`[relay] Loaded ${records.size} records from ${file}`);
+    } catch (error) {
+      console.error("[relay] Failed to load data file:", error);
+    }
+  };
+
+  const persist = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    const callbacks = waiting;
+    waiting = [];
+    const tempFile = `${file}.${process.pid}.tmp`;
+    let failure = null;
+    try {
+      const fd = fs.openSync(tempFile, "w");
+      try {
+        fs.writeSync(fd, JSON.stringify(Object.fromEntries(records.entries()), null, 2));
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempFile, file);
+      lastPersistedAt = Date.now();
+      log(`[relay] Persisted ${records.size} records to ${file}`);
+    } catch (error) {
+      console.error("[relay] Failed to save data file:", error);
+      fs.rmSync(tempFile, { force: true });
+      failure = error;
+    }
+    callbacks.forEach((callback) => callback(failure));
+  };
+
+  // Changes within 250 ms share one write. The timer is not pushed back by
+  // later changes, so nobody waits on whenPersisted for longer than that.
+  const schedulePersist = () => {
+    if (!saveTimer) saveTimer = setTimeout(persist, 250);
+  };
+
+  load();
+
+  return {
+    getPublicKey: (userId) => records.get(userId)?.publicKey || null,
+    getLatest: (userId) => {
+      const versions = records.get(userId)?.versions || [];
+      return versions[versions.length - 1] || null;
+    },
+    getVersion: (userId, timestamp) =>
+      records.get(userId)?.versions.find((version) => version.timestamp === timestamp) || null,
+    listVersions: (userId) => (records.get(userId)?.versions || []).map(describeVersion),
+    appendVersion: (userId, publicKey, version, keepVersions) => {
+      const record = records.get(userId) || { publicKey: null, claim: null, versions: [] };
+      record.publicKey = publicKey;
+      record.versions = [...record.versions, version].slice(-keepVersions);
+      records.set(userId, record);
+      schedulePersist();
+    },
+    getClaim: (userId) => records.get(userId)?.claim || null,
+    setClaim: (userId, publicKey) => {
+      const record = records.get(userId);
+      if (!record) return;
+      record.claim = { publicKey, requestedAt: Date.now() };
+      schedulePersist();
+    },
+    bindPublicKey: (userId, publicKey) => {
+      const record = records.get(userId);
+      if (!record) return false;
+      record.publicKey = publicKey;
+      record.claim = null;
+      persist();
+      return true;
+    },
+    listUsers: () =>
+      Array.from(records.entries()).map(([userId, record]) => ({
+        userId,
+        signed: !!record.publicKey,
+        claimRequestedAt: record.claim?.requestedAt ?? null,
+        versions: record.versions.length,
+        bytes: record.versions.reduce((sum, version) => sum + versionSize(version), 0),
+        latestTimestamp: record.versions[record.versions.length - 1]?.timestamp ?? null,
+      })),
+    exportUser: (userId) => {
+      const record = records.get(userId);
+      return record ? { userId, ...record } : null;
+    },
+    purgeUser: (userId) => {
+      const existed = records.delete(userId);
+      if (existed) persist();
+      return existed;
+    },
+    lastPersistedAt: () => lastPersistedAt,
+    whenPersisted: (callback) => {
+      if (saveTimer) waiting.push(callback);
+      else callback(null);
+    },
+    close: () => {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        persist();
+      }
+      if (lock) releaseLock(file);
+    },
+  };
+};
+
+// One row per version in SQLite; every change is its own transaction, so the
+// relay and relay-admin can share the file without a lock. Needs the optional
+// better-sqlite3 dependency.
+const createSqliteStorage = ({ file }) => {
+  let Database;
+  try {
+    Database = require("better-sqlite3");
+  } catch (error) {
+    throw new Error(`The sqlite relay storage needs better-sqlite3 (npm install better-sqlite3): ${error.message}`);
+  }
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      user_id TEXT PRIMARY KEY,
+      public_key TEXT,
+      claim_key TEXT,
+      claim_requested_at INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS versions (
+      user_id TEXT NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+      timestamp INTEGER NOT NULL,
+      received_at INTEGER,
+      data TEXT NOT NULL,
+      PRIMARY KEY (user_id, timestamp)
+    );
+  `);
+  // Databases created before claims were recorded lack their columns.
+  const userColumns = db.prepare("PRAGMA table_info(users)").all().map((column) => column.name);
+  if (!userColumns.includes("claim_key")) {
+    db.exec("ALTER TABLE users ADD COLUMN claim_key TEXT; ALTER TABLE users ADD COLUMN claim_requested_at INTEGER;");
+  }
+  db.pragma("foreign_keys = ON");
+  let lastPersistedAt = null;
+
+  const toVersion = (row) => (row ? { data: row.data, timestamp: row.timestamp, receivedAt: row.received_at } : null);
+
+  const statements = {
+    publicKey: db.prepare("SELECT public_key FROM users WHERE user_id = ?"),
+    claim: db.prepare("SELECT claim_key, claim_requested_at FROM users WHERE user_id = ? AND claim_key IS NOT NULL"),
+    setClaim: db.prepare("UPDATE users SET claim_key = ?, claim_requested_at = ? WHERE user_id = ?"),
+    bindPublicKey: db.prepare(
+      "UPDATE users SET public_key = ?, claim_key = NULL, claim_requested_at = NULL WHERE user_id = ?"
+    ),
+    latest: db.prepare("SELECT * FROM versions WHERE user_id = ? ORDER BY timestamp DESC LIMIT 1"),
+    version: db.prepare("SELECT * FROM versions WHERE user_id = ? AND timestamp = ?"),
+    versions: db.prepare(
+      "SELECT timestamp, received_at, length(CAST(data AS BLOB)) AS size FROM versions WHERE user_id = ? ORDER BY timestamp"
+    ),
+    allVersions: db.prepare("SELECT * FROM versions WHERE user_id = ? ORDER BY timestamp"),
+    upsertUser: db.prepare(
+      "INSERT INTO users (user_id, public_key) VALUES (?, ?) ON CONFLICT (user_id) DO UPDATE SET public_key = excluded.public_key"
+    ),
+    insertVersion: db.prepare("INSERT INTO versions (user_id, timestamp, received_at, data) VALUES (?, ?, ?, ?)"),
+    pruneVersions: db.prepare(
+      "DELETE FROM versions WHERE user_id = ? AND timestamp NOT IN (SELECT timestamp FROM versions WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?)"
+    ),
+    users: db.prepare(`
+      SELECT users.user_id, users.public_key, users.claim_requested_at, COUNT(versions.timestamp) AS versions,
+        COALESCE(SUM(length(CAST(versions.data AS BLOB))), 0) AS bytes, MAX(versions.timestamp) AS latest_timestamp
+      FROM users LEFT JOIN versions ON versions.user_id = users.user_id
+      GROUP BY users.user_id ORDER BY users.user_id
+    `),
+    deleteUser: db.prepare("DELETE FROM users WHERE user_id = ?"),
+  };
+
+  const appendVersion = db.transaction((userId, publicKey, version, keepVersions) => {
+    statements.upsertUser.run(userId, publicKey);
+    statements.insertVersion.run(userId, version.timestamp, version.receivedAt, version.data);
+    statements.pruneVersions.run(userId, userId, keepVersions);
+  });
+
+  return {
+    getPublicKey: (userId) => statements.publicKey.get(userId)?.public_key || null,
+    getLatest: (userId) => toVersion(statements.latest.get(userId)),
+    getVersion: (userId, timestamp) => toVersion(statements.version.get(userId, timestamp)),
+    listVersions: (userId) =>
+      statements.versions.all(userId).map((row) => ({
+        timestamp: row.timestamp,
+        receivedAt: row.received_at,
+        size: row.size,
+      })),
+    appendVersion: (userId, publicKey, version, keepVersions) => {
+      appendVersion(userId, publicKey, version, keepVersions);
+      lastPersistedAt = Date.now();
+    },
+    getClaim: (userId) => {
+      const row = statements.claim.get(userId);
+      return row ? { publicKey: row.claim_key, requestedAt: row.claim_requested_at } : null;
+    },
+    setClaim: (userId, publicKey) => {
+      statements.setClaim.run(publicKey, Date.now(), userId);
+      lastPersistedAt = Date.now();
+    },
+    bindPublicKey: (userId, publicKey) => {
+      const bound = statements.bindPublicKey.run(publicKey, userId).changes > 0;
+      if (bound) lastPersistedAt = Date.now();
+      return bound;
+    },
+    listUsers: () =>
+      statements.users.all().map((row) => ({
+        userId: row.user_id,
+        signed: !!row.public_key,
+        claimRequestedAt: row.claim_requested_at,
+        versions: row.versions,
+        bytes: row.bytes,
+        latestTimestamp: row.latest_timestamp,
+      })),
+    exportUser: (userId) => {
+      const user = statements.publicKey.get(userId);
+      if (!user) return null;
+      const claim = statements.claim.get(userId);
+      return {
+        userId,
+        publicKey: user.public_key,
+        claim: claim ? { publicKey: claim.claim_key, requestedAt: claim.claim_requested_at } : null,
+        versions: statements.allVersions.all(userId).map(toVersion),
+      };
+    },
+    purgeUser: (userId) => {
+      const purged = statements.deleteUser.run(userId).changes > 0;
+      if (purged) lastPersistedAt = Date.now();
+      return purged;
+    },
+    lastPersistedAt: () => lastPersistedAt,
+    // Every change is committed before its call returns.
+    whenPersisted: (callback) => callback(null),
+    close: () => db.close(),
+  };
+};
+
+const STORAGE_BACKENDS = {
+  json: createJsonStorage,
+  sqlite: createSqliteStorage,
+};
+
+// RELAY_STORAGE picks the backend (json by default); RELAY_DATA_FILE overrides its file.
+const createStorageFromEnv = (env = process.env, options = {}) => {
+  const backend = env.RELAY_STORAGE || "json";
+  const createStorage = STORAGE_BACKENDS[backend];
+  if (!createStorage) {
+    throw new Error(`Unknown RELAY_STORAGE "${backend}", expected one of: ${Object.keys(STORAGE_BACKENDS).join(", ")}`);
+  }
+  const file = env.RELAY_DATA_FILE || path.join(__dirname, backend === "sqlite" ? "relay-data.sqlite" : "relay-data.json");
+  return { backend, file, storage: createStorage({ file, ...options }) };
+};
+
+module.exports = { createJsonStorage, createSqliteStorage, createStorageFromEnv };
@@ -1,6 +1,7 @@
 import { Suspense, use, useEffect, useMemo, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
+import { BankImportPage } from "./components/BankImportPage";
 import { ClientDetailPage } from "./components/ClientDetailPage";
 import { ClientsListPage } from "./components/ClientsListPage";
 import { ClientsPage } from "./components/ClientsPage";
@@ -10,10 +11,14 @@ import { ExpensesListPage } from "./components/ExpensesListPage";
 import { InvoiceCreatePage } from "./components/InvoiceCreatePage";
 import { InvoiceDetailPage } from "./components/InvoiceDetailPage";
 import { InvoiceListPage } from "./components/InvoiceListPage";
+import { RemindersPage } from "./components/RemindersPage";
 import { SettingsPage } from "./components/SettingsPage";
+import { VatReportsPage } from "./components/VatReportsPage";
 import { RelayStatusIndicator } from "./components/RelayStatusIndicator";
 import { useEvolu } from "./evolu";
 import { useI18n } from "./i18n";
+import { migrateInvoiceClientLinks } from "./migrations";
+import { generateDueRecurringInvoices } from "./recurring";
 import "./index.css";
 
 function App() {
@@ -26,7 +31,7 @@ function App() {
       evolu.createQuery((db) =>
         db
           .selectFrom("userProfile")
-          .select(["expenses"])
+          .select(["expenses", "vatPayer"])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
           .orderBy("updatedAt", "desc")
@@ -38,6 +43,18 @@ function App() {
   const profileRows = useQuery(profileQuery);
   const profile = profileRows[0] ?? null;
   const expensesEnabled = profile?.expenses !== Evolu.sqliteFalse;
+  const isVatPayer = profile?.vatPayer === Evolu.sqliteTrue;
+
+  useEffect(() => {
+    migrateInvoiceClientLinks(evolu, owner.id)
+      .catch((error) => {
+        console.error("Invoice client migration failed:", error);
+      })
+      .then(() => generateDueRecurringInvoices(evolu, owner.id))
+      .catch((error) => {
+        console.error("Recurring invoice generation failed:", error);
+      });
+  }, [evolu, owner.id]);
 
   const [page, setPage] = useState<
     | "settings"
@@ -50,6 +67,9 @@ function App() {
     | "invoice-create"
     | "invoice-list"
     | "invoice-detail"
+    | "vat-reports"
+    | "bank-import"
+    | "reminders"
   >("invoice-list");
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(
@@ -243,6 +263,18 @@ function App() {
                     {t("app.nav.expenses")}
                   </button>
                 ) : null}
+                {isVatPayer ? (
+                  <button
+                    onClick={() => navigate("vat-reports", null, null)}
+                    className={`tab-button ${
+                      page === "vat-reports"
+                        ? "tab-button-active"
+                        : "tab-button-inactive"
+                    }`}
+                  >
+                    {t("app.nav.vatReports")}
+                  </button>
+                ) : null}
                 <button
                   onClick={() => navigate("settings", null, null)}
                   className={`tab-button ${
@@ -278,6 +310,22 @@ function App() {
                 window.scrollTo({ top: 0, left: 0, behavior: "auto" });
               }}
             />
+          ) : page === "vat-reports" ? (
+            <VatReportsPage />
+          ) : page === "bank-import" ? (
+            <BankImportPage
+              onPaymentsApplied={(count) => {
+                setFlashMessage(t("alerts.bankPaymentsApplied", { count }));
+                navigate("invoice-list", null, null);
+                window.scrollTo({ top: 0, left: 0, behavior: "auto" });
+              }}
+            />
+          ) : page === "reminders" ? (
+            <RemindersPage
+              onRemindersSent={(count) => {
+                setFlashMessage(t("alerts.remindersSent", { count }));
+              }}
+            />
           ) : page === "clients" ? (
             <ClientsPage
               onClientCreated={() => {
@@ -305,6 +353,8 @@ function App() {
           ) : page === "invoice-list" ? (
             <InvoiceListPage
               onCreateInvoice={() => navigate("invoice-create", null, null)}
+              onImportStatement={() => navigate("bank-import", null, null)}
+              onOpenReminders={() => navigate("reminders", null, null)}
               onViewDetails={(invoiceId) =>
                 navigate("invoice-detail", null, invoiceId)
               }
@@ -330,6 +380,9 @@ function App() {
                 navigate("invoice-list", null, null);
                 window.scrollTo({ top: 0, left: 0, behavior: "auto" });
               }}
+              onOpenInvoice={(invoiceId) =>
+                navigate("invoice-detail", null, invoiceId)
+              }
             />
           ) : expensesEnabled &&
             page === "expense-detail" &&
@@ -366,6 +419,9 @@ function App() {
                 navigate("clients-list", null, null);
                 window.scrollTo({ top: 0, left: 0, behavior: "auto" });
               }}
+              onViewInvoice={(invoiceId) =>
+                navigate("invoice-detail", null, invoiceId)
+              }
             />
           ) : (
             <ClientsListPage
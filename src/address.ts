@@ -0,0 +1,21 @@
+/** "Na Příkopě 12/3" → street, house number and orientation number. */
+export const splitStreetLine = (line: string | null | undefined) => {
+  const trimmed = (line ?? "").trim();
+  const match = trimmed.match(/^(.*?)\s+(\d+[a-zA-Z]?)(?:\/(\d+[a-zA-Z]?))?$/);
+  return match
+    ? {
+        street: match[1],
+        houseNumber: match[2],
+        orientationNumber: match[3] ?? null,
+      }
+    : { street: trimmed || null, houseNumber: null, orientationNumber: null };
+};
+
+/** "110 00 Praha 1" → postcode and town. */
+export const splitTownLine = (line: string | null | undefined) => {
+  const trimmed = (line ?? "").trim();
+  const match = trimmed.match(/^(\d{3})\s?(\d{2})\s+(.+)$/);
+  return match
+    ? { postcode: `${match[1]}${match[2]}`, town: match[3] }
+    : { postcode: null, town: trimmed || null };
+};
@@ -0,0 +1,296 @@
+import * as Evolu from "@evolu/common";
+import {
+  decryptData,
+  encryptData,
+  isEncryptedData,
+  type EncryptedData,
+} from "./encryption";
+import { Schema, type evolu as evoluInstance } from "./evolu";
+
+type EvoluInstance = typeof evoluInstance;
+
+const BACKUP_FORMAT = "fakturing-backup";
+
+/**
+ * Bumped whenever a table or column is added, removed or changes meaning.
+ * Restores accept this version and older ones.
+ */
+export const BACKUP_SCHEMA_VERSION = 1;
+
+/** Shortest passphrase a new backup may be encrypted with. */
+export const BACKUP_PASSPHRASE_MIN_LENGTH = 12;
+
+/**
+ * Every table of the schema. PDF logo and signature images travel on the
+ * profile row; there is no separate attachment table yet.
+ */
+export const BACKUP_TABLES = [
+  "userProfile",
+  "client",
+  "invoice",
+  "recurringInvoice",
+  "currencyRate",
+  "expense",
+  "payment",
+  "paymentReminder",
+] as const satisfies readonly (keyof typeof Schema)[];
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type BackupRow = { id: string } & Record<string, unknown>;
+
+export type Backup = {
+  schemaVersion: number;
+  createdAt: string;
+  tables: Record<BackupTable, BackupRow[]>;
+};
+
+/** The file as saved: only the format and version are readable without the passphrase. */
+type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  encryption: EncryptedData;
+};
+
+export type BackupReadError = "format" | "version" | "passphrase";
+
+/**
+ * Compared with the local row of the same id: "conflict" when the local row
+ * differs and was edited after the backup was made, so restoring would undo
+ * that edit.
+ */
+export type BackupRowStatus = "new" | "changed" | "conflict" | "unchanged";
+
+export type BackupRowDiff = {
+  id: string;
+  label: string;
+  status: BackupRowStatus;
+};
+
+export type BackupTableDiff = {
+  table: BackupTable;
+  counts: Record<BackupRowStatus, number>;
+  rows: BackupRowDiff[];
+};
+
+const columnsOf = (table: BackupTable) => Object.keys(Schema[table]);
+
+// Only schema columns; system columns (ownerId, timestamps) belong to the device.
+const pickColumns = (table: BackupTable, row: Record<string, unknown>) => {
+  const picked: Record<string, unknown> = {};
+  for (const column of columnsOf(table)) picked[column] = row[column] ?? null;
+  return picked as BackupRow;
+};
+
+const loadTable = (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+  table: BackupTable,
+) =>
+  evolu.loadQuery(
+    evolu.createQuery((db) =>
+      db
+        .selectFrom(table)
+        .selectAll()
+        .where("ownerId", "=", ownerId)
+        .where("isDeleted", "is not", Evolu.sqliteTrue),
+    ),
+  ) as Promise<readonly Record<string, unknown>[]>;
+
+/** All rows of every table, soft-deleted ones (`deleted`) included. */
+export const collectBackup = async (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+): Promise<Backup> => {
+  const loaded = await Promise.all(
+    BACKUP_TABLES.map((table) => loadTable(evolu, ownerId, table)),
+  );
+  const tables = Object.fromEntries(
+    BACKUP_TABLES.map((table, index) => [
+      table,
+      loaded[index].map((row) => pickColumns(table, row)),
+    ]),
+  ) as Record<BackupTable, BackupRow[]>;
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    tables,
+  };
+};
+
+export const encryptBackup = async (
+  backup: Backup,
+  passphrase: string,
+): Promise<string> => {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    schemaVersion: backup.schemaVersion,
+    createdAt: backup.createdAt,
+    encryption: await encryptData(backup, passphrase),
+  };
+  return JSON.stringify(file);
+};
+
+export const decryptBackup = async (
+  text: string,
+  passphrase: string,
+): Promise<
+  { ok: true; value: Backup } | { ok: false; error: BackupReadError }
+> => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text) as Partial<BackupFile>;
+  } catch {
+    return { ok: false, error: "format" };
+  }
+  if (file?.format !== BACKUP_FORMAT || !isEncryptedData(file.encryption)) {
+    return { ok: false, error: "format" };
+  }
+  if (
+    typeof file.schemaVersion !== "number" ||
+    file.schemaVersion > BACKUP_SCHEMA_VERSION
+  ) {
+    return { ok: false, error: "version" };
+  }
+
+  const decrypted = await decryptData<Backup>(file.encryption, passphrase);
+  if (!decrypted) return { ok: false, error: "passphrase" };
+  const backup = decrypted.data;
+  // The inner version is authenticated; the outer one could have been edited.
+  if (backup.schemaVersion !== file.schemaVersion || !backup.tables) {
+    return { ok: false, error: "format" };
+  }
+  const tables = Object.fromEntries(
+    BACKUP_TABLES.map((table) => [
+      table,
+      (backup.tables[table] ?? [])
+        .filter((row) => typeof row?.id === "string")
+        .map((row) => pickColumns(table, row)),
+    ]),
+  ) as Record<BackupTable, BackupRow[]>;
+  return { ok: true, value: { ...backup, tables } };
+};
+
+const describeRow = (table: BackupTable, row: BackupRow): string => {
+  const text = (value: unknown) =>
+    value === null || value === undefined ? "" : String(value);
+  switch (table) {
+    case "userProfile":
+    case "client":
+      return text(row.name);
+    case "invoice":
+      return [text(row.invoiceNumber), text(row.clientName)]
+        .filter(Boolean)
+        .join(" – ");
+    case "recurringInvoice":
+      return [text(row.cadence), text(row.nextRunDate)].join(" ");
+    case "currencyRate":
+      return [text(row.currency), text(row.rateDate)].join(" ");
+    case "expense":
+      return [text(row.expenseNumber), text(row.description)]
+        .filter(Boolean)
+        .join(" – ");
+    case "payment":
+      return [text(row.paymentDate), text(row.amount)].join(" ");
+    case "paymentReminder":
+      return [text(row.sentDate), text(row.level)].join(" ");
+  }
+};
+
+const sameRow = (
+  table: BackupTable,
+  a: Record<string, unknown>,
+  b: Record<string, unknown>,
+) =>
+  columnsOf(table).every(
+    (column) =>
+      JSON.stringify(a[column] ?? null) === JSON.stringify(b[column] ?? null),
+  );
+
+/** What restoring `backup` would do to the current data, table by table. */
+export const diffBackup = async (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+  backup: Backup,
+): Promise<BackupTableDiff[]> => {
+  const backupTime = new Date(backup.createdAt).getTime();
+  const current = await Promise.all(
+    BACKUP_TABLES.map((table) => loadTable(evolu, ownerId, table)),
+  );
+
+  return BACKUP_TABLES.map((table, index) => {
+    const localRows = new Map(current[index].map((row) => [row.id, row]));
+    const counts: Record<BackupRowStatus, number> = {
+      new: 0,
+      changed: 0,
+      conflict: 0,
+      unchanged: 0,
+    };
+    const rows = backup.tables[table].map((row): BackupRowDiff => {
+      const local = localRows.get(row.id);
+      let status: BackupRowStatus;
+      if (!local) status = "new";
+      else if (sameRow(table, row, local)) status = "unchanged";
+      else if (new Date(String(local.updatedAt)).getTime() > backupTime)
+        status = "conflict";
+      else status = "changed";
+      counts[status] += 1;
+      return { id: row.id, label: describeRow(table, row), status };
+    });
+    return { table, counts, rows };
+  });
+};
+
+const upsertRow = (
+  evolu: EvoluInstance,
+  table: BackupTable,
+  row: BackupRow,
+  onlyValidate: boolean,
+) =>
+  // Rows are checked against the schema at runtime; the cast only spares
+  // spelling out each table's input type.
+  evolu.upsert(table as "client", row as never, { onlyValidate });
+
+/**
+ * Writes the new and changed rows of the backup; conflicting rows only with
+ * `overwriteConflicts`. Every row is validated first, so an invalid backup
+ * changes nothing. Returns the number of rows written, or null when a row
+ * fails validation.
+ */
+export const restoreBackup = (
+  evolu: EvoluInstance,
+  backup: Backup,
+  diff: readonly BackupTableDiff[],
+  overwriteConflicts: boolean,
+): number | null => {
+  const toWrite = diff.flatMap(({ table, rows }) => {
+    const statusById = new Map(rows.map((row) => [row.id, row.status]));
+    return backup.tables[table]
+      .filter((row) => {
+        const status = statusById.get(row.id);
+        return (
+          status === "new" ||
+          status === "changed" ||
+          (status === "conflict" && overwriteConflicts)
+        );
+      })
+      .map((row) => ({ table, row }));
+  });
+
+  for (const { table, row } of toWrite) {
+    const result = upsertRow(evolu, table, row, true);
+    if (!result.ok) {
+      console.error("Backup row validation error:", table, result.error);
+      return null;
+    }
+  }
+  for (const { table, row } of toWrite) {
+    const result = upsertRow(evolu, table, row, false);
+    if (!result.ok) {
+      console.error("Backup restore error:", table, result.error);
+      return null;
+    }
+  }
+  return toWrite.length;
+};
@@ -0,0 +1,425 @@
+import { normalizeCurrency } from "./currency";
+import {
+  getInvoiceTotal,
+  isCreditNote,
+  isDraftInvoice,
+  type InvoiceAdjustments,
+} from "./invoices";
+import { getVariableSymbol } from "./numbering";
+import { childElement, childText } from "./xml";
+
+/** One movement on a bank statement; credits are positive. */
+export type BankTransaction = {
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+  currency: string;
+  variableSymbol: string;
+  counterpartyName: string;
+  counterpartyAccount: string;
+  message: string;
+};
+
+export type BankStatementFormat = "csv" | "gpc" | "camt";
+
+const pad2 = (value: string | number) => String(value).padStart(2, "0");
+
+/** "05.03.2026", "5.3.2026" or "2026-03-05" → "2026-03-05". */
+const parseStatementDate = (value: string): string => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const czech = trimmed.match(/^(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4})/);
+  if (czech) return `${czech[3]}-${pad2(czech[2])}-${pad2(czech[1])}`;
+  return "";
+};
+
+/** "1 234,50", "1,234.50" or "1234,50 CZK" → number; NaN when unreadable. */
+const parseStatementAmount = (value: string): number => {
+  const compact = value.replace(/[\s']/g, "").replace(/[A-Z]{3}$/i, "");
+  // The last "," or "." separates decimals ("1 234,50", "1,234.50") unless
+  // it occurs more than once, when it groups thousands ("1.234.567").
+  const last = Math.max(compact.lastIndexOf(","), compact.lastIndexOf("."));
+  if (last < 0) return compact ? Number(compact) : Number.NaN;
+  const digits = (part: string) => part.replace(/[.,]/g, "");
+  const normalized =
+    compact.indexOf(compact[last]) === last
+      ? `${digits(compact.slice(0, last))}.${compact.slice(last + 1)}`
+      : digits(compact);
+  return Number(normalized);
+};
+
+/** Leading zeros are padding in bank formats; "0000012345" is VS 12345. */
+const normalizeVariableSymbol = (value: string) =>
+  value.replace(/\D/g, "").replace(/^0+/, "");
+
+const normalizeHeader = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ");
+
+/**
+ * Header names used by Czech banks' CSV exports (Fio, ČSOB and most others),
+ * without diacritics. The first one found in a file wins.
+ */
+const CSV_COLUMNS = {
+  date: ["datum", "datum zauctovani", "datum provedeni", "date"],
+  amount: ["objem", "castka", "amount"],
+  currency: ["mena", "currency"],
+  variableSymbol: ["vs", "variabilni symbol", "variable symbol"],
+  counterpartyName: [
+    "nazev protiuctu",
+    "nazev protistrany",
+    "protistrana",
+    "counterparty",
+  ],
+  counterpartyAccount: ["protiucet", "cislo protiuctu", "account"],
+  message: ["zprava pro prijemce", "poznamka", "zprava", "popis", "message"],
+} as const;
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+const splitCsvLine = (line: string, separator: string): string[] => {
+  const values: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values.map((value) => value.trim());
+};
+
+/**
+ * Bank CSV exports: statement details on the first lines, then a header row
+ * naming at least the date and amount columns, then the movements.
+ */
+const parseCsvStatement = (text: string): BankTransaction[] => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  for (let headerIndex = 0; headerIndex < lines.length; headerIndex += 1) {
+    const separator = lines[headerIndex].includes(";") ? ";" : ",";
+    const headers = splitCsvLine(lines[headerIndex], separator).map(
+      normalizeHeader,
+    );
+    const columns = Object.fromEntries(
+      (Object.keys(CSV_COLUMNS) as CsvColumn[]).map((column) => [
+        column,
+        CSV_COLUMNS[column]
+          .map((name) => headers.indexOf(name))
+          .find((index) => index >= 0) ?? -1,
+      ]),
+    ) as Record<CsvColumn, number>;
+    if (columns.date < 0 || columns.amount < 0) continue;
+
+    const read = (values: string[], column: CsvColumn) =>
+      columns[column] >= 0 ? (values[columns[column]] ?? "") : "";
+    const transactions: BankTransaction[] = [];
+    for (const line of lines.slice(headerIndex + 1)) {
+      const values = splitCsvLine(line, separator);
+      const date = parseStatementDate(read(values, "date"));
+      const amount = parseStatementAmount(read(values, "amount"));
+      if (!date || !Number.isFinite(amount)) continue;
+      transactions.push({
+        date,
+        amount,
+        currency: read(values, "currency").toUpperCase() || "CZK",
+        variableSymbol: normalizeVariableSymbol(read(values, "variableSymbol")),
+        counterpartyName: read(values, "counterpartyName"),
+        counterpartyAccount: read(values, "counterpartyAccount"),
+        message: read(values, "message"),
+      });
+    }
+    return transactions;
+  }
+  return [];
+};
+
+/** ISO 4217 numeric codes used in GPC files. */
+const GPC_CURRENCIES: Record<string, string> = {
+  "203": "CZK",
+  "978": "EUR",
+  "840": "USD",
+};
+
+/** DDMMYY → YYYY-MM-DD. */
+const parseGpcDate = (value: string) => {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!match || match[1] === "00") return "";
+  return `20${match[3]}-${match[2]}-${match[1]}`;
+};
+
+/**
+ * ABO/GPC: fixed-width lines, "074" the statement header and "075" one
+ * movement each. Amounts are in hundredths; accounting codes 1 and 5 are
+ * debits (and a reversed credit), 2 and 4 credits (and a reversed debit).
+ */
+const parseGpcStatement = (text: string): BankTransaction[] =>
+  text
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("075"))
+    .map((line) => {
+      const code = line.slice(60, 61);
+      const cents = Number(line.slice(48, 60));
+      const sign = code === "1" || code === "5" ? -1 : 1;
+      const currencyCode = line.slice(118, 122).replace(/^0+/, "");
+      return {
+        date:
+          parseGpcDate(line.slice(122, 128)) ||
+          parseGpcDate(line.slice(91, 97)),
+        amount: (sign * cents) / 100,
+        currency: GPC_CURRENCIES[currencyCode] ?? "CZK",
+        variableSymbol: normalizeVariableSymbol(line.slice(61, 71)),
+        counterpartyName: line.slice(97, 117).trim(),
+        counterpartyAccount: line.slice(19, 35).replace(/^0+/, ""),
+        message: "",
+      };
+    })
+    .filter(
+      (transaction) => transaction.date && Number.isFinite(transaction.amount),
+    );
+
+/** "VS123456", "/VS/123456" or "VS:123456" in a reference. */
+const findVariableSymbol = (value: string) =>
+  value.match(/VS\W?(\d{1,10})/i)?.[1] ?? "";
+
+/**
+ * ISO 20022 CAMT.053 statements. Czech banks put the variable symbol in the
+ * structured creditor reference or, prefixed with "VS", in the end-to-end id.
+ */
+const parseCamtStatement = (text: string): BankTransaction[] => {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  return Array.from(document.getElementsByTagNameNS("*", "Ntry")).flatMap(
+    (entry) => {
+      const amountElement = childElement(entry, "Amt");
+      const amount = Number(amountElement?.textContent ?? "");
+      if (!Number.isFinite(amount)) return [];
+      const sign = childText(entry, "CdtDbtInd") === "DBIT" ? -1 : 1;
+      const details = childElement(entry, "NtryDtls", "TxDtls");
+      const reference = childText(
+        details,
+        "RmtInf",
+        "Strd",
+        "CdtrRefInf",
+        "Ref",
+      );
+      const endToEndId = childText(details, "Refs", "EndToEndId");
+      const party = sign > 0 ? "Dbtr" : "Cdtr";
+      const account = childElement(details, "RltdPties", `${party}Acct`, "Id");
+      return [
+        {
+          date: parseStatementDate(
+            childText(entry, "BookgDt", "Dt") ||
+              childText(entry, "BookgDt", "DtTm") ||
+              childText(entry, "ValDt", "Dt"),
+          ),
+          amount: sign * amount,
+          currency: amountElement?.getAttribute("Ccy") ?? "CZK",
+          variableSymbol: normalizeVariableSymbol(
+            /^\d+$/.test(reference)
+              ? reference
+              : findVariableSymbol(reference) || findVariableSymbol(endToEndId),
+          ),
+          counterpartyName: childText(details, "RltdPties", party, "Nm"),
+          counterpartyAccount:
+            childText(account, "IBAN") || childText(account, "Othr", "Id"),
+          message: childText(details, "RmtInf", "Ustrd"),
+        },
+      ];
+    },
+  );
+};
+
+export const detectStatementFormat = (text: string): BankStatementFormat => {
+  const start = text.trimStart();
+  if (start.startsWith("<")) return "camt";
+  if (start.startsWith("074")) return "gpc";
+  return "csv";
+};
+
+/**
+ * Reads a statement file. Czech banks still export GPC and many CSVs in
+ * Windows-1250, so anything that is not valid UTF-8 is read as that.
+ */
+export const readBankStatement = async (
+  file: Blob,
+): Promise<BankTransaction[]> => {
+  const data = await file.arrayBuffer();
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder("windows-1250").decode(data);
+  }
+  const format = detectStatementFormat(text.replace(/^\uFEFF/, ""));
+  if (format === "camt") return parseCamtStatement(text);
+  if (format === "gpc") return parseGpcStatement(text);
+  return parseCsvStatement(text.replace(/^\uFEFF/, ""));
+};
+
+export type PaymentMatchStatus =
+  | "exact"
+  | "partial"
+  | "overpaid"
+  | "amountOnly"
+  | "alreadyPaid"
+  | "ambiguous"
+  | "unmatched";
+
+export type PaymentMatchInvoice = InvoiceAdjustments & {
+  id: string;
+  invoiceNumber: string | null;
+  documentType?: string | null;
+  draft?: number | null;
+  paymentDate?: string | null;
+  /** Sum of the payments already recorded on the invoice. */
+  paidAmount?: number;
+  /** From `applyCreditNotes`; credit notes reduce what is due. */
+  creditedAmount?: number;
+  settledByCredit?: boolean;
+  items: unknown;
+};
+
+export type PaymentMatch = {
+  transaction: BankTransaction;
+  invoiceId: string | null;
+  status: PaymentMatchStatus;
+  /** Amount still due on the matched invoice. */
+  expected: number | null;
+  /** Invoices an ambiguous payment could belong to; one is picked by hand. */
+  candidateIds?: string[];
+};
+
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Pairs incoming payments with invoices in the same currency. A payment
+ * whose variable symbol is an invoice's matches it and is flagged when the
+ * amount is short of or over what is still due (net of credit notes), or
+ * when the invoice is already paid or cancelled by credit notes. Several
+ * payments may match one invoice, e.g. instalments: each is compared with
+ * what the earlier ones left due, so an over-payment shows on the one that
+ * exceeds the total. When several unpaid invoices share the symbol and
+ * currency, the payment is left ambiguous with those invoices as candidates
+ * instead of guessing. Payments without a known variable symbol fall back to
+ * the one unpaid invoice with exactly that amount due, which is only a
+ * suggestion. Debits, drafts and credit notes are ignored.
+ */
+export const matchPayments = (
+  transactions: readonly BankTransaction[],
+  invoices: readonly PaymentMatchInvoice[],
+  options: { withVat?: boolean } = {},
+): PaymentMatch[] => {
+  const candidates = invoices
+    .filter((invoice) => !isDraftInvoice(invoice) && !isCreditNote(invoice))
+    .map((invoice) => ({
+      invoice,
+      variableSymbol: normalizeVariableSymbol(
+        getVariableSymbol(invoice.invoiceNumber ?? ""),
+      ),
+      // Lowered by every payment matched in this statement.
+      due:
+        getInvoiceTotal(invoice, options) -
+        (invoice.creditedAmount ?? 0) -
+        (invoice.paidAmount ?? 0),
+      currency: normalizeCurrency(invoice.currency),
+      settled: Boolean(invoice.paymentDate || invoice.settledByCredit),
+    }));
+
+  const matches = transactions
+    .filter((transaction) => transaction.amount > 0)
+    .map((transaction): PaymentMatch => {
+      const currency = normalizeCurrency(transaction.currency);
+      const sameSymbol = transaction.variableSymbol
+        ? candidates.filter(
+            (candidate) =>
+              candidate.variableSymbol === transaction.variableSymbol &&
+              candidate.currency === currency,
+          )
+        : [];
+      // An unpaid invoice wins over paid ones that share the symbol.
+      const unsettled = sameSymbol.filter((candidate) => !candidate.settled);
+      const bySymbol =
+        unsettled.length === 1
+          ? unsettled[0]
+          : unsettled.length === 0 && sameSymbol.length === 1
+            ? sameSymbol[0]
+            : undefined;
+      if (!bySymbol && sameSymbol.length > 1) {
+        return {
+          transaction,
+          invoiceId: null,
+          status: "ambiguous",
+          expected: null,
+          candidateIds: (unsettled.length > 0 ? unsettled : sameSymbol).map(
+            (candidate) => candidate.invoice.id,
+          ),
+        };
+      }
+      if (!bySymbol) {
+        return {
+          transaction,
+          invoiceId: null,
+          status: "unmatched",
+          expected: null,
+        };
+      }
+
+      const expected = bySymbol.due;
+      bySymbol.due -= transaction.amount;
+      const difference = transaction.amount - expected;
+      const status: PaymentMatchStatus = bySymbol.settled
+        ? "alreadyPaid"
+        : difference < -AMOUNT_TOLERANCE
+          ? "partial"
+          : difference > AMOUNT_TOLERANCE
+            ? "overpaid"
+            : "exact";
+      return {
+        transaction,
+        invoiceId: bySymbol.invoice.id,
+        status,
+        expected,
+      };
+    });
+
+  // Second pass so a symbol match always wins over an amount-only one.
+  return matches.map((match) => {
+    if (match.status !== "unmatched") return match;
+    const byAmount = candidates.filter(
+      (candidate) =>
+        !candidate.settled &&
+        candidate.due > AMOUNT_TOLERANCE &&
+        candidate.currency === normalizeCurrency(match.transaction.currency) &&
+        Math.abs(candidate.due - match.transaction.amount) <= AMOUNT_TOLERANCE,
+    );
+    if (byAmount.length !== 1) return match;
+    const expected = byAmount[0].due;
+    byAmount[0].due -= match.transaction.amount;
+    return {
+      ...match,
+      invoiceId: byAmount[0].invoice.id,
+      status: "amountOnly",
+      expected,
+    };
+  });
+};
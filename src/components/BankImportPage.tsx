@@ -0,0 +1,390 @@
+import { use, useMemo, useRef, useState } from "react";
+import * as Evolu from "@evolu/common";
+import { useQuery } from "@evolu/react";
+import {
+  matchPayments,
+  readBankStatement,
+  type BankTransaction,
+  type PaymentMatchStatus,
+} from "../bankStatements";
+import { formatMoney } from "../currency";
+import { useEvolu } from "../evolu";
+import { useI18n } from "../i18n";
+import { applyCreditNotes, getInvoiceTotal } from "../invoices";
+import {
+  getPaidAmounts,
+  recordInvoicePayment,
+  type PaymentRecord,
+} from "../payments";
+
+type BankImportPageProps = {
+  onPaymentsApplied: (count: number) => void;
+};
+
+const STATUS_STYLES: Record<PaymentMatchStatus, string> = {
+  exact: "status-badge status-paid",
+  partial: "status-badge status-partial",
+  overpaid: "status-badge status-overdue",
+  amountOnly: "status-badge status-proforma",
+  alreadyPaid: "status-badge status-draft",
+  ambiguous: "status-badge status-partial",
+  unmatched: "status-badge status-draft",
+};
+
+// Partial, over- and amount-only matches wait for an explicit tick; picking
+// the invoice of an ambiguous one is tick enough.
+const isSelectedByDefault = (status: PaymentMatchStatus) =>
+  status === "exact" || status === "ambiguous";
+
+export function BankImportPage({ onPaymentsApplied }: BankImportPageProps) {
+  const { t, locale } = useI18n();
+  const evolu = useEvolu();
+  const owner = use(evolu.appOwner);
+  const statementInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [transactions, setTransactions] = useState<BankTransaction[] | null>(
+    null,
+  );
+  const [fileName, setFileName] = useState("");
+  const [selection, setSelection] = useState<Record<number, boolean>>({});
+  // Invoice picked by hand for each ambiguous match, by match index.
+  const [assignments, setAssignments] = useState<Record<number, string>>({});
+  const [isApplying, setIsApplying] = useState(false);
+
+  const profileQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .select(["vatPayer"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    [evolu, owner.id],
+  );
+
+  const invoicesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "invoiceNumber",
+            "documentType",
+            "correctedInvoiceId",
+            "draft",
+            "clientName",
+            "paymentDate",
+            "currency",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const paymentsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("payment")
+          .select(["id", "invoiceId", "paymentDate", "amount"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const profileRows = useQuery(profileQuery);
+  const invoiceRows = useQuery(invoicesQuery);
+  const payments = useQuery(paymentsQuery);
+  const withVat = profileRows[0]?.vatPayer === Evolu.sqliteTrue;
+
+  const invoices = useMemo(() => {
+    const paidAmounts = getPaidAmounts(payments);
+    return applyCreditNotes(
+      invoiceRows.map((invoice) => ({
+        ...invoice,
+        paidAmount: paidAmounts.get(invoice.id) ?? 0,
+      })),
+      { withVat },
+    );
+  }, [invoiceRows, payments, withVat]);
+
+  const matches = useMemo(
+    () =>
+      transactions ? matchPayments(transactions, invoices, { withVat }) : [],
+    [transactions, invoices, withVat],
+  );
+
+  const getMatchInvoiceId = (index: number) =>
+    matches[index].status === "ambiguous"
+      ? (assignments[index] ?? null)
+      : matches[index].invoiceId;
+
+  const canApply = (index: number) =>
+    matches[index].status !== "unmatched" &&
+    matches[index].status !== "alreadyPaid" &&
+    getMatchInvoiceId(index) !== null;
+
+  const isSelected = (index: number) =>
+    canApply(index) &&
+    (selection[index] ?? isSelectedByDefault(matches[index].status));
+
+  const selectedCount = matches.filter((_, index) => isSelected(index)).length;
+
+  const handleStatementFile = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = await readBankStatement(file);
+      if (parsed.length === 0) {
+        alert(t("alerts.bankStatementEmpty"));
+        return;
+      }
+      setTransactions(parsed);
+      setFileName(file.name);
+      setSelection({});
+      setAssignments({});
+    } catch (error) {
+      console.error("Bank statement import error:", error);
+      alert(t("alerts.bankStatementInvalid"));
+    }
+  };
+
+  const handleApply = () => {
+    setIsApplying(true);
+    let applied = 0;
+    // Payments recorded in this run, so instalments of one invoice see each
+    // other when its payment date is derived.
+    const recordedPayments: PaymentRecord[] = [];
+    try {
+      matches.forEach((match, index) => {
+        const invoice = findInvoice(getMatchInvoiceId(index));
+        if (!invoice || !isSelected(index)) return;
+        const { transaction } = match;
+        const recorded = recordInvoicePayment(
+          evolu,
+          {
+            id: invoice.id,
+            payable:
+              getInvoiceTotal(invoice, { withVat }) - invoice.creditedAmount,
+            payments: [...payments, ...recordedPayments].filter(
+              (payment) => payment.invoiceId === invoice.id,
+            ),
+          },
+          {
+            paymentDate: transaction.date,
+            amount: transaction.amount,
+            method: "bank",
+            note: [
+              transaction.variableSymbol
+                ? t("bankImport.variableSymbol", {
+                    symbol: transaction.variableSymbol,
+                  })
+                : null,
+              transaction.counterpartyAccount,
+              transaction.message,
+            ]
+              .filter(Boolean)
+              .join(" · "),
+          },
+        );
+        if (!recorded) return;
+        applied += 1;
+        recordedPayments.push({
+          invoiceId: invoice.id,
+          paymentDate: transaction.date,
+          amount: transaction.amount,
+        });
+      });
+    } finally {
+      setIsApplying(false);
+    }
+
+    if (applied < selectedCount) {
+      alert(t("alerts.bankPaymentsPartiallyApplied"));
+    }
+    onPaymentsApplied(applied);
+  };
+
+  const findInvoice = (invoiceId: string | null) =>
+    invoices.find((invoice) => invoice.id === invoiceId) ?? null;
+
+  return (
+    <div className="page-shell">
+      <div className="page-container-lg">
+        <div className="page-card-lg">
+          <div className="mb-6">
+            <p className="section-title">{t("bankImport.sectionTitle")}</p>
+            <h1 className="page-title">{t("bankImport.title")}</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              {t("bankImport.description")}
+            </p>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6">
+            <input
+              ref={statementInputRef}
+              type="file"
+              accept=".csv,.gpc,.abo,.xml,.txt"
+              onChange={handleStatementFile}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => statementInputRef.current?.click()}
+              className="btn-secondary w-full sm:w-auto"
+            >
+              {t("bankImport.chooseFile")}
+            </button>
+            {fileName ? (
+              <span className="text-sm text-slate-600">{fileName}</span>
+            ) : null}
+          </div>
+
+          {transactions === null ? null : matches.length === 0 ? (
+            <div className="empty-state">{t("bankImport.noCredits")}</div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {matches.map((match, index) => {
+                  const invoice = findInvoice(getMatchInvoiceId(index));
+                  const { transaction } = match;
+                  return (
+                    <label
+                      key={index}
+                      className="list-card flex flex-col sm:flex-row sm:items-center gap-3"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isSelected(index)}
+                        disabled={!canApply(index)}
+                        onChange={(event) =>
+                          setSelection((current) => ({
+                            ...current,
+                            [index]: event.target.checked,
+                          }))
+                        }
+                        className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                      />
+                      <div className="flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold">
+                            {formatMoney(
+                              transaction.amount,
+                              transaction.currency,
+                              locale,
+                            )}
+                          </span>
+                          <span className={STATUS_STYLES[match.status]}>
+                            {t(`bankImport.status.${match.status}`)}
+                          </span>
+                        </div>
+                        <div className="text-sm text-slate-600">
+                          {[
+                            new Date(transaction.date).toLocaleDateString(
+                              locale,
+                            ),
+                            transaction.variableSymbol
+                              ? t("bankImport.variableSymbol", {
+                                  symbol: transaction.variableSymbol,
+                                })
+                              : null,
+                            transaction.counterpartyName,
+                            transaction.message,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                      </div>
+                      <div className="text-sm sm:text-right">
+                        {match.status === "ambiguous" ? (
+                          <select
+                            aria-label={t("bankImport.chooseInvoice")}
+                            value={assignments[index] ?? ""}
+                            onChange={(event) =>
+                              setAssignments((current) => ({
+                                ...current,
+                                [index]: event.target.value,
+                              }))
+                            }
+                            className="form-input"
+                          >
+                            <option value="" disabled>
+                              {t("bankImport.chooseInvoice")}
+                            </option>
+                            {(match.candidateIds ?? []).map((invoiceId) => {
+                              const candidate = findInvoice(invoiceId);
+                              return candidate ? (
+                                <option key={invoiceId} value={invoiceId}>
+                                  {[
+                                    candidate.invoiceNumber,
+                                    candidate.clientName,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" · ")}
+                                </option>
+                              ) : null;
+                            })}
+                          </select>
+                        ) : invoice ? (
+                          <>
+                            <div className="font-semibold">
+                              {invoice.invoiceNumber}
+                            </div>
+                            <div className="text-slate-600">
+                              {invoice.clientName}
+                            </div>
+                            {match.expected !== null &&
+                            match.status !== "exact" ? (
+                              <div className="text-slate-600">
+                                {t("bankImport.expected", {
+                                  amount: formatMoney(
+                                    match.expected,
+                                    invoice.currency,
+                                    locale,
+                                  ),
+                                })}
+                              </div>
+                            ) : null}
+                          </>
+                        ) : (
+                          <span className="text-slate-500">
+                            {t("bankImport.noInvoice")}
+                          </span>
+                        )}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <button
+                onClick={handleApply}
+                disabled={isApplying || selectedCount === 0}
+                className="btn-primary mt-6 w-full"
+              >
+                {t("bankImport.apply", { count: selectedCount })}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,22 +2,78 @@ import { use, useEffect, useMemo, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
 import { useEvolu } from "../evolu";
-import { useI18n } from "../i18n";
+import { formatCurrencyTotals, formatMoney } from "../currency";
+import {
+  DOCUMENT_LANGUAGES,
+  normalizeDocumentLanguage,
+  useI18n,
+} from "../i18n";
+import {
+  applyCreditNotes,
+  getInvoiceTotal,
+  getInvoiceStatus,
+  isCreditNote,
+  isDraftInvoice,
+  isProforma,
+  summarizeReceivables,
+  type InvoiceStatus,
+} from "../invoices";
+import { getPaidAmounts } from "../payments";
 
 type ClientDetailPageProps = {
   clientId: string;
   onBack: () => void;
   onClientDeleted: () => void;
+  onViewInvoice: (invoiceId: string) => void;
+};
+
+type ClientInvoiceRow = {
+  id: string;
+  invoiceNumber: string | null;
+  issueDate: string | null;
+  paymentDate: string | null;
+  paymentDays: number | null;
+  btcInvoice: number | null;
+  currency: string | null;
+  documentType: string | null;
+  correctedInvoiceId: string | null;
+  draft: number | null;
+  items: unknown;
+  discount: number | null;
+  discountType: string | null;
+  cashRounding: number | null;
+  vatRegime: string | null;
+  paidAmount?: number;
 };
 
 const ClientId = Evolu.id("Client");
 
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: "invoicesList.statusPaid",
+  partial: "invoicesList.statusPartial",
+  overdue: "invoicesList.statusOverdue",
+  unpaid: "invoicesList.statusUnpaid",
+  credited: "invoicesList.statusCredited",
+};
+
+const formatDate = (
+  iso: string | null,
+  locale: string,
+  placeholder: string,
+): string => {
+  if (!iso) return placeholder;
+  const parsed = new Date(iso);
+  if (Number.isNaN(parsed.getTime())) return iso;
+  return parsed.toLocaleDateString(locale);
+};
+
 export function ClientDetailPage({
   clientId,
   onBack,
   onClientDeleted,
+  onViewInvoice,
 }: ClientDetailPageProps) {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
   const evolu = useEvolu();
   const owner = use(evolu.appOwner);
   const clientIdValue = useMemo(() => {
@@ -36,6 +92,7 @@ export function ClientDetailPage({
     useState("");
   const [vatNumber, setVatNumber] = useState("");
   const [note, setNote] = useState("");
+  const [documentLanguage, setDocumentLanguage] = useState("");
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -59,6 +116,95 @@ export function ClientDetailPage({
   const clientRows = useQuery(clientQuery);
   const client = clientRows[0] ?? null;
 
+  const invoicesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "invoiceNumber",
+            "issueDate",
+            "paymentDate",
+            "paymentDays",
+            "btcInvoice",
+            "currency",
+            "documentType",
+            "correctedInvoiceId",
+            "draft",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
+          ])
+          .where("clientId", "=", clientIdValue)
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue)
+          .orderBy("issueDate", "desc"),
+      ),
+    [evolu, clientIdValue, owner.id],
+  );
+
+  const invoiceRows = useQuery(invoicesQuery) as readonly ClientInvoiceRow[];
+
+  const paymentsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("payment")
+          .select(["invoiceId", "paymentDate", "amount"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const payments = useQuery(paymentsQuery);
+
+  const profileQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .select(["vatPayer", "discreteMode"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    [evolu, owner.id],
+  );
+
+  const profileRows = useQuery(profileQuery);
+  const isVatPayer = profileRows[0]?.vatPayer === Evolu.sqliteTrue;
+  const isDiscreteMode = profileRows[0]?.discreteMode === Evolu.sqliteTrue;
+
+  const invoices = useMemo(() => {
+    const paidAmounts = getPaidAmounts(payments);
+    return applyCreditNotes(
+      invoiceRows.map((invoice) => ({
+        ...invoice,
+        paidAmount: paidAmounts.get(invoice.id) ?? 0,
+      })),
+      { withVat: isVatPayer },
+    );
+  }, [invoiceRows, payments, isVatPayer]);
+
+  // Receivables are what the client actually owes, so VAT payers see gross
+  // amounts here.
+  const receivables = useMemo(
+    () => summarizeReceivables(invoices, { withVat: isVatPayer }),
+    [invoices, isVatPayer],
+  );
+
+  const formatAmount = (totals: Record<string, number>) =>
+    isDiscreteMode
+      ? t("common.discreteMask")
+      : formatCurrencyTotals(totals, locale);
+
   const hydrateForm = (source: typeof client) => {
     setName(source?.name ?? "");
     setEmail(source?.email ?? "");
@@ -68,6 +214,9 @@ export function ClientDetailPage({
     setCompanyIdentificationNumber(source?.companyIdentificationNumber ?? "");
     setVatNumber(source?.vatNumber ?? "");
     setNote(source?.note ?? "");
+    setDocumentLanguage(
+      normalizeDocumentLanguage(source?.documentLanguage) ?? "",
+    );
   };
 
   useEffect(() => {
@@ -101,6 +250,7 @@ export function ClientDetailPage({
         companyIdentificationNumber: toNullable(companyIdentificationNumber),
         vatNumber: toNullable(vatNumber),
         note: toNullable(note),
+        documentLanguage: normalizeDocumentLanguage(documentLanguage),
       });
 
       if (!result.ok) {
@@ -301,6 +451,28 @@ export function ClientDetailPage({
                 className="form-textarea"
               />
             </div>
+
+            <div>
+              <label htmlFor="clientDocumentLanguage" className="form-label">
+                {t("clientDetail.documentLanguageLabel")}
+              </label>
+              <select
+                id="clientDocumentLanguage"
+                value={documentLanguage}
+                onChange={(e) => setDocumentLanguage(e.target.value)}
+                disabled={!isEditing}
+                className="form-select"
+              >
+                <option value="">
+                  {t("clientDetail.documentLanguageDefault")}
+                </option>
+                {DOCUMENT_LANGUAGES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`documentLanguages.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="mt-6 flex flex-col sm:flex-row gap-3">
@@ -346,6 +518,139 @@ export function ClientDetailPage({
               </>
             )}
           </div>
+
+          <div className="border-t border-slate-200/70 pt-6 mt-8">
+            <h2 className="settings-section-heading">
+              {t("clientDetail.invoicesTitle")}
+            </h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <div className="stat-card">
+                <div className="section-title">
+                  {t("clientDetail.statRevenue")}
+                </div>
+                <div className="mt-2 text-lg font-semibold stat-count">
+                  {formatAmount(receivables.lifetimeRevenue)}
+                </div>
+              </div>
+              <div className="stat-card">
+                <div className="section-title">
+                  {t("clientDetail.statOpenBalance")}
+                </div>
+                <div className="mt-2 text-lg font-semibold stat-count">
+                  {formatAmount(receivables.openBalance)}
+                </div>
+                {Object.values(receivables.overdueBalance).some(
+                  (value) => value > 0,
+                ) ? (
+                  <div className="text-sm stat-sum">
+                    {t("clientDetail.statOverdue", {
+                      amount: formatAmount(receivables.overdueBalance),
+                    })}
+                  </div>
+                ) : null}
+              </div>
+              <div className="stat-card">
+                <div className="section-title">
+                  {t("clientDetail.statAverageDaysToPay")}
+                </div>
+                <div className="mt-2 text-lg font-semibold stat-count">
+                  {receivables.averageDaysToPay == null
+                    ? t("common.placeholderDash")
+                    : t("clientDetail.statAverageDaysValue", {
+                        days: new Intl.NumberFormat(locale, {
+                          maximumFractionDigits: 1,
+                        }).format(receivables.averageDaysToPay),
+                      })}
+                </div>
+              </div>
+              <div className="stat-card">
+                <div className="section-title">
+                  {t("clientDetail.statLastPayment")}
+                </div>
+                <div className="mt-2 text-lg font-semibold stat-count">
+                  {formatDate(
+                    receivables.lastPaymentDate,
+                    locale,
+                    t("common.placeholderDash"),
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {invoices.length === 0 ? (
+              <div className="empty-state">
+                {t("clientDetail.invoicesEmpty")}
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {invoices.map((invoice) => {
+                  const status = getInvoiceStatus(invoice);
+                  const statusStyles = `status-badge status-${status}`;
+
+                  return (
+                    <div
+                      key={invoice.id}
+                      className="list-card flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
+                    >
+                      <div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <div className="font-semibold invoice-row-number">
+                            {invoice.invoiceNumber ??
+                              t("common.placeholderDash")}
+                          </div>
+                          <span className={statusStyles}>
+                            {t(STATUS_LABELS[status])}
+                            {invoice.btcInvoice === Evolu.sqliteTrue && (
+                              <span className="ml-1 text-[#f7931a]">₿</span>
+                            )}
+                          </span>
+                          {isCreditNote(invoice) ? (
+                            <span className="status-badge status-credit-note">
+                              {t("invoicesList.creditNoteBadge")}
+                            </span>
+                          ) : null}
+                          {isProforma(invoice) ? (
+                            <span className="status-badge status-proforma">
+                              {t("invoicesList.proformaBadge")}
+                            </span>
+                          ) : null}
+                          {isDraftInvoice(invoice) ? (
+                            <span className="status-badge status-draft">
+                              {t("invoicesList.draftBadge")}
+                            </span>
+                          ) : null}
+                        </div>
+                        <div className="text-sm invoice-row-date">
+                          {formatDate(
+                            invoice.issueDate,
+                            locale,
+                            t("common.placeholderDash"),
+                          )}
+                          {" · "}
+                          {isDiscreteMode
+                            ? t("common.discreteMask")
+                            : formatMoney(
+                                getInvoiceTotal(invoice, {
+                                  withVat: isVatPayer,
+                                }),
+                                invoice.currency,
+                                locale,
+                              )}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onViewInvoice(invoice.id)}
+                        className="btn-secondary w-full sm:w-auto"
+                      >
+                        {t("clientDetail.invoiceDetail")}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -1,7 +1,11 @@
 import { useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useEvolu } from "../evolu";
-import { useI18n } from "../i18n";
+import {
+  DOCUMENT_LANGUAGES,
+  normalizeDocumentLanguage,
+  useI18n,
+} from "../i18n";
 
 type ClientsPageProps = {
   onClientCreated: () => void;
@@ -71,6 +75,7 @@ export function ClientsPage({ onClientCreated }: ClientsPageProps) {
     useState("");
   const [vatNumber, setVatNumber] = useState("");
   const [note, setNote] = useState("");
+  const [documentLanguage, setDocumentLanguage] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isAresLoading, setIsAresLoading] = useState(false);
 
@@ -96,6 +101,7 @@ export function ClientsPage({ onClientCreated }: ClientsPageProps) {
         companyIdentificationNumber: toNullable(companyIdentificationNumber),
         vatNumber: toNullable(vatNumber),
         note: toNullable(note),
+        documentLanguage: normalizeDocumentLanguage(documentLanguage),
         deleted: Evolu.sqliteFalse,
       });
 
@@ -296,6 +302,27 @@ export function ClientsPage({ onClientCreated }: ClientsPageProps) {
                 className="form-textarea"
               />
             </div>
+
+            <div>
+              <label htmlFor="clientDocumentLanguage" className="form-label">
+                {t("clientsForm.documentLanguageLabel")}
+              </label>
+              <select
+                id="clientDocumentLanguage"
+                value={documentLanguage}
+                onChange={(e) => setDocumentLanguage(e.target.value)}
+                className="form-select"
+              >
+                <option value="">
+                  {t("clientsForm.documentLanguageDefault")}
+                </option>
+                {DOCUMENT_LANGUAGES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`documentLanguages.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <button
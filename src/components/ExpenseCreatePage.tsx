@@ -1,7 +1,9 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useEvolu } from "../evolu";
 import { useI18n } from "../i18n";
+import { readIsdocExpense } from "../isdoc";
+import { CONTROL_STATEMENT_THRESHOLD } from "../vatReports";
 
 type ExpenseCreatePageProps = {
   onExpenseCreated: () => void;
@@ -21,6 +23,8 @@ export function ExpenseCreatePage({
   const [supplierVat, setSupplierVat] = useState("");
   const [expenseDate, setExpenseDate] = useState("");
   const [isSaving, setIsSaving] = useState(false);
+  const [isImported, setIsImported] = useState(false);
+  const importIsdocInputRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     if (expenseDate) return;
@@ -71,8 +75,45 @@ export function ExpenseCreatePage({
   };
 
   const amountWithVatValue = Number(amountWithVat);
+  // Imported documents keep their number and supplier VAT at any amount.
   const showExtendedFields =
-    Number.isFinite(amountWithVatValue) && amountWithVatValue > 10000;
+    isImported ||
+    (Number.isFinite(amountWithVatValue) &&
+      amountWithVatValue > CONTROL_STATEMENT_THRESHOLD);
+
+  const handleImportIsdoc = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = await readIsdocExpense(file);
+      if (!imported) {
+        alert(t("alerts.isdocImportInvalid"));
+        return;
+      }
+      if (imported.isCreditNote) {
+        alert(t("alerts.isdocImportCreditNote"));
+        return;
+      }
+
+      setExpenseNumber(imported.expenseNumber);
+      setSupplierVat(imported.supplierVat);
+      setAmountWithoutVat(imported.amountWithoutVat.toFixed(2));
+      setVatRate(String(imported.vatRate));
+      setAmountWithVat(imported.amountWithVat.toFixed(2));
+      if (imported.expenseDate) setExpenseDate(imported.expenseDate);
+      if (!description.trim() && imported.supplierName) {
+        setDescription(imported.supplierName.slice(0, 100).trim());
+      }
+      setIsImported(true);
+    } catch (error) {
+      console.error("ISDOC import error:", error);
+      alert(t("alerts.isdocImportInvalid"));
+    }
+  };
 
   const handleSave = async () => {
     if (!description.trim()) {
@@ -224,6 +265,26 @@ export function ExpenseCreatePage({
             <h1 className="page-title">{t("expenseCreate.title")}</h1>
           </div>
 
+          <div className="mb-6">
+            <input
+              ref={importIsdocInputRef}
+              type="file"
+              accept=".isdoc,.isdocx"
+              onChange={handleImportIsdoc}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => importIsdocInputRef.current?.click()}
+              className="btn-secondary w-full sm:w-auto"
+            >
+              {t("expenseCreate.importIsdoc")}
+            </button>
+            <p className="text-xs text-slate-500 mt-2">
+              {t("expenseCreate.importIsdocHint")}
+            </p>
+          </div>
+
           <div className="space-y-4">
             <div>
               <label htmlFor="expenseDate" className="form-label">
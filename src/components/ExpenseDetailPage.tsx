@@ -3,6 +3,7 @@ import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
 import { useEvolu } from "../evolu";
 import { useI18n } from "../i18n";
+import { CONTROL_STATEMENT_THRESHOLD } from "../vatReports";
 
 type ExpenseDetailPageProps = {
   expenseId: string;
@@ -141,7 +142,8 @@ export function ExpenseDetailPage({
 
   const amountWithVatValue = Number(amountWithVat);
   const showExtendedFields =
-    Number.isFinite(amountWithVatValue) && amountWithVatValue > 10000;
+    Number.isFinite(amountWithVatValue) &&
+    amountWithVatValue > CONTROL_STATEMENT_THRESHOLD;
 
   const handleSave = async () => {
     if (!expense?.id) return;
@@ -2,20 +2,41 @@ import { use, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
 import TrezorConnect from "@trezor/connect-web";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  findRateForDate,
+  formatMoney,
+  normalizeCurrency,
+} from "../currency";
 import { useEvolu } from "../evolu";
-import { useI18n } from "../i18n";
-
-type InvoiceItemForm = {
-  amount: string;
-  unit: string;
-  description: string;
-  unitPrice: string;
-  vat: string;
-};
+import {
+  DOCUMENT_LANGUAGES,
+  normalizeDocumentLanguage,
+  useI18n,
+} from "../i18n";
+import {
+  applyVatRegime,
+  computeInvoiceTotals,
+  createClientSnapshot,
+  documentTypeValue,
+  isZeroRatedVatRegime,
+  normalizeDiscountType,
+  normalizeInvoiceItems,
+  normalizeVatRegime,
+  parseItemsParam,
+  suggestVatRegime,
+  VAT_REGIMES,
+  type DiscountType,
+  type InvoiceItemForm,
+  type VatRegime,
+} from "../invoices";
+import { getNextSeriesNumber, hasDuplicateDocumentNumber } from "../numbering";
 
 type InvoiceNumberRow = {
   id: string;
   invoiceNumber: string | null;
+  documentType: string | null;
 };
 
 type InvoiceCreatePageProps = {
@@ -28,6 +49,8 @@ const emptyItem = (): InvoiceItemForm => ({
   description: "",
   unitPrice: "",
   vat: "",
+  discount: "",
+  discountType: "percent",
 });
 
 const parseBooleanParam = (value: string | null): boolean | null => {
@@ -38,43 +61,8 @@ const parseBooleanParam = (value: string | null): boolean | null => {
   return null;
 };
 
-const parseItemsParam = (value: string | null): InvoiceItemForm[] | null => {
-  if (!value) return null;
-  try {
-    const parsed = JSON.parse(value);
-    if (!Array.isArray(parsed)) return null;
-    const normalized = parsed
-      .filter((item) => item && typeof item === "object")
-      .map((item) => ({
-        amount: item.amount === 0 || item.amount ? String(item.amount) : "",
-        unit: typeof item.unit === "string" ? item.unit : "",
-        description:
-          typeof item.description === "string" ? item.description : "",
-        unitPrice:
-          item.unitPrice === 0 || item.unitPrice ? String(item.unitPrice) : "",
-        vat: item.vat === 0 || item.vat ? String(item.vat) : "",
-      }))
-      .filter(
-        (item) =>
-          item.description ||
-          item.unit ||
-          item.amount ||
-          item.unitPrice ||
-          item.vat,
-      );
-    return normalized.length > 0 ? normalized : null;
-  } catch {
-    return null;
-  }
-};
-
-const formatUiTotal = (value: number, locale: string) =>
-  new Intl.NumberFormat(locale, {
-    style: "currency",
-    currency: "CZK",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
+const formatUiTotal = (value: number, currency: string, locale: string) =>
+  formatMoney(value, currency, locale);
 
 export function InvoiceCreatePage({
   onInvoiceCreated,
@@ -88,6 +76,7 @@ export function InvoiceCreatePage({
 
   const initialInvoiceNumber =
     getParam("invoiceNumber") ?? getParam("number") ?? "";
+  const initialClientId = getParam("clientId") ?? "";
   const initialClientName = getParam("clientName") ?? getParam("client") ?? "";
   const initialIssueDate = getParam("issueDate") ?? getParam("date") ?? "";
   const initialPaymentDays = getParam("paymentDays") ?? "";
@@ -102,16 +91,17 @@ export function InvoiceCreatePage({
   const initialBtcInvoice =
     parseBooleanParam(getParam("btcInvoice") ?? getParam("bitcoin")) ?? false;
   const initialBtcAddress = getParam("btcAddress") ?? "";
+  const initialDocumentType =
+    getParam("documentType") === "proforma" ? "proforma" : "invoice";
+  const initialCurrency = normalizeCurrency(getParam("currency"));
   const initialVatParam = getParam("vat") ?? getParam("vatPercent") ?? "";
   const initialUnitParam = getParam("unit") ?? getParam("itemUnit") ?? "";
   const parsedItems = parseItemsParam(getParam("items"));
   const initialItems = (() => {
     if (parsedItems) {
       return parsedItems.map((it) => ({
-        amount: it.amount ?? "",
+        ...it,
         unit: it.unit || initialUnitParam || "",
-        description: it.description ?? "",
-        unitPrice: it.unitPrice ?? "",
         vat: it.vat || initialVatParam || "",
       }));
     }
@@ -125,11 +115,14 @@ export function InvoiceCreatePage({
   const evolu = useEvolu();
   const owner = use(evolu.appOwner);
 
+  const [documentType, setDocumentType] = useState<"invoice" | "proforma">(
+    initialDocumentType,
+  );
   const [invoiceNumber, setInvoiceNumber] = useState(initialInvoiceNumber);
   const [invoiceNumberTouched, setInvoiceNumberTouched] = useState(
     Boolean(initialInvoiceNumber),
   );
-  const [clientName, setClientName] = useState(initialClientName);
+  const [clientId, setClientId] = useState(initialClientId);
   const [issueDate, setIssueDate] = useState(initialIssueDate);
   const [paymentDays, setPaymentDays] = useState(initialPaymentDays || "14");
   const [paymentMethod, setPaymentMethod] = useState(initialPaymentMethod);
@@ -137,10 +130,23 @@ export function InvoiceCreatePage({
     initialPurchaseOrderNumber,
   );
   const [invoicingNote, setInvoicingNote] = useState(initialInvoicingNote);
+  // Empty follows the client's document language.
+  const [documentLanguage, setDocumentLanguage] = useState("");
   const [btcInvoice, setBtcInvoice] = useState(initialBtcInvoice);
   const [btcAddress, setBtcAddress] = useState(initialBtcAddress);
   const [isTrezorLoading, setIsTrezorLoading] = useState(false);
+  const [currency, setCurrency] = useState<string>(initialCurrency);
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [exchangeRateTouched, setExchangeRateTouched] = useState(false);
   const [items, setItems] = useState<InvoiceItemForm[]>(initialItems);
+  const [discount, setDiscount] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [cashRounding, setCashRounding] = useState(
+    initialPaymentMethod === "cash",
+  );
+  const [vatRegimeChoice, setVatRegimeChoice] = useState<VatRegime | null>(
+    null,
+  );
   const [isSaving, setIsSaving] = useState(false);
   const trezorInitializedRef = useRef(false);
 
@@ -149,7 +155,14 @@ export function InvoiceCreatePage({
       evolu.createQuery((db) =>
         db
           .selectFrom("client")
-          .select(["id", "name"])
+          .select([
+            "id",
+            "name",
+            "addressLine1",
+            "addressLine2",
+            "companyIdentificationNumber",
+            "vatNumber",
+          ])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
           .where("deleted", "is not", Evolu.sqliteTrue)
@@ -159,13 +172,28 @@ export function InvoiceCreatePage({
   );
 
   const clients = useQuery(clientsQuery);
+  // Links passed with only a client name (older bookmarks) resolve to the
+  // client with that name until the user picks one explicitly.
+  const selectedClientId =
+    clientId ||
+    (initialClientName
+      ? (clients.find((client) => client.name === initialClientName)?.id ?? "")
+      : "");
+  const selectedClient =
+    clients.find((client) => client.id === selectedClientId) ?? null;
 
   const profileQuery = useMemo(
     () =>
       evolu.createQuery((db) =>
         db
           .selectFrom("userProfile")
-          .select(["vatPayer", "poRequired"])
+          .select([
+            "vatPayer",
+            "poRequired",
+            "invoiceNumberTemplate",
+            "creditNoteNumberTemplate",
+            "proformaNumberTemplate",
+          ])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
           .orderBy("updatedAt", "desc")
@@ -179,48 +207,58 @@ export function InvoiceCreatePage({
   const isVatPayer = profile?.vatPayer === Evolu.sqliteTrue;
   const isPoRequired = profile?.poRequired === Evolu.sqliteTrue;
 
-  const invoiceTotal = items.reduce((sum, item) => {
-    const amount = Number(item.amount) || 0;
-    const unitPrice = Number(item.unitPrice) || 0;
-    return sum + amount * unitPrice;
-  }, 0);
-
-  const currentYear = new Date().getFullYear();
-  const yearPrefix = `${currentYear}-`;
-  const yearPrefixPattern = useMemo(
-    () => Evolu.NonEmptyTrimmedString100.orThrow(`${yearPrefix}%`),
-    [yearPrefix],
-  );
-  const latestInvoiceQuery = useMemo(
+  const ratesQuery = useMemo(
     () =>
       evolu.createQuery((db) =>
         db
-          .selectFrom("invoice")
-          .select(["invoiceNumber"])
+          .selectFrom("currencyRate")
+          .select(["rateDate", "currency", "rate"])
           .where("ownerId", "=", owner.id)
-          .where("isDeleted", "is not", Evolu.sqliteTrue)
-          .where("deleted", "is not", Evolu.sqliteTrue)
-          .where("invoiceNumber", "like", yearPrefixPattern)
-          .orderBy("invoiceNumber", "desc")
-          .limit(1),
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
       ),
-    [evolu, owner.id, yearPrefixPattern],
+    [evolu, owner.id],
   );
 
-  const latestInvoiceRows = useQuery(latestInvoiceQuery);
-  const latestInvoiceNumber = latestInvoiceRows[0]?.invoiceNumber ?? "";
-
-  const trimmedInvoiceNumber = invoiceNumber.trim();
-  const invoiceNumberResult = useMemo(
-    () => Evolu.NonEmptyTrimmedString100.from(trimmedInvoiceNumber),
-    [trimmedInvoiceNumber],
+  const rates = useQuery(ratesQuery);
+  const isForeignCurrency = currency !== DEFAULT_CURRENCY;
+  // DUZP equals the issue date on a new invoice, so that is the rate date.
+  const suggestedRate =
+    isForeignCurrency && issueDate
+      ? findRateForDate(rates, currency, issueDate)
+      : null;
+  const exchangeRateValue = exchangeRateTouched
+    ? exchangeRate
+    : suggestedRate
+      ? String(suggestedRate.rate)
+      : "";
+
+  // Until picked by hand, the regime follows the selected client.
+  const vatRegime: VatRegime = isVatPayer
+    ? (vatRegimeChoice ?? suggestVatRegime(selectedClient?.vatNumber))
+    : "domestic";
+  const isZeroRated = isZeroRatedVatRegime(vatRegime);
+
+  const discountValue = Number(discount);
+  const invoiceDiscount =
+    Number.isFinite(discountValue) && discountValue > 0 ? discountValue : null;
+  const invoiceTotals = computeInvoiceTotals(
+    normalizeInvoiceItems(items),
+    {
+      discount: invoiceDiscount,
+      discountType,
+      cashRounding: cashRounding ? Evolu.sqliteTrue : null,
+      currency,
+      vatRegime,
+    },
+    { withVat: isVatPayer },
   );
+
   const duplicateInvoiceQuery = useMemo(
     () =>
       evolu.createQuery((db) =>
         db
           .selectFrom("invoice")
-          .select(["id", "invoiceNumber"])
+          .select(["id", "invoiceNumber", "documentType"])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
           .where("deleted", "is not", Evolu.sqliteTrue),
@@ -231,9 +269,23 @@ export function InvoiceCreatePage({
   const duplicateInvoices = useQuery(
     duplicateInvoiceQuery,
   ) as readonly InvoiceNumberRow[];
-  const hasDuplicateInvoiceNumber = Boolean(
-    invoiceNumberResult.ok &&
-    duplicateInvoices.some((row) => row.invoiceNumber === trimmedInvoiceNumber),
+
+  // Until the user types a number, it follows the template of the selected
+  // document type for the period of the issue date.
+  const suggestedInvoiceNumber = getNextSeriesNumber(
+    duplicateInvoices,
+    documentType,
+    profile,
+    issueDate ? new Date(`${issueDate}T00:00:00`) : new Date(),
+  );
+  const invoiceNumberValue = invoiceNumberTouched
+    ? invoiceNumber
+    : suggestedInvoiceNumber;
+  const trimmedInvoiceNumber = invoiceNumberValue.trim();
+  const hasDuplicateInvoiceNumber = hasDuplicateDocumentNumber(
+    trimmedInvoiceNumber,
+    documentType,
+    duplicateInvoices,
   );
 
   useEffect(() => {
@@ -242,30 +294,6 @@ export function InvoiceCreatePage({
     setIssueDate(todayIso);
   }, [issueDate]);
 
-  useEffect(() => {
-    if (invoiceNumberTouched) return;
-    if (invoiceNumber.trim()) return;
-
-    let nextNumber = 1;
-    if (latestInvoiceNumber.startsWith(yearPrefix)) {
-      const parts = latestInvoiceNumber.split("-");
-      const suffix = parts[parts.length - 1];
-      const parsed = Number.parseInt(suffix, 10);
-      if (!Number.isNaN(parsed) && parsed >= 0) {
-        nextNumber = parsed + 1;
-      }
-    }
-
-    const padded = String(nextNumber).padStart(4, "0");
-    setInvoiceNumber(`${currentYear}-${padded}`);
-  }, [
-    currentYear,
-    invoiceNumber,
-    invoiceNumberTouched,
-    latestInvoiceNumber,
-    yearPrefix,
-  ]);
-
   const toNullable = (value: string) => {
     const trimmed = value.trim();
     return trimmed ? trimmed : null;
@@ -401,12 +429,13 @@ export function InvoiceCreatePage({
     );
   };
 
-  const handleSave = async () => {
-    if (!trimmedInvoiceNumber) {
+  // Drafts get no number until they are issued from the detail page.
+  const handleSave = async (asDraft: boolean) => {
+    if (!asDraft && !trimmedInvoiceNumber) {
       alert(t("alerts.invoiceNumberRequired"));
       return;
     }
-    if (!clientName.trim()) {
+    if (!selectedClient?.name) {
       alert(t("alerts.invoiceClientRequired"));
       return;
     }
@@ -442,33 +471,26 @@ export function InvoiceCreatePage({
       return;
     }
 
-    if (hasDuplicateInvoiceNumber) {
+    let exchangeRateNumber: number | null = null;
+    if (isForeignCurrency && exchangeRateValue.trim()) {
+      exchangeRateNumber = Number(exchangeRateValue);
+      if (!Number.isFinite(exchangeRateNumber) || exchangeRateNumber <= 0) {
+        alert(t("alerts.exchangeRateInvalid"));
+        return;
+      }
+    }
+
+    if (!asDraft && hasDuplicateInvoiceNumber) {
       const confirmed = confirm(t("alerts.duplicateInvoiceConfirm"));
       if (!confirmed) return;
     }
 
     setIsSaving(true);
     try {
-      const normalizedItems = items
-        .map((item) => ({
-          amount: Number.isFinite(Number(item.amount))
-            ? Number(item.amount)
-            : 0,
-          unit: item.unit.trim(),
-          description: item.description.trim(),
-          unitPrice: Number.isFinite(Number(item.unitPrice))
-            ? Number(item.unitPrice)
-            : 0,
-          vat: Number.isFinite(Number(item.vat)) ? Number(item.vat) : 0,
-        }))
-        .filter(
-          (item) =>
-            item.description ||
-            item.unit ||
-            item.amount ||
-            item.unitPrice ||
-            item.vat,
-        );
+      const normalizedItems = applyVatRegime(
+        normalizeInvoiceItems(items),
+        vatRegime,
+      );
 
       const itemsResult = Evolu.Json.from(JSON.stringify(normalizedItems));
       if (!itemsResult.ok) {
@@ -477,18 +499,30 @@ export function InvoiceCreatePage({
         return;
       }
 
+      const isProforma = documentType === "proforma";
       const payload = {
-        invoiceNumber: trimmedInvoiceNumber,
-        clientName: clientName.trim(),
+        invoiceNumber: asDraft ? null : trimmedInvoiceNumber,
+        draft: asDraft ? Evolu.sqliteTrue : null,
+        documentType: isProforma ? documentTypeValue.proforma : null,
+        ...createClientSnapshot(selectedClient),
         issueDate: issueDateResult.value,
-        duzp: isVatPayer ? issueDateResult.value : null,
+        // A proforma is not a tax document, so it has no DUZP.
+        duzp: isVatPayer && !isProforma ? issueDateResult.value : null,
         paymentDays: paymentDaysResult.value,
         paymentMethod,
         purchaseOrderNumber: toNullable(purchaseOrderNumber),
         invoicingNote: toNullable(invoicingNote),
+        documentLanguage: normalizeDocumentLanguage(documentLanguage),
         btcInvoice: btcInvoice ? Evolu.sqliteTrue : Evolu.sqliteFalse,
         btcAddress: toNullable(btcAddress),
+        currency,
+        exchangeRate: exchangeRateNumber,
         items: itemsResult.value,
+        discount: invoiceDiscount,
+        discountType: invoiceDiscount ? discountType : null,
+        cashRounding:
+          cashRounding && !isForeignCurrency ? Evolu.sqliteTrue : null,
+        vatRegime: isZeroRated ? vatRegime : null,
         deleted: Evolu.sqliteFalse,
       };
 
@@ -529,6 +563,34 @@ export function InvoiceCreatePage({
           </div>
 
           <div className="space-y-4">
+            <div>
+              <label htmlFor="documentType" className="form-label">
+                {t("invoiceCreate.documentTypeLabel")}
+              </label>
+              <select
+                id="documentType"
+                value={documentType}
+                onChange={(e) => {
+                  setDocumentType(
+                    e.target.value === "proforma" ? "proforma" : "invoice",
+                  );
+                }}
+                className="form-select"
+              >
+                <option value="invoice">
+                  {t("invoiceCreate.documentTypeInvoice")}
+                </option>
+                <option value="proforma">
+                  {t("invoiceCreate.documentTypeProforma")}
+                </option>
+              </select>
+              {documentType === "proforma" ? (
+                <p className="text-xs text-slate-500 mt-2">
+                  {t("invoiceCreate.documentTypeProformaHint")}
+                </p>
+              ) : null}
+            </div>
+
             <div>
               <label htmlFor="invoiceNumber" className="form-label">
                 {t("invoiceCreate.invoiceNumberLabel")}
@@ -536,7 +598,7 @@ export function InvoiceCreatePage({
               <input
                 id="invoiceNumber"
                 type="text"
-                value={invoiceNumber}
+                value={invoiceNumberValue}
                 onChange={(e) => {
                   setInvoiceNumberTouched(true);
                   setInvoiceNumber(e.target.value);
@@ -552,15 +614,15 @@ export function InvoiceCreatePage({
               </label>
               <select
                 id="clientName"
-                value={clientName}
-                onChange={(e) => setClientName(e.target.value)}
+                value={selectedClientId}
+                onChange={(e) => setClientId(e.target.value)}
                 className="form-select"
               >
                 <option value="">{t("invoiceCreate.clientPlaceholder")}</option>
                 {clients.map((client) => (
                   <option
                     key={client.id}
-                    value={client.name ?? ""}
+                    value={client.id}
                     disabled={!client.name}
                   >
                     {client.name ?? t("invoiceCreate.clientUnnamed")}
@@ -666,6 +728,101 @@ export function InvoiceCreatePage({
                 </option>
               </select>
             </div>
+
+            <div>
+              <label htmlFor="documentLanguage" className="form-label">
+                {t("invoiceCreate.documentLanguageLabel")}
+              </label>
+              <select
+                id="documentLanguage"
+                value={documentLanguage}
+                onChange={(e) => setDocumentLanguage(e.target.value)}
+                className="form-select"
+              >
+                <option value="">
+                  {t("invoiceCreate.documentLanguageClient")}
+                </option>
+                {DOCUMENT_LANGUAGES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`documentLanguages.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="currency" className="form-label">
+                  {t("invoiceCreate.currencyLabel")}
+                </label>
+                <select
+                  id="currency"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                  className="form-select"
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {isForeignCurrency ? (
+                <div>
+                  <label htmlFor="exchangeRate" className="form-label">
+                    {t("invoiceCreate.exchangeRateLabel", { currency })}
+                  </label>
+                  <input
+                    id="exchangeRate"
+                    type="number"
+                    min={0}
+                    step="0.001"
+                    value={exchangeRateValue}
+                    onChange={(e) => {
+                      setExchangeRateTouched(true);
+                      setExchangeRate(e.target.value);
+                    }}
+                    className="form-input"
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    {suggestedRate
+                      ? t("invoiceCreate.exchangeRateSource", {
+                          date: new Date(
+                            suggestedRate.rateDate,
+                          ).toLocaleDateString(locale),
+                        })
+                      : t("invoiceCreate.exchangeRateMissing")}
+                  </p>
+                </div>
+              ) : null}
+            </div>
+            {isVatPayer ? (
+              <div>
+                <label htmlFor="vatRegime" className="form-label">
+                  {t("invoiceCreate.vatRegimeLabel")}
+                </label>
+                <select
+                  id="vatRegime"
+                  value={vatRegime}
+                  onChange={(e) =>
+                    setVatRegimeChoice(normalizeVatRegime(e.target.value))
+                  }
+                  className="form-select"
+                >
+                  {VAT_REGIMES.map((regime) => (
+                    <option key={regime} value={regime}>
+                      {t(`vatRegime.${regime}`)}
+                    </option>
+                  ))}
+                </select>
+                {isZeroRated ? (
+                  <p className="text-xs text-slate-500 mt-2">
+                    {t("invoiceCreate.vatRegimeHint")}
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
             <div>
               <label htmlFor="invoicingNote" className="form-label">
                 {t("invoiceCreate.invoicingNoteLabel")}
@@ -809,16 +966,62 @@ export function InvoiceCreatePage({
                             type="number"
                             min={0}
                             step="0.1"
-                            value={item.vat}
+                            value={isZeroRated ? "0" : item.vat}
                             onChange={(e) =>
                               updateItem(index, "vat", e.target.value)
                             }
+                            disabled={isZeroRated}
                             className="form-input"
                           />
                         </div>
                       ) : null}
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label
+                          htmlFor={`item-${index}-discount`}
+                          className="form-label"
+                        >
+                          {t("invoiceCreate.itemDiscount")}
+                        </label>
+                        <input
+                          id={`item-${index}-discount`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.discount}
+                          onChange={(e) =>
+                            updateItem(index, "discount", e.target.value)
+                          }
+                          className="form-input"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor={`item-${index}-discountType`}
+                          className="form-label"
+                        >
+                          {t("invoiceCreate.itemDiscountType")}
+                        </label>
+                        <select
+                          id={`item-${index}-discountType`}
+                          value={item.discountType}
+                          onChange={(e) =>
+                            updateItem(
+                              index,
+                              "discountType",
+                              normalizeDiscountType(e.target.value),
+                            )
+                          }
+                          className="form-select"
+                        >
+                          <option value="percent">%</option>
+                          <option value="amount">{currency}</option>
+                        </select>
+                      </div>
+                    </div>
+
                     <div className="flex justify-end">
                       <button
                         type="button"
@@ -834,21 +1037,78 @@ export function InvoiceCreatePage({
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="invoiceDiscount" className="form-label">
+                  {t("invoiceCreate.invoiceDiscountLabel")}
+                </label>
+                <input
+                  id="invoiceDiscount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                  className="form-input"
+                />
+              </div>
+              <div>
+                <label htmlFor="invoiceDiscountType" className="form-label">
+                  {t("invoiceCreate.itemDiscountType")}
+                </label>
+                <select
+                  id="invoiceDiscountType"
+                  value={discountType}
+                  onChange={(e) =>
+                    setDiscountType(normalizeDiscountType(e.target.value))
+                  }
+                  className="form-select"
+                >
+                  <option value="percent">%</option>
+                  <option value="amount">{currency}</option>
+                </select>
+              </div>
+            </div>
+
+            {!isForeignCurrency ? (
+              <div className="flex items-center gap-3">
+                <input
+                  id="cashRounding"
+                  type="checkbox"
+                  checked={cashRounding}
+                  onChange={(e) => setCashRounding(e.target.checked)}
+                  className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                />
+                <label htmlFor="cashRounding" className="text-sm font-semibold">
+                  {t("invoiceCreate.cashRoundingLabel")}
+                </label>
+              </div>
+            ) : null}
+
             <div className="panel-card text-sm invoice-total-text">
               <span className="font-semibold invoice-total-label">
                 {t("invoiceCreate.totalLabel")}
               </span>{" "}
-              {formatUiTotal(invoiceTotal, locale)}
+              {formatUiTotal(invoiceTotals.total, currency, locale)}
             </div>
           </div>
 
-          <button
-            onClick={handleSave}
-            disabled={isSaving}
-            className="btn-primary mt-6 w-full"
-          >
-            {isSaving ? t("invoiceCreate.saving") : t("invoiceCreate.save")}
-          </button>
+          <div className="mt-6 flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={() => handleSave(false)}
+              disabled={isSaving}
+              className="btn-primary w-full"
+            >
+              {isSaving ? t("invoiceCreate.saving") : t("invoiceCreate.save")}
+            </button>
+            <button
+              onClick={() => handleSave(true)}
+              disabled={isSaving}
+              className="btn-secondary w-full"
+            >
+              {t("invoiceCreate.saveDraft")}
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -1,31 +1,84 @@
 import { use, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
-import {
-  Document,
-  Font,
-  Image,
-  Page,
-  PDFDownloadLink,
-  StyleSheet,
-  Text,
-  View,
-} from "@react-pdf/renderer";
+import { PDFDownloadLink, pdf } from "@react-pdf/renderer";
 import TrezorConnect from "@trezor/connect-web";
 import QRCode from "qrcode";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  findRateForDate,
+  formatMoney,
+  normalizeCurrency,
+} from "../currency";
+import { downloadFile } from "../download";
+import { buildEml } from "../eml";
 import { useEvolu } from "../evolu";
-import { useI18n } from "../i18n";
-type InvoiceItemForm = {
-  amount: string;
-  unit: string;
-  description: string;
-  unitPrice: string;
-  vat: string;
-};
-
+import {
+  DOCUMENT_LANGUAGES,
+  createDocumentI18n,
+  createI18n,
+  formatTemplate,
+  normalizeDocumentLanguage,
+  resolveDocumentLanguage,
+  useI18n,
+} from "../i18n";
+import {
+  appendAuditNote,
+  applyVatRegime,
+  computeInvoiceTotals,
+  createClientSnapshot,
+  documentTypeValue,
+  findInvoiceClient,
+  getInvoiceDocumentType,
+  getInvoiceDueDate,
+  getAdvanceDeductionItems,
+  getAuditNoteEntries,
+  getInvoiceTotal,
+  isCreditNote,
+  isDraftInvoice,
+  isProforma,
+  isZeroRatedVatRegime,
+  negateInvoiceItems,
+  normalizeDiscountType,
+  normalizeInvoiceItems,
+  normalizeVatRegime,
+  parseInvoiceItems,
+  resolveInvoiceCustomer,
+  VAT_REGIMES,
+  type DiscountType,
+  type InvoiceItemForm,
+  type VatRegime,
+} from "../invoices";
+import { buildIsdocXml, buildIsdocx, type IsdocInput } from "../isdoc";
+import {
+  getNextSeriesNumber,
+  getVariableSymbol,
+  hasDuplicateDocumentNumber,
+} from "../numbering";
+import { buildSpdPayload } from "../paymentQr";
+import { getPdfTemplate } from "../pdfTemplate";
+import {
+  PAYMENT_METHODS,
+  clearInvoicePayments,
+  deleteInvoicePayment,
+  getPaidAmounts,
+  getRemainingAmount,
+  normalizePaymentMethod,
+  recordInvoicePayment,
+  settleInvoicePayment,
+  type PaymentMethod,
+} from "../payments";
+import {
+  RECURRING_CADENCES,
+  addCadence,
+  type RecurringCadence,
+} from "../recurring";
+import { InvoiceDocument } from "./InvoiceDocument";
 type InvoiceNumberRow = {
   id: string;
   invoiceNumber: string | null;
+  documentType: string | null;
 };
 
 type ClientRow = {
@@ -37,12 +90,16 @@ type ClientRow = {
   addressLine2?: string | null;
   companyIdentificationNumber?: string | null;
   vatNumber?: string | null;
+  documentLanguage?: string | null;
 };
 
 type UserProfileRow = {
   id: string;
   name: string | null;
   invoiceNamingFormat?: string | null;
+  invoiceNumberTemplate?: string | null;
+  creditNoteNumberTemplate?: string | null;
+  proformaNumberTemplate?: string | null;
   email?: string | null;
   phone?: string | null;
   addressLine1?: string | null;
@@ -56,6 +113,13 @@ type UserProfileRow = {
   invoiceFooterText?: string | null;
   poRequired?: number | null;
   mempoolUrl?: string | null;
+  emailSubjectTemplate?: string | null;
+  emailBodyTemplate?: string | null;
+  pdfLayout?: string | null;
+  pdfAccentColor?: string | null;
+  pdfLogo?: string | null;
+  pdfSignature?: string | null;
+  pdfHiddenBlocks?: string | null;
 };
 
 type InvoiceDetailPageProps = {
@@ -63,6 +127,7 @@ type InvoiceDetailPageProps = {
   onBack: () => void;
   onInvoiceDeleted: () => void;
   onInvoiceDuplicated: () => void;
+  onOpenInvoice: (invoiceId: string) => void;
 };
 
 const InvoiceId = Evolu.id("Invoice");
@@ -73,6 +138,8 @@ const emptyItem = (): InvoiceItemForm => ({
   description: "",
   unitPrice: "",
   vat: "",
+  discount: "",
+  discountType: "percent",
 });
 
 const parseItems = (raw: unknown): InvoiceItemForm[] => {
@@ -96,6 +163,8 @@ const parseItems = (raw: unknown): InvoiceItemForm[] => {
     description: item?.description ?? "",
     unitPrice: item?.unitPrice != null ? String(item.unitPrice) : "",
     vat: item?.vat != null ? String(item.vat) : "",
+    discount: item?.discount ? String(item.discount) : "",
+    discountType: normalizeDiscountType(item?.discountType),
   }));
 };
 
@@ -104,191 +173,14 @@ const toDateInputValue = (value?: string | null) => {
   return value.includes("T") ? value.slice(0, 10) : value;
 };
 
-Font.register({
-  family: "NotoSans",
-  src: "https://fonts.gstatic.com/s/notosans/v42/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyD9A99d.ttf",
-  fontWeight: 400,
-});
-
-Font.register({
-  family: "NotoSans",
-  src: "https://fonts.gstatic.com/s/notosans/v42/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyAaBN9d.ttf",
-  fontWeight: 700,
-});
-
-const pdfStyles = StyleSheet.create({
-  page: {
-    padding: 40,
-    fontSize: 10,
-    fontFamily: "NotoSans",
-    color: "#111827",
-  },
-  headerRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "flex-end",
-    marginBottom: 16,
-  },
-  headerTitle: {
-    fontSize: 20,
-    fontWeight: 700,
-  },
-  headerLine: {
-    height: 2,
-    backgroundColor: "#6b7280",
-    marginBottom: 18,
-  },
-  columns: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    gap: 24,
-  },
-  column: {
-    flexGrow: 1,
-    flexBasis: 0,
-  },
-  label: {
-    fontSize: 9,
-    color: "#6b7280",
-    marginBottom: 4,
-    textTransform: "uppercase",
-  },
-  sectionTitle: {
-    fontSize: 10,
-    fontWeight: 600,
-    marginBottom: 8,
-  },
-  textBold: {
-    fontWeight: 700,
-  },
-  textMuted: {
-    color: "#6b7280",
-  },
-  detailRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    marginBottom: 4,
-  },
-  tableHeader: {
-    flexDirection: "row",
-    borderBottomWidth: 1,
-    borderBottomColor: "#d1d5db",
-    paddingBottom: 6,
-    marginTop: 16,
-  },
-  tableRow: {
-    flexDirection: "row",
-    paddingVertical: 6,
-    borderBottomWidth: 0.5,
-    borderBottomColor: "#e5e7eb",
-  },
-  colQty: { width: "8%" },
-  colUnit: { width: "6%" },
-  colDesc: { width: "62%" },
-  colUnitPrice: { width: "12%", textAlign: "right" },
-  colTotal: { width: "12%", textAlign: "right" },
-  colDescVat: { width: "60%" },
-  // Adjusted widths for VAT payer columns ("Cena za MJ", "Cena bez DPH", "DPH (%)", "Cena s DPH")
-  colUnitPriceVat: { width: "12%", textAlign: "right" },
-  colTotalNoVat: { width: "12%", textAlign: "right" },
-  colVatPercent: { width: "6%", textAlign: "right" },
-  // colVatAmount is hidden for VAT payer
-  colTotalVat: { width: "10%", textAlign: "right" },
-  totalRow: {
-    flexDirection: "row",
-    justifyContent: "flex-end",
-    alignItems: "baseline",
-    marginTop: 8,
-  },
-  totalLabel: {
-    fontSize: 12,
-    fontWeight: 700,
-  },
-  totalValue: {
-    fontSize: 14,
-    fontWeight: 700,
-    marginLeft: 12,
-  },
-  summaryRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "flex-start",
-    marginTop: 18,
-  },
-  qrBlock: {
-    width: 120,
-    alignItems: "flex-start",
-  },
-  qrImage: {
-    width: 110,
-    height: 110,
-    borderWidth: 1,
-    borderColor: "#d1d5db",
-    padding: 6,
-  },
-  qrLabel: {
-    marginTop: 6,
-    fontSize: 9,
-    color: "#6b7280",
-  },
-  totalBlock: {
-    width: "50%",
-    alignItems: "flex-end",
-  },
-  btcNote: {
-    marginTop: 10,
-    alignItems: "flex-end",
-    width: "100%",
-  },
-  btcNoteText: {
-    fontSize: 11,
-    color: "#6b7280",
-    textAlign: "right",
-    width: "100%",
-  },
-  btcNoteAddress: {
-    fontSize: 11,
-    color: "#6b7280",
-    textAlign: "right",
-    width: "100%",
-    wordBreak: "break-all",
-  },
-  footerLine: {
-    height: 2,
-    backgroundColor: "#6b7280",
-    width: "100%",
-  },
-  footer: {
-    position: "absolute",
-    left: 40,
-    right: 40,
-    bottom: 32,
-    flexDirection: "row",
-    justifyContent: "space-between",
-    color: "#6b7280",
-  },
-  footerLeft: {
-    width: "50%",
-    paddingRight: 8,
-  },
-  invoicingNote: {
-    marginTop: 12,
-    marginBottom: 8,
-    width: "100%",
-  },
-  footerRight: {
-    width: "50%",
-    textAlign: "right",
-  },
-});
-
 export function InvoiceDetailPage({
   invoiceId,
   onBack,
   onInvoiceDeleted,
   onInvoiceDuplicated,
+  onOpenInvoice,
 }: InvoiceDetailPageProps) {
-  const { t, locale } = useI18n();
+  const { t, locale, language } = useI18n();
   const evolu = useEvolu();
   const owner = use(evolu.appOwner);
   const invoiceIdValue = useMemo(() => {
@@ -299,7 +191,7 @@ export function InvoiceDetailPage({
   }, [invoiceId]);
 
   const [invoiceNumber, setInvoiceNumber] = useState("");
-  const [clientName, setClientName] = useState("");
+  const [clientId, setClientId] = useState("");
   const [issueDate, setIssueDate] = useState("");
   const [duzp, setDuzp] = useState("");
   const [paymentDate, setPaymentDate] = useState("");
@@ -307,14 +199,40 @@ export function InvoiceDetailPage({
   const [paymentMethod, setPaymentMethod] = useState("bank");
   const [purchaseOrderNumber, setPurchaseOrderNumber] = useState("");
   const [invoicingNote, setInvoicingNote] = useState("");
+  // Empty follows the client's document language.
+  const [documentLanguage, setDocumentLanguage] = useState("");
+  const [correctionReason, setCorrectionReason] = useState("");
   const [btcInvoice, setBtcInvoice] = useState(false);
   const [btcAddress, setBtcAddress] = useState("");
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [exchangeRateTouched, setExchangeRateTouched] = useState(false);
   const [isTrezorLoading, setIsTrezorLoading] = useState(false);
   const [items, setItems] = useState<InvoiceItemForm[]>([emptyItem()]);
+  const [discount, setDiscount] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [cashRounding, setCashRounding] = useState(false);
+  const [vatRegime, setVatRegime] = useState<VatRegime>("domestic");
   const [isEditing, setIsEditing] = useState(false);
+  const [unlockedInvoiceId, setUnlockedInvoiceId] = useState<string | null>(
+    null,
+  );
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isDuplicating, setIsDuplicating] = useState(false);
+  const [isExportingIsdocx, setIsExportingIsdocx] = useState(false);
+  const [isPreparingEmail, setIsPreparingEmail] = useState(false);
+  const [isCreatingCreditNote, setIsCreatingCreditNote] = useState(false);
+  const [isCreatingFinalInvoice, setIsCreatingFinalInvoice] = useState(false);
+  const [isRecurringFormOpen, setIsRecurringFormOpen] = useState(false);
+  const [recurringCadence, setRecurringCadence] =
+    useState<RecurringCadence>("monthly");
+  const [recurringStartDate, setRecurringStartDate] = useState("");
+  const [newPaymentDate, setNewPaymentDate] = useState("");
+  const [newPaymentAmount, setNewPaymentAmount] = useState("");
+  const [newPaymentMethod, setNewPaymentMethod] =
+    useState<PaymentMethod | null>(null);
+  const [newPaymentNote, setNewPaymentNote] = useState("");
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string | null>(null);
   const trezorInitializedRef = useRef(false);
@@ -376,6 +294,105 @@ export function InvoiceDetailPage({
 
   const invoiceRows = useQuery(invoiceQuery);
   const invoice = invoiceRows[0] ?? null;
+  const invoiceCurrency = normalizeCurrency(invoice?.currency);
+  const invoiceIsCreditNote = invoice ? isCreditNote(invoice) : false;
+  const invoiceIsProforma = invoice ? isProforma(invoice) : false;
+  const invoiceIsDraft = invoice ? isDraftInvoice(invoice) : false;
+  // Issued invoices only accept payment changes unless force-unlocked, which
+  // lasts until the next save or cancel.
+  const isUnlocked = Boolean(invoice) && unlockedInvoiceId === invoice?.id;
+  const isLocked = !invoiceIsDraft && !isUnlocked;
+  const canEditContent = isEditing && !isLocked;
+  const paymentsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("payment")
+          .select([
+            "id",
+            "invoiceId",
+            "paymentDate",
+            "amount",
+            "method",
+            "note",
+          ])
+          .where("invoiceId", "=", invoiceIdValue)
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue)
+          .orderBy("paymentDate", "asc"),
+      ),
+    [evolu, invoiceIdValue, owner.id],
+  );
+
+  const invoicePayments = useQuery(paymentsQuery);
+
+  // Issued credit notes correcting this invoice; they reduce what is owed.
+  const creditNotesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "currency",
+            "vatRegime",
+          ])
+          .where("correctedInvoiceId", "=", invoiceIdValue)
+          .where("draft", "is not", Evolu.sqliteTrue)
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, invoiceIdValue, owner.id],
+  );
+
+  const creditNotes = useQuery(creditNotesQuery);
+  // Payments are money received, so VAT payers are paid the gross amount.
+  const invoiceCredited = Math.max(
+    0,
+    -creditNotes.reduce(
+      (sum, note) => sum + getInvoiceTotal(note, { withVat: showVat }),
+      0,
+    ),
+  );
+  const invoicePayable = invoice
+    ? getInvoiceTotal(invoice, { withVat: showVat }) - invoiceCredited
+    : 0;
+  const invoicePaid = getPaidAmounts(invoicePayments).get(invoiceIdValue) ?? 0;
+  const invoiceRemaining = getRemainingAmount(invoicePayable, invoicePaid);
+  const canRecordPayments =
+    Boolean(invoice) && !invoiceIsDraft && !invoiceIsCreditNote;
+  // The form defaults to the rest of the amount, paid today by the invoice's
+  // payment method.
+  const newPaymentDateValue =
+    newPaymentDate || new Date().toISOString().slice(0, 10);
+  const newPaymentAmountValue =
+    newPaymentAmount || (invoiceRemaining > 0 ? String(invoiceRemaining) : "");
+  const newPaymentMethodValue =
+    newPaymentMethod ?? normalizePaymentMethod(invoice?.paymentMethod);
+  // The first generated draft defaults to one cadence after this invoice.
+  const recurringStartValue =
+    recurringStartDate ||
+    (invoice?.issueDate ? addCadence(invoice.issueDate, recurringCadence) : "");
+
+  const ratesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("currencyRate")
+          .select(["rateDate", "currency", "rate"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const rates = useQuery(ratesQuery);
   const invoiceNumberValue = invoice?.invoiceNumber ?? "";
   const invoiceNumberForFileName =
     invoiceNumberValue || invoice?.id || "invoice";
@@ -390,10 +407,16 @@ export function InvoiceDetailPage({
   const pdfFileName =
     invoiceNamingFormat === "name-year-invoice_number" && sanitizedProfileName
       ? `${sanitizedProfileName}-${invoiceNumberForFileName}.pdf`
-      : t("invoiceDetail.pdfFileName", {
-          number: invoiceNumberForFileName,
-        });
+      : t(
+          invoiceIsCreditNote
+            ? "invoiceDetail.creditNotePdfFileName"
+            : invoiceIsProforma
+              ? "invoiceDetail.proformaPdfFileName"
+              : "invoiceDetail.pdfFileName",
+          { number: invoiceNumberForFileName },
+        );
   const sanitizedInvoiceNumber = invoiceNumberValue.replace(/-/g, "");
+  const variableSymbol = getVariableSymbol(invoiceNumberValue);
 
   const trimmedInvoiceNumber = invoiceNumber.trim();
   const duplicateInvoiceQuery = useMemo(
@@ -401,7 +424,7 @@ export function InvoiceDetailPage({
       evolu.createQuery((db) =>
         db
           .selectFrom("invoice")
-          .select(["id", "invoiceNumber"])
+          .select(["id", "invoiceNumber", "documentType"])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
           .where("deleted", "is not", Evolu.sqliteTrue),
@@ -412,72 +435,39 @@ export function InvoiceDetailPage({
   const duplicateInvoices = useQuery(
     duplicateInvoiceQuery,
   ) as readonly InvoiceNumberRow[];
-  const hasDuplicateInvoiceNumber = Boolean(
-    trimmedInvoiceNumber &&
-    duplicateInvoices.some(
-      (row) =>
-        row.id !== invoice?.id && row.invoiceNumber === trimmedInvoiceNumber,
-    ),
-  );
-
-  const selectedClient =
-    clients.find(
-      (client) =>
-        client.name && client.name === (invoice?.clientName ?? clientName),
-    ) ?? null;
-  const displayClientName =
-    (selectedClient?.name ?? invoice?.clientName ?? clientName) ||
-    t("common.placeholderDash");
-
-  const latestInvoiceQuery = useMemo(
+  const hasDuplicateInvoiceNumber =
+    invoice && !isDraftInvoice(invoice)
+      ? hasDuplicateDocumentNumber(
+          trimmedInvoiceNumber,
+          getInvoiceDocumentType(invoice),
+          duplicateInvoices,
+          invoice.id,
+        )
+      : false;
+
+  const selectedClient = invoice ? findInvoiceClient(invoice, clients) : null;
+  const customer = invoice
+    ? resolveInvoiceCustomer(invoice, selectedClient)
+    : null;
+
+  // Final invoices that already settle this proforma.
+  const finalInvoicesQuery = useMemo(
     () =>
       evolu.createQuery((db) =>
         db
           .selectFrom("invoice")
-          .select(["invoiceNumber"])
+          .select(["id", "invoiceNumber"])
+          .where("advanceInvoiceId", "=", invoiceIdValue)
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
-          .where("deleted", "is not", Evolu.sqliteTrue)
-          .orderBy("invoiceNumber", "desc")
-          .limit(1),
+          .where("deleted", "is not", Evolu.sqliteTrue),
       ),
-    [evolu, owner.id],
+    [evolu, invoiceIdValue, owner.id],
   );
 
-  const latestInvoiceRows = useQuery(latestInvoiceQuery);
-  const latestInvoiceNumber = latestInvoiceRows[0]?.invoiceNumber ?? "";
-
-  const getNextInvoiceNumber = (latest: string) => {
-    if (!latest) {
-      const year = new Date().getFullYear();
-      return `${year}-0001`;
-    }
-
-    const parts = latest.split("-");
-    const lastPart = parts[parts.length - 1];
-    const parsed = Number.parseInt(lastPart, 10);
-    if (!Number.isNaN(parsed)) {
-      const prefix = parts.slice(0, -1).join("-");
-      const padded = String(parsed + 1).padStart(lastPart.length, "0");
-      return prefix ? `${prefix}-${padded}` : padded;
-    }
-
-    return `${latest}-1`;
-  };
+  const finalInvoices = useQuery(finalInvoicesQuery);
 
-  const normalizedItems = items
-    .map((item) => ({
-      amount: Number.isFinite(Number(item.amount)) ? Number(item.amount) : 0,
-      unit: item.unit.trim(),
-      description: item.description.trim(),
-      unitPrice: Number.isFinite(Number(item.unitPrice))
-        ? Number(item.unitPrice)
-        : 0,
-      vat: Number.isFinite(Number(item.vat)) ? Number(item.vat) : 0,
-    }))
-    .filter(
-      (item) => item.description || item.unit || item.amount || item.unitPrice,
-    );
+  const normalizedItems = normalizeInvoiceItems(items);
 
   const formatNumber = (value: number, maxFraction = 2) =>
     new Intl.NumberFormat(locale, {
@@ -486,61 +476,37 @@ export function InvoiceDetailPage({
     }).format(value);
 
   const formatCurrency = (value: number) =>
-    new Intl.NumberFormat(locale, {
-      style: "currency",
-      currency: "CZK",
-      minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
-      maximumFractionDigits: Number.isInteger(value) ? 0 : 2,
-    }).format(value);
+    formatMoney(value, invoiceCurrency, locale, {
+      min: Number.isInteger(value) ? 0 : 2,
+      max: Number.isInteger(value) ? 0 : 2,
+    });
 
-  const invoiceTotal = normalizedItems.reduce(
-    (sum, item) =>
-      sum + (Number(item.amount) || 0) * (Number(item.unitPrice) || 0),
-    0,
+  const formatDiscount = (value: number, type?: DiscountType) =>
+    type === "amount" ? formatCurrency(value) : `${formatNumber(value, 2)} %`;
+
+  const discountValue = Number(discount);
+  const invoiceDiscount =
+    Number.isFinite(discountValue) && discountValue > 0 ? discountValue : null;
+  const totals = computeInvoiceTotals(
+    normalizedItems,
+    {
+      discount: invoiceDiscount,
+      discountType,
+      cashRounding: cashRounding ? Evolu.sqliteTrue : null,
+      currency,
+      vatRegime,
+    },
+    { withVat: showVat },
   );
+  // What the customer pays: the PDF total and the QR amount.
+  const amountDue = totals.total;
 
-  const invoiceTotalWithVat = normalizedItems.reduce((sum, item) => {
-    const amount = Number(item.amount) || 0;
-    const unitPrice = Number(item.unitPrice) || 0;
-    const vatPercent = Number(item.vat) || 0;
-    const lineTotal = amount * unitPrice;
-    const vatAmount = lineTotal * (vatPercent / 100);
-    return sum + lineTotal + vatAmount;
-  }, 0);
-
-  // Calculate total VAT amount for all items
-  const totalVatAmount = normalizedItems.reduce((sum, item) => {
-    const amount = Number(item.amount) || 0;
-    const unitPrice = Number(item.unitPrice) || 0;
-    const vatPercent = Number(item.vat) || 0;
-    const lineTotal = amount * unitPrice;
-    const vatAmount = lineTotal * (vatPercent / 100);
-    return sum + vatAmount;
-  }, 0);
-
-  const formatUiTotal = (value: number) =>
-    new Intl.NumberFormat(locale, {
-      style: "currency",
-      currency: "CZK",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
+  const formatUiTotal = (value: number) => formatMoney(value, currency, locale);
 
-  const invoiceIssueDate = invoice?.issueDate
-    ? new Date(invoice.issueDate).toLocaleDateString(locale).replace(/\s/g, "")
-    : "";
-  const invoiceDuzpDate = invoice?.duzp
-    ? new Date(invoice.duzp).toLocaleDateString(locale).replace(/\s/g, "")
-    : "";
-  const invoiceDueDate = (() => {
-    if (!invoice?.issueDate) return "";
-    const issue = new Date(invoice.issueDate);
-    const paymentDaysValue = invoice.paymentDays ?? 0;
-    if (Number.isNaN(paymentDaysValue)) return "";
-    const due = new Date(issue);
-    due.setDate(issue.getDate() + paymentDaysValue);
-    return due.toLocaleDateString(locale).replace(/\s/g, "");
-  })();
+  const invoiceExchangeRate =
+    invoiceCurrency !== DEFAULT_CURRENCY
+      ? (invoice?.exchangeRate ?? null)
+      : null;
 
   const invoiceDueDateQr = (() => {
     if (!invoice?.issueDate) return "";
@@ -600,39 +566,21 @@ export function InvoiceDetailPage({
         return;
       }
 
-      const ibanCandidate = (profile.iban ?? "").replace(/\s/g, "");
-      if (!ibanCandidate) {
-        setQrCodeDataUrl(null);
-        return;
-      }
-
-      const totalForQr = showVat ? invoiceTotalWithVat : invoiceTotal;
-      const amount = Number.isFinite(totalForQr) ? totalForQr : 0;
-      if (!amount || amount <= 0) {
+      const payload = buildSpdPayload({
+        iban: profile.iban,
+        swift: profile.swift,
+        amount: Number.isFinite(amountDue) ? amountDue : 0,
+        currency: invoiceCurrency,
+        variableSymbol,
+        dueDate: invoiceDueDateQr,
+      });
+      if (!payload) {
         setQrCodeDataUrl(null);
         return;
       }
 
-      const variableSymbol = sanitizedInvoiceNumber;
-      const formattedAmount = Number.isInteger(amount)
-        ? String(amount)
-        : amount.toFixed(2);
-      const accountValue = profile?.swift
-        ? `${ibanCandidate}+${profile.swift}`
-        : ibanCandidate;
-      const parts = [
-        "SPD*1.0",
-        `ACC:${accountValue}`,
-        "PT:IP",
-        `AM:${formattedAmount}`,
-        variableSymbol ? `X-VS:${variableSymbol}` : "",
-        invoiceDueDateQr ? `DT:${invoiceDueDateQr}` : "",
-        "MSG:QRPLATBA",
-        "",
-      ].filter((value) => value !== undefined);
-
       try {
-        const dataUrl = await QRCode.toDataURL(parts.join("*"), {
+        const dataUrl = await QRCode.toDataURL(payload, {
           margin: 0,
           width: 256,
         });
@@ -649,327 +597,64 @@ export function InvoiceDetailPage({
     invoice?.btcInvoice,
     invoice?.btcAddress,
     invoice?.paymentMethod,
-    invoiceTotal,
-    invoiceTotalWithVat,
+    amountDue,
+    invoiceCurrency,
     invoiceDueDateQr,
     profile?.iban,
     profile?.bankAccount,
     profile?.swift,
     showVat,
     sanitizedInvoiceNumber,
+    variableSymbol,
   ]);
 
+  // The PDF (and the email carrying it) speaks the client's language.
+  const documentI18n = createDocumentI18n(
+    resolveDocumentLanguage(
+      documentLanguage,
+      selectedClient?.documentLanguage,
+      language,
+    ),
+  );
+  const documentTitle = documentI18n.t(
+    invoiceIsProforma
+      ? "pdf.proformaTitle"
+      : !invoiceIsCreditNote
+        ? "pdf.invoiceTitle"
+        : showVat
+          ? "pdf.creditNoteTitle"
+          : "pdf.creditNoteTitleNonVat",
+    {
+      number: invoiceNumberValue || documentI18n.t("common.placeholderDash"),
+    },
+  );
+
   const pdfDocument = invoice ? (
-    <Document>
-      <Page size="A4" style={pdfStyles.page}>
-        <View style={pdfStyles.headerRow}>
-          <Text />
-          <Text style={pdfStyles.headerTitle}>
-            {t("pdf.invoiceTitle", {
-              number: invoiceNumberValue || t("common.placeholderDash"),
-            })}
-          </Text>
-        </View>
-        <View style={pdfStyles.headerLine} />
-
-        <View style={pdfStyles.columns}>
-          <View style={pdfStyles.column}>
-            <Text style={pdfStyles.label}>{t("pdf.supplier")}</Text>
-            <Text style={pdfStyles.textBold}>{profile?.name ?? ""}</Text>
-            <Text style={pdfStyles.textMuted}>
-              {profile?.addressLine1 ?? ""}
-            </Text>
-            <Text style={pdfStyles.textMuted}>
-              {profile?.addressLine2 ?? ""}
-            </Text>
-            <View style={{ marginTop: 6 }}>
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>{t("pdf.companyId")}</Text>
-                <Text>{profile?.companyIdentificationNumber ?? ""}</Text>
-              </View>
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>
-                  {profile?.vatNumber
-                    ? t("pdf.vatIdOrNonVat")
-                    : t("pdf.nonVatPayer")}
-                </Text>
-                <Text>{profile?.vatNumber ?? ""}</Text>
-              </View>
-            </View>
-          </View>
-
-          <View style={pdfStyles.column}>
-            <Text style={pdfStyles.label}>{t("pdf.customer")}</Text>
-            <Text style={pdfStyles.textBold}>{displayClientName}</Text>
-            <Text style={pdfStyles.textMuted}>
-              {selectedClient?.addressLine1 ?? ""}
-            </Text>
-            <Text style={pdfStyles.textMuted}>
-              {selectedClient?.addressLine2 ?? ""}
-            </Text>
-            <View style={{ marginTop: 6 }}>
-              {selectedClient?.companyIdentificationNumber ? (
-                <View style={pdfStyles.detailRow}>
-                  <Text style={pdfStyles.textMuted}>{t("pdf.companyId")}</Text>
-                  <Text>{selectedClient.companyIdentificationNumber}</Text>
-                </View>
-              ) : null}
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>
-                  {selectedClient?.vatNumber
-                    ? t("pdf.vatIdOrNonVat")
-                    : t("pdf.nonVatPayer")}
-                </Text>
-                <Text>{selectedClient?.vatNumber ?? ""}</Text>
-              </View>
-            </View>
-          </View>
-        </View>
-
-        <View style={{ marginTop: 18 }}>
-          <View style={pdfStyles.columns}>
-            <View style={pdfStyles.column}>
-              {invoice?.paymentMethod !== "cash" ? (
-                <>
-                  <View style={pdfStyles.detailRow}>
-                    <Text style={pdfStyles.textMuted}>
-                      {t("pdf.bankAccount")}
-                    </Text>
-                    <Text>{profile?.bankAccount ?? ""}</Text>
-                  </View>
-                  <View style={pdfStyles.detailRow}>
-                    <Text style={pdfStyles.textMuted}>
-                      {t("pdf.variableSymbol")}
-                    </Text>
-                    <Text>{sanitizedInvoiceNumber}</Text>
-                  </View>
-                </>
-              ) : null}
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>
-                  {t("pdf.paymentMethod")}
-                </Text>
-                <Text>
-                  {invoice?.paymentMethod === "cash"
-                    ? t("pdf.paymentCash")
-                    : t("pdf.paymentBank")}
-                </Text>
-              </View>
-            </View>
-            <View style={pdfStyles.column}>
-              {invoice?.purchaseOrderNumber?.trim() ? (
-                <View style={pdfStyles.detailRow}>
-                  <Text style={pdfStyles.textMuted}>
-                    {t("pdf.purchaseOrderNumber")}
-                  </Text>
-                  <Text>{invoice.purchaseOrderNumber}</Text>
-                </View>
-              ) : null}
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>{t("pdf.issueDate")}</Text>
-                <Text>{invoiceIssueDate}</Text>
-              </View>
-              <View style={pdfStyles.detailRow}>
-                <Text style={pdfStyles.textMuted}>{t("pdf.dueDate")}</Text>
-                <Text>{invoiceDueDate}</Text>
-              </View>
-              {invoiceDuzpDate ? (
-                <View style={pdfStyles.detailRow}>
-                  <Text style={pdfStyles.textMuted}>{t("pdf.duzpDate")}</Text>
-                  <Text>{invoiceDuzpDate}</Text>
-                </View>
-              ) : null}
-            </View>
-          </View>
-        </View>
-
-        {invoice.invoicingNote && invoice.invoicingNote.trim() ? (
-          <View style={pdfStyles.invoicingNote}>
-            <Text>{invoice.invoicingNote}</Text>
-          </View>
-        ) : null}
-
-        <View style={pdfStyles.tableHeader}>
-          <Text style={[pdfStyles.colQty, pdfStyles.textMuted]}>
-            {t("pdf.tableQty")}
-          </Text>
-          <Text style={[pdfStyles.colUnit, pdfStyles.textMuted]}>
-            {t("pdf.tableUnit")}
-          </Text>
-          <Text
-            style={[
-              showVat ? pdfStyles.colDescVat : pdfStyles.colDesc,
-              pdfStyles.textMuted,
-            ]}
-          >
-            {t("pdf.tableDescription")}
-          </Text>
-          <Text
-            style={[
-              showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice,
-              pdfStyles.textMuted,
-            ]}
-          >
-            {t("pdf.tableUnitPrice")}
-          </Text>
-          {showVat ? (
-            <>
-              <Text style={[pdfStyles.colTotalNoVat, pdfStyles.textMuted]}>
-                {t("pdf.tableTotalNoVat")}
-              </Text>
-              <Text style={[pdfStyles.colVatPercent, pdfStyles.textMuted]}>
-                {t("pdf.tableVat")}
-              </Text>
-              {/* DPH column hidden for VAT payer */}
-              <Text style={[pdfStyles.colTotalVat, pdfStyles.textMuted]}>
-                {t("pdf.tableTotalVat")}
-              </Text>
-            </>
-          ) : (
-            <Text style={[pdfStyles.colTotal, pdfStyles.textMuted]}>
-              {t("pdf.tableTotal")}
-            </Text>
-          )}
-        </View>
-
-        {normalizedItems.map((item, index) => {
-          const amount = Number(item.amount) || 0;
-          const unitPrice = Number(item.unitPrice) || 0;
-          const vatPercent = Number(item.vat) || 0;
-          const lineTotal = amount * unitPrice;
-          const vatAmount = lineTotal * (vatPercent / 100);
-          const lineTotalWithVat = lineTotal + vatAmount;
-
-          return (
-            <View
-              style={pdfStyles.tableRow}
-              key={`${item.description}-${index}`}
-            >
-              <Text style={pdfStyles.colQty}>
-                {item.amount ? formatNumber(Number(item.amount)) : ""}
-              </Text>
-              <Text style={pdfStyles.colUnit}>{item.unit}</Text>
-              <Text style={showVat ? pdfStyles.colDescVat : pdfStyles.colDesc}>
-                {item.description}
-              </Text>
-              <Text
-                style={
-                  showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice
-                }
-              >
-                {formatCurrency(unitPrice)}
-              </Text>
-              {showVat ? (
-                <>
-                  <Text style={pdfStyles.colTotalNoVat}>
-                    {formatCurrency(lineTotal)}
-                  </Text>
-                  <Text style={pdfStyles.colVatPercent}>
-                    {vatPercent ? formatNumber(vatPercent, 2) : ""}
-                  </Text>
-                  {/* DPH column hidden for VAT payer */}
-                  <Text style={pdfStyles.colTotalVat}>
-                    {formatCurrency(lineTotalWithVat)}
-                  </Text>
-                </>
-              ) : (
-                <Text style={pdfStyles.colTotal}>
-                  {formatCurrency(lineTotal)}
-                </Text>
-              )}
-            </View>
-          );
-        })}
-
-        <View style={pdfStyles.summaryRow}>
-          {qrCodeDataUrl ? (
-            <View style={pdfStyles.qrBlock}>
-              <Image style={pdfStyles.qrImage} src={qrCodeDataUrl} />
-              <Text style={pdfStyles.qrLabel}>
-                {invoice.btcInvoice === Evolu.sqliteTrue
-                  ? t("pdf.qrPaymentBtc")
-                  : t("pdf.qrPayment")}
-              </Text>
-            </View>
-          ) : (
-            <View />
-          )}
-          <View style={pdfStyles.totalBlock}>
-            <View style={pdfStyles.totalRow}>
-              <View style={{ alignItems: "flex-end" }}>
-                {showVat ? (
-                  <>
-                    <View
-                      style={{
-                        flexDirection: "row",
-                        alignItems: "baseline",
-                        gap: 6,
-                        marginBottom: 2,
-                      }}
-                    >
-                      <Text style={pdfStyles.textMuted}>
-                        {t("pdf.totalNoVat")}
-                      </Text>
-                      <Text style={pdfStyles.textMuted}>
-                        {formatCurrency(invoiceTotal)}
-                      </Text>
-                    </View>
-                    <View
-                      style={{
-                        flexDirection: "row",
-                        alignItems: "baseline",
-                        gap: 6,
-                        marginBottom: 6,
-                      }}
-                    >
-                      <Text style={pdfStyles.textMuted}>
-                        {t("pdf.totalVat")}
-                      </Text>
-                      <Text style={pdfStyles.textMuted}>
-                        {formatCurrency(totalVatAmount)}
-                      </Text>
-                    </View>
-                  </>
-                ) : null}
-              </View>
-            </View>
-            <View style={pdfStyles.footerLine} />
-            <View style={pdfStyles.totalRow}>
-              <View style={{ alignItems: "flex-end" }}>
-                <Text style={pdfStyles.totalValue}>
-                  {t("pdf.total")}{" "}
-                  {formatCurrency(showVat ? invoiceTotalWithVat : invoiceTotal)}
-                </Text>
-              </View>
-            </View>
-          </View>
-        </View>
-        {invoice.btcInvoice === Evolu.sqliteTrue ? (
-          <View style={pdfStyles.btcNote}>
-            <Text style={pdfStyles.btcNoteText}>{t("pdf.btcNote")}</Text>
-            <Text
-              style={pdfStyles.btcNoteAddress}
-              hyphenationCallback={(word) => [word]}
-            >
-              {invoice.btcAddress ?? ""}
-            </Text>
-          </View>
-        ) : null}
-        <View style={pdfStyles.footer}>
-          <View style={pdfStyles.footerLeft}>
-            <Text>{profile?.invoiceFooterText ?? ""}</Text>
-          </View>
-          <Text style={pdfStyles.footerRight}>
-            {[profile?.email, profile?.phone].filter(Boolean).join(" | ")}
-          </Text>
-        </View>
-      </Page>
-    </Document>
+    <InvoiceDocument
+      i18n={documentI18n}
+      title={documentTitle}
+      template={getPdfTemplate(profile)}
+      supplier={profile}
+      customer={customer}
+      invoice={invoice}
+      isProforma={invoiceIsProforma}
+      isCreditNote={invoiceIsCreditNote}
+      showVat={showVat}
+      items={normalizedItems}
+      totals={totals}
+      discount={invoiceDiscount}
+      discountType={discountType}
+      vatRegime={vatRegime}
+      currency={invoiceCurrency}
+      exchangeRate={invoiceExchangeRate}
+      variableSymbol={variableSymbol}
+      qrCodeDataUrl={qrCodeDataUrl}
+    />
   ) : null;
 
   const hydrateForm = (source: typeof invoice) => {
     setInvoiceNumber(source?.invoiceNumber ?? "");
-    setClientName(source?.clientName ?? "");
+    setClientId(source ? (findInvoiceClient(source, clients)?.id ?? "") : "");
     setIssueDate(toDateInputValue(source?.issueDate ?? ""));
     setDuzp(toDateInputValue(source?.duzp ?? ""));
     setPaymentDate(toDateInputValue(source?.paymentDate ?? ""));
@@ -983,9 +668,22 @@ export function InvoiceDetailPage({
     );
     setPurchaseOrderNumber(source?.purchaseOrderNumber ?? "");
     setInvoicingNote(source?.invoicingNote ?? "");
+    setDocumentLanguage(
+      normalizeDocumentLanguage(source?.documentLanguage) ?? "",
+    );
+    setCorrectionReason(source?.correctionReason ?? "");
     setBtcInvoice(source?.btcInvoice === Evolu.sqliteTrue);
     setBtcAddress(source?.btcAddress ?? "");
+    setCurrency(normalizeCurrency(source?.currency));
+    setExchangeRate(
+      source?.exchangeRate != null ? String(source.exchangeRate) : "",
+    );
+    setExchangeRateTouched(false);
     setItems(parseItems(source?.items));
+    setDiscount(source?.discount ? String(source.discount) : "");
+    setDiscountType(normalizeDiscountType(source?.discountType));
+    setCashRounding(source?.cashRounding === Evolu.sqliteTrue);
+    setVatRegime(normalizeVatRegime(source?.vatRegime));
   };
 
   useEffect(() => {
@@ -994,6 +692,17 @@ export function InvoiceDetailPage({
     setSaveMessage(null);
   }, [invoice]);
 
+  // Until typed by hand, the rate follows the currency and the DUZP (the
+  // issue date when there is none), as on a new invoice.
+  const suggestExchangeRate = (nextCurrency: string, rateDate: string) => {
+    if (exchangeRateTouched) return;
+    const suggested =
+      nextCurrency !== DEFAULT_CURRENCY && rateDate
+        ? findRateForDate(rates, nextCurrency, rateDate)
+        : null;
+    setExchangeRate(suggested ? String(suggested.rate) : "");
+  };
+
   const toNullable = (value: string) => {
     const trimmed = value.trim();
     return trimmed ? trimmed : null;
@@ -1129,13 +838,77 @@ export function InvoiceDetailPage({
     );
   };
 
+  // The payment date field is only enabled while the invoice has no
+  // payments. A date then records the rest of the amount in the payment
+  // ledger, which sets the invoice's date. Credit notes have no payments;
+  // their date only marks the refund.
+  const savePaymentDateField = (
+    paymentDateValue: Evolu.DateIso | null,
+    payable = invoicePayable,
+  ) => {
+    if (!invoice || invoicePayments.length > 0) return true;
+    const current = invoice.paymentDate?.slice(0, 10) ?? null;
+    if ((paymentDateValue?.slice(0, 10) ?? null) === current) return true;
+    if (paymentDateValue && !invoiceIsCreditNote) {
+      return settleInvoicePayment(
+        evolu,
+        { id: invoice.id, payable, payments: invoicePayments },
+        paymentDateValue,
+        normalizePaymentMethod(invoice.paymentMethod),
+      );
+    }
+    const result = evolu.update("invoice", {
+      id: invoice.id,
+      paymentDate: paymentDateValue,
+    });
+    if (!result.ok) console.error("Payment update error:", result.error);
+    return result.ok;
+  };
+
+  const handleSavePayment = () => {
+    if (!invoice?.id) return;
+
+    let paymentDateValue: Evolu.DateIso | null = null;
+    if (paymentDate.trim()) {
+      const paymentDateResult = Evolu.dateToDateIso(new Date(paymentDate));
+      if (!paymentDateResult.ok) {
+        console.error("Payment date error:", paymentDateResult.error);
+        alert(t("alerts.paymentDateInvalid"));
+        return;
+      }
+      paymentDateValue = paymentDateResult.value;
+    }
+
+    const result = evolu.update("invoice", {
+      id: invoice.id,
+      documentLanguage: normalizeDocumentLanguage(documentLanguage),
+    });
+    if (!result.ok) {
+      console.error("Payment update error:", result.error);
+      alert(t("alerts.invoiceSaveValidation"));
+      return;
+    }
+    if (!savePaymentDateField(paymentDateValue)) {
+      alert(t("alerts.paymentRecordFailed"));
+      return;
+    }
+
+    setSaveMessage(t("alerts.invoiceUpdateSaved"));
+    setIsEditing(false);
+  };
+
   const handleSave = async () => {
     if (!invoice?.id) return;
-    if (!trimmedInvoiceNumber) {
+    if (isLocked) {
+      handleSavePayment();
+      return;
+    }
+    if (!invoiceIsDraft && !trimmedInvoiceNumber) {
       alert(t("alerts.invoiceNumberRequired"));
       return;
     }
-    if (!clientName.trim()) {
+    const formClient = clients.find((client) => client.id === clientId);
+    if (!formClient?.name) {
       alert(t("alerts.invoiceClientRequired"));
       return;
     }
@@ -1196,6 +969,15 @@ export function InvoiceDetailPage({
       return;
     }
 
+    let exchangeRateNumber: number | null = null;
+    if (currency !== DEFAULT_CURRENCY && exchangeRate.trim()) {
+      exchangeRateNumber = Number(exchangeRate);
+      if (!Number.isFinite(exchangeRateNumber) || exchangeRateNumber <= 0) {
+        alert(t("alerts.exchangeRateInvalid"));
+        return;
+      }
+    }
+
     if (hasDuplicateInvoiceNumber) {
       const confirmed = confirm(t("alerts.duplicateInvoiceConfirm"));
       if (!confirmed) return;
@@ -1204,22 +986,10 @@ export function InvoiceDetailPage({
     setIsSaving(true);
     setSaveMessage(null);
     try {
-      const normalizedItems = items
-        .map((item) => ({
-          amount: Number.isFinite(Number(item.amount))
-            ? Number(item.amount)
-            : 0,
-          unit: item.unit.trim(),
-          description: item.description.trim(),
-          unitPrice: Number.isFinite(Number(item.unitPrice))
-            ? Number(item.unitPrice)
-            : 0,
-          vat: Number.isFinite(Number(item.vat)) ? Number(item.vat) : 0,
-        }))
-        .filter(
-          (item) =>
-            item.description || item.unit || item.amount || item.unitPrice,
-        );
+      const normalizedItems = applyVatRegime(
+        normalizeInvoiceItems(items),
+        vatRegime,
+      );
 
       const itemsResult = Evolu.Json.from(JSON.stringify(normalizedItems));
       if (!itemsResult.ok) {
@@ -1228,30 +998,54 @@ export function InvoiceDetailPage({
         return;
       }
 
-      const result = evolu.update("invoice", {
+      // Re-snapshot the customer only when the invoice is moved to another
+      // client; otherwise the details frozen at issue time stay untouched.
+      const clientChanged = invoice.clientId !== formClient.id;
+
+      const changes = {
         id: invoice.id,
-        invoiceNumber: trimmedInvoiceNumber,
-        clientName: clientName.trim(),
+        ...(invoiceIsDraft ? {} : { invoiceNumber: trimmedInvoiceNumber }),
+        ...(clientChanged ? createClientSnapshot(formClient) : {}),
         issueDate: issueDateResult.value,
         duzp: duzpValue,
-        paymentDate: paymentDateValue,
         paymentDays: paymentDaysResult.value,
         paymentMethod,
         invoicingNote: toNullable(invoicingNote),
+        documentLanguage: normalizeDocumentLanguage(documentLanguage),
+        ...(invoiceIsCreditNote
+          ? { correctionReason: toNullable(correctionReason) }
+          : {}),
         purchaseOrderNumber: toNullable(purchaseOrderNumber),
         btcInvoice: btcInvoice ? Evolu.sqliteTrue : Evolu.sqliteFalse,
         btcAddress: toNullable(btcAddress),
+        currency,
+        exchangeRate: exchangeRateNumber,
         items: itemsResult.value,
-      });
+        discount: invoiceDiscount,
+        discountType: invoiceDiscount ? discountType : null,
+        cashRounding:
+          cashRounding && currency === DEFAULT_CURRENCY
+            ? Evolu.sqliteTrue
+            : null,
+        vatRegime: isZeroRatedVatRegime(vatRegime) ? vatRegime : null,
+      };
+      const result = evolu.update("invoice", changes);
 
       if (!result.ok) {
         console.error("Validation error:", formatTypeError(result.error));
         alert(t("alerts.invoiceSaveValidation"));
         return;
       }
+      const savedPayable =
+        getInvoiceTotal(changes, { withVat: showVat }) - invoiceCredited;
+      if (!savePaymentDateField(paymentDateValue, savedPayable)) {
+        alert(t("alerts.paymentRecordFailed"));
+        return;
+      }
 
       setSaveMessage(t("alerts.invoiceUpdateSaved"));
       setIsEditing(false);
+      setUnlockedInvoiceId(null);
     } catch (error) {
       console.error("Error updating invoice:", error);
       alert(t("alerts.invoiceSaveFailed"));
@@ -1263,19 +1057,26 @@ export function InvoiceDetailPage({
   const handleCancel = () => {
     hydrateForm(invoice);
     setIsEditing(false);
+    setUnlockedInvoiceId(null);
     setSaveMessage(null);
   };
 
+  // Deletes the recorded payments too, so the ledger and the date agree.
   const handleCancelPayment = () => {
     if (!invoice?.id) return;
+    if (
+      invoicePayments.length > 0 &&
+      !confirm(t("alerts.paymentCancelConfirm"))
+    ) {
+      return;
+    }
 
-    const result = evolu.update("invoice", {
+    const cancelled = clearInvoicePayments(evolu, {
       id: invoice.id,
-      paymentDate: null,
+      payable: invoicePayable,
+      payments: invoicePayments,
     });
-
-    if (!result.ok) {
-      console.error("Payment cancel error:", result.error);
+    if (!cancelled) {
       alert(t("alerts.paymentCancelFailed"));
       return;
     }
@@ -1283,8 +1084,10 @@ export function InvoiceDetailPage({
     setPaymentDate("");
   };
 
+  // Only drafts can be deleted: an issued number must stay in its series, even
+  // after a force unlock, and is corrected with a credit note instead.
   const handleDelete = async () => {
-    if (!invoice?.id) return;
+    if (!invoice?.id || !invoiceIsDraft) return;
     const confirmed = confirm(t("alerts.invoiceDeleteConfirm"));
     if (!confirmed) return;
 
@@ -1310,50 +1113,212 @@ export function InvoiceDetailPage({
     }
   };
 
+  // Shared by duplicate and "create final invoice": a copy dated today with
+  // the client's current details and the exchange rate valid today. Without
+  // a number the copy is a draft.
+  const buildCopyPayload = (invoiceNumber: string | null) => {
+    if (!invoice) return null;
+    const clientSnapshot = selectedClient
+      ? createClientSnapshot(selectedClient)
+      : {
+          clientId: invoice.clientId,
+          clientName: invoice.clientName ?? "",
+          clientAddressLine1: invoice.clientAddressLine1,
+          clientAddressLine2: invoice.clientAddressLine2,
+          clientCompanyIdentificationNumber:
+            invoice.clientCompanyIdentificationNumber,
+          clientVatNumber: invoice.clientVatNumber,
+        };
+    if (!clientSnapshot.clientName) {
+      alert(t("alerts.invoiceClientMissing"));
+      return null;
+    }
+    if (!invoice.issueDate) {
+      alert(t("alerts.invoiceIssueDateMissing"));
+      return null;
+    }
+    if (invoice.paymentDays == null) {
+      alert(t("alerts.invoicePaymentDaysMissing"));
+      return null;
+    }
+
+    const todayResult = Evolu.dateToDateIso(new Date());
+    if (!todayResult.ok) {
+      console.error("Today date error:", todayResult.error);
+      alert(t("alerts.todayDateFailed"));
+      return null;
+    }
+    const todayIso = todayResult.value;
+
+    return {
+      invoiceNumber,
+      documentType: invoice.documentType,
+      draft: invoiceNumber ? null : Evolu.sqliteTrue,
+      ...clientSnapshot,
+      issueDate: todayIso,
+      // Proformas are not tax documents and have no DUZP.
+      duzp: invoiceIsProforma ? null : todayIso,
+      paymentDate: null,
+      paymentDays: invoice.paymentDays,
+      paymentMethod: invoice.paymentMethod ?? "bank",
+      purchaseOrderNumber: invoice.purchaseOrderNumber,
+      invoicingNote: invoice.invoicingNote,
+      documentLanguage: invoice.documentLanguage,
+      btcInvoice: invoice.btcInvoice ?? Evolu.sqliteFalse,
+      btcAddress: invoice.btcAddress,
+      currency: invoiceCurrency,
+      exchangeRate:
+        invoiceCurrency !== DEFAULT_CURRENCY
+          ? (findRateForDate(rates, invoiceCurrency, todayIso)?.rate ?? null)
+          : null,
+      items: invoice.items ?? Evolu.Json.orThrow("[]"),
+      discount: invoice.discount,
+      discountType: invoice.discountType,
+      cashRounding: invoice.cashRounding,
+      vatRegime: invoice.vatRegime,
+      deleted: Evolu.sqliteFalse,
+    };
+  };
+
+  const isdocFileName = pdfFileName.replace(/\.pdf$/i, ".isdoc");
+
+  // Built from the saved invoice, like the PDF.
+  const buildIsdocInput = (): IsdocInput | null => {
+    if (!invoice || !customer) return null;
+    if (invoiceCurrency !== DEFAULT_CURRENCY && !invoice.exchangeRate) {
+      alert(t("alerts.isdocExchangeRateMissing"));
+      return null;
+    }
+    const regime = normalizeVatRegime(invoice.vatRegime);
+    return {
+      invoice,
+      supplier: {
+        name: profile?.name ?? "",
+        addressLine1: profile?.addressLine1 ?? null,
+        addressLine2: profile?.addressLine2 ?? null,
+        companyIdentificationNumber:
+          profile?.companyIdentificationNumber ?? null,
+        vatNumber: profile?.vatNumber ?? null,
+        email: profile?.email,
+        phone: profile?.phone,
+        bankAccount: profile?.bankAccount,
+        iban: profile?.iban,
+        swift: profile?.swift,
+      },
+      customer,
+      vatPayer: showVat,
+      note: [
+        invoice.invoicingNote,
+        isZeroRatedVatRegime(regime) ? t(`pdf.vatRegimeNote.${regime}`) : null,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      discountLabel: t("pdf.invoiceDiscount", {
+        discount: formatDiscount(
+          invoice.discount ?? 0,
+          normalizeDiscountType(invoice.discountType),
+        ),
+      }),
+    };
+  };
+
+  const handleIsdocExport = () => {
+    const input = buildIsdocInput();
+    if (!input) return;
+    downloadFile(
+      isdocFileName,
+      new Blob([buildIsdocXml(input)], {
+        type: "application/xml;charset=utf-8;",
+      }),
+    );
+  };
+
+  const handleIsdocxExport = async () => {
+    const input = buildIsdocInput();
+    if (!input || !pdfDocument) return;
+
+    setIsExportingIsdocx(true);
+    try {
+      const pdfBlob = await pdf(pdfDocument).toBlob();
+      const isdocx = await buildIsdocx(input, isdocFileName, {
+        fileName: pdfFileName,
+        data: new Uint8Array(await pdfBlob.arrayBuffer()),
+      });
+      downloadFile(`${isdocFileName}x`, isdocx);
+    } catch (error) {
+      console.error("ISDOCX export error:", error);
+      alert(t("alerts.isdocxExportFailed"));
+    } finally {
+      setIsExportingIsdocx(false);
+    }
+  };
+
+  // A draft email to the client with the PDF attached, opened in the mail app.
+  const handlePrepareEmail = async () => {
+    if (!invoice || !pdfDocument) return;
+
+    setIsPreparingEmail(true);
+    try {
+      const pdfBlob = await pdf(pdfDocument).toBlob();
+      // Bilingual documents get the Czech text; one language reads better.
+      const emailI18n = createI18n(documentI18n.language);
+      const supplierName = profile?.name ?? "";
+      const vars = {
+        invoiceNumber: invoiceNumberValue,
+        documentTitle,
+        amount: formatMoney(amountDue, invoiceCurrency, emailI18n.locale),
+        dueDate:
+          getInvoiceDueDate(invoice)?.toLocaleDateString(emailI18n.locale) ??
+          "",
+        clientName: customer?.name ?? "",
+        supplierName,
+      };
+      const clientEmail = selectedClient?.email?.trim();
+      const supplierEmail = profile?.email?.trim();
+      const eml = buildEml({
+        from: supplierEmail
+          ? { name: supplierName, address: supplierEmail }
+          : null,
+        to: clientEmail
+          ? [{ name: customer?.name ?? null, address: clientEmail }]
+          : [],
+        subject: formatTemplate(
+          profile?.emailSubjectTemplate || emailI18n.t("email.subject"),
+          vars,
+        ),
+        body: formatTemplate(
+          profile?.emailBodyTemplate || emailI18n.t("email.body"),
+          vars,
+        ),
+        attachments: [
+          {
+            filename: pdfFileName,
+            contentType: "application/pdf",
+            data: new Uint8Array(await pdfBlob.arrayBuffer()),
+          },
+        ],
+      });
+      downloadFile(
+        pdfFileName.replace(/\.pdf$/i, ".eml"),
+        new Blob([eml], { type: "message/rfc822" }),
+      );
+    } catch (error) {
+      console.error("Email export error:", error);
+      alert(t("alerts.emailExportFailed"));
+    } finally {
+      setIsPreparingEmail(false);
+    }
+  };
+
   const handleDuplicate = async () => {
     if (!invoice) return;
 
     setIsDuplicating(true);
     setSaveMessage(null);
     try {
-      const nextInvoiceNumber = getNextInvoiceNumber(latestInvoiceNumber ?? "");
-      const safeClientName = invoice.clientName ?? clientName.trim();
-      if (!safeClientName) {
-        alert(t("alerts.invoiceClientMissing"));
-        return;
-      }
-      if (!invoice.issueDate) {
-        alert(t("alerts.invoiceIssueDateMissing"));
-        return;
-      }
-      if (invoice.paymentDays == null) {
-        alert(t("alerts.invoicePaymentDaysMissing"));
-        return;
-      }
-
-      const todayResult = Evolu.dateToDateIso(new Date());
-      if (!todayResult.ok) {
-        console.error("Today date error:", todayResult.error);
-        alert(t("alerts.todayDateFailed"));
-        return;
-      }
-      const todayIso = todayResult.value;
-
-      const payload = {
-        invoiceNumber: nextInvoiceNumber,
-        clientName: safeClientName,
-        issueDate: todayIso,
-        duzp: todayIso,
-        paymentDate: null,
-        paymentDays: invoice.paymentDays,
-        paymentMethod: invoice.paymentMethod ?? "bank",
-        purchaseOrderNumber: invoice.purchaseOrderNumber,
-        invoicingNote: invoice.invoicingNote,
-        btcInvoice: invoice.btcInvoice ?? Evolu.sqliteFalse,
-        btcAddress: invoice.btcAddress,
-        items: invoice.items ?? Evolu.Json.orThrow("[]"),
-        deleted: Evolu.sqliteFalse,
-      };
+      // Copies start as drafts and get their number when issued.
+      const payload = buildCopyPayload(null);
+      if (!payload) return;
 
       const validation = evolu.insert("invoice", payload, {
         onlyValidate: true,
@@ -1380,30 +1345,373 @@ export function InvoiceDetailPage({
     }
   };
 
-  if (!invoice) {
-    return (
-      <div className="page-shell">
-        <div className="page-container-lg">
-          <div className="page-card-lg">
-            <div className="flex items-center justify-between mb-6">
-              <h1 className="page-title">{t("invoiceDetail.title")}</h1>
-              <button onClick={onBack} className="btn-secondary">
-                {t("common.backToList")}
-              </button>
-            </div>
-            <div className="empty-state">{t("invoiceDetail.notFound")}</div>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="page-shell">
-      <div className="page-container-lg">
-        <div className="page-card-lg">
+  const handleCreateFinalInvoice = async () => {
+    if (!invoice || !invoiceIsProforma) return;
+    if (!invoice.paymentDate) {
+      alert(t("alerts.finalInvoiceProformaUnpaid"));
+      return;
+    }
+    if (
+      finalInvoices.length > 0 &&
+      !confirm(
+        t("alerts.finalInvoiceExistsConfirm", {
+          number:
+            finalInvoices[0].invoiceNumber ?? t("invoicesList.draftBadge"),
+        }),
+      )
+    ) {
+      return;
+    }
+
+    setIsCreatingFinalInvoice(true);
+    setSaveMessage(null);
+    try {
+      // A draft, so the deduction line can be checked before it is issued.
+      const copy = buildCopyPayload(null);
+      if (!copy) return;
+
+      const finalItems = [
+        ...parseInvoiceItems(invoice.items),
+        ...getAdvanceDeductionItems(
+          invoice.items,
+          t("invoiceDetail.advanceDeductionItem", {
+            number: invoice.invoiceNumber ?? "",
+          }),
+        ),
+      ];
+      const itemsResult = Evolu.Json.from(JSON.stringify(finalItems));
+      if (!itemsResult.ok) {
+        console.error("Items error:", itemsResult.error);
+        alert(t("alerts.invoiceItemsInvalid"));
+        return;
+      }
+
+      // When the advance covers the whole invoice there is nothing left to
+      // pay, so the final invoice is settled on the advance payment date.
+      const remaining = getInvoiceTotal(
+        { ...copy, items: finalItems },
+        { withVat: true },
+      );
+      const payload = {
+        ...copy,
+        documentType: null,
+        advanceInvoiceId: invoice.id,
+        duzp: copy.issueDate,
+        paymentDate: remaining <= 0 ? invoice.paymentDate : null,
+        items: itemsResult.value,
+      };
+
+      const result = evolu.insert("invoice", payload);
+      if (!result.ok) {
+        console.error("Insert error:", result.error);
+        alert(t("alerts.finalInvoiceCreateFailed"));
+        return;
+      }
+
+      onOpenInvoice(result.value.id);
+    } catch (error) {
+      console.error("Error creating final invoice:", error);
+      alert(t("alerts.finalInvoiceCreateFailed"));
+    } finally {
+      setIsCreatingFinalInvoice(false);
+    }
+  };
+
+  const handleCreateCreditNote = async () => {
+    if (!invoice || invoiceIsCreditNote || invoiceIsProforma) return;
+    const confirmed = confirm(t("alerts.creditNoteCreateConfirm"));
+    if (!confirmed) return;
+
+    setIsCreatingCreditNote(true);
+    setSaveMessage(null);
+    try {
+      if (!invoice.clientName) {
+        alert(t("alerts.invoiceClientMissing"));
+        return;
+      }
+      if (invoice.paymentDays == null) {
+        alert(t("alerts.invoicePaymentDaysMissing"));
+        return;
+      }
+
+      const todayResult = Evolu.dateToDateIso(new Date());
+      if (!todayResult.ok) {
+        console.error("Today date error:", todayResult.error);
+        alert(t("alerts.todayDateFailed"));
+        return;
+      }
+      const todayIso = todayResult.value;
+
+      const itemsResult = Evolu.Json.from(
+        JSON.stringify(negateInvoiceItems(invoice.items)),
+      );
+      if (!itemsResult.ok) {
+        console.error("Items error:", itemsResult.error);
+        alert(t("alerts.invoiceItemsInvalid"));
+        return;
+      }
+
+      // A credit note corrects the original document, so it keeps the
+      // original customer snapshot and exchange rate. It starts as a draft
+      // so the reason and the credited lines can be filled in before issue.
+      const payload = {
+        invoiceNumber: null,
+        draft: Evolu.sqliteTrue,
+        documentType: documentTypeValue.creditNote,
+        correctedInvoiceId: invoice.id,
+        correctedInvoiceNumber: invoice.invoiceNumber,
+        correctionReason: null,
+        clientId: invoice.clientId,
+        clientName: invoice.clientName,
+        clientAddressLine1: invoice.clientAddressLine1,
+        clientAddressLine2: invoice.clientAddressLine2,
+        clientCompanyIdentificationNumber:
+          invoice.clientCompanyIdentificationNumber,
+        clientVatNumber: invoice.clientVatNumber,
+        issueDate: todayIso,
+        duzp: todayIso,
+        paymentDate: null,
+        paymentDays: invoice.paymentDays,
+        paymentMethod: invoice.paymentMethod ?? "bank",
+        purchaseOrderNumber: invoice.purchaseOrderNumber,
+        invoicingNote: null,
+        documentLanguage: invoice.documentLanguage,
+        btcInvoice: invoice.btcInvoice ?? Evolu.sqliteFalse,
+        btcAddress: invoice.btcAddress,
+        currency: invoiceCurrency,
+        exchangeRate: invoice.exchangeRate,
+        items: itemsResult.value,
+        discount: invoice.discount,
+        discountType: invoice.discountType,
+        cashRounding: invoice.cashRounding,
+        vatRegime: invoice.vatRegime,
+        deleted: Evolu.sqliteFalse,
+      };
+
+      const result = evolu.insert("invoice", payload);
+      if (!result.ok) {
+        console.error("Insert error:", result.error);
+        alert(t("alerts.creditNoteCreateFailed"));
+        return;
+      }
+
+      onOpenInvoice(result.value.id);
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      alert(t("alerts.creditNoteCreateFailed"));
+    } finally {
+      setIsCreatingCreditNote(false);
+    }
+  };
+
+  // Issuing assigns the next number of the series and dates the invoice
+  // today, so numbers follow issue dates without gaps.
+  const handleIssueDraft = () => {
+    if (!invoice || !invoiceIsDraft) return;
+    if (invoiceIsCreditNote && !invoice.correctionReason?.trim()) {
+      alert(t("alerts.creditNoteReasonRequired"));
+      return;
+    }
+
+    const today = new Date();
+    const todayResult = Evolu.dateToDateIso(today);
+    if (!todayResult.ok) {
+      console.error("Today date error:", todayResult.error);
+      alert(t("alerts.todayDateFailed"));
+      return;
+    }
+
+    const numberResult = Evolu.NonEmptyTrimmedString100.from(
+      getNextSeriesNumber(
+        duplicateInvoices,
+        getInvoiceDocumentType(invoice),
+        profile,
+        today,
+      ),
+    );
+    if (!numberResult.ok) {
+      console.error("Invoice number error:", numberResult.error);
+      alert(t("alerts.draftIssueFailed"));
+      return;
+    }
+
+    const confirmed = confirm(
+      t("alerts.draftIssueConfirm", { number: numberResult.value }),
+    );
+    if (!confirmed) return;
+
+    const result = evolu.update("invoice", {
+      id: invoice.id,
+      invoiceNumber: numberResult.value,
+      draft: Evolu.sqliteFalse,
+      issueDate: todayResult.value,
+      ...(showVat && !invoiceIsProforma && !invoice.duzp
+        ? { duzp: todayResult.value }
+        : {}),
+    });
+    if (!result.ok) {
+      console.error("Draft issue error:", result.error);
+      alert(t("alerts.draftIssueFailed"));
+      return;
+    }
+    setSaveMessage(
+      t("invoiceDetail.draftIssued", { number: numberResult.value }),
+    );
+  };
+
+  const handleForceUnlock = () => {
+    if (!invoice || !isLocked) return;
+    const reason = prompt(t("alerts.forceUnlockPrompt"));
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert(t("alerts.forceUnlockReasonRequired"));
+      return;
+    }
+
+    const auditNoteResult = Evolu.TrimmedString1000.from(
+      appendAuditNote(
+        invoice.auditNote,
+        t("invoiceDetail.auditUnlocked", { reason: reason.trim() }),
+      ),
+    );
+    if (!auditNoteResult.ok) {
+      console.error("Audit note error:", auditNoteResult.error);
+      alert(t("alerts.forceUnlockFailed"));
+      return;
+    }
+
+    const result = evolu.update("invoice", {
+      id: invoice.id,
+      auditNote: auditNoteResult.value,
+    });
+    if (!result.ok) {
+      console.error("Audit note error:", result.error);
+      alert(t("alerts.forceUnlockFailed"));
+      return;
+    }
+    setUnlockedInvoiceId(invoice.id);
+  };
+
+  const handleRecordPayment = () => {
+    if (!invoice) return;
+    const amount = Number(newPaymentAmountValue.replace(",", "."));
+    if (!Number.isFinite(amount) || amount <= 0) {
+      alert(t("alerts.paymentAmountInvalid"));
+      return;
+    }
+    if (!newPaymentDateValue) {
+      alert(t("alerts.paymentDateInvalid"));
+      return;
+    }
+
+    const recorded = recordInvoicePayment(
+      evolu,
+      { id: invoice.id, payable: invoicePayable, payments: invoicePayments },
+      {
+        paymentDate: newPaymentDateValue,
+        amount,
+        method: newPaymentMethodValue,
+        note: newPaymentNote,
+      },
+    );
+    if (!recorded) {
+      alert(t("alerts.paymentRecordFailed"));
+      return;
+    }
+
+    setNewPaymentDate("");
+    setNewPaymentAmount("");
+    setNewPaymentMethod(null);
+    setNewPaymentNote("");
+    setSaveMessage(t("invoiceDetail.paymentRecorded"));
+  };
+
+  const handleDeletePayment = (paymentId: string) => {
+    if (!invoice || !confirm(t("invoiceDetail.paymentDeleteConfirm"))) return;
+    const deleted = deleteInvoicePayment(
+      evolu,
+      { id: invoice.id, payable: invoicePayable, payments: invoicePayments },
+      paymentId,
+    );
+    if (!deleted) alert(t("alerts.paymentRecordFailed"));
+  };
+
+  const handleCreateRecurring = () => {
+    if (!invoice || invoiceIsCreditNote || invoiceIsProforma) return;
+    if (!invoice.clientId) {
+      alert(t("alerts.recurringClientMissing"));
+      return;
+    }
+
+    const nextRunDateResult = Evolu.dateToDateIso(
+      new Date(recurringStartValue),
+    );
+    if (!recurringStartValue || !nextRunDateResult.ok) {
+      alert(t("alerts.recurringStartDateInvalid"));
+      return;
+    }
+
+    const result = evolu.insert("recurringInvoice", {
+      clientId: invoice.clientId,
+      items: invoice.items ?? Evolu.Json.orThrow("[]"),
+      paymentDays: invoice.paymentDays ?? 0,
+      paymentMethod: invoice.paymentMethod,
+      invoicingNote: invoice.invoicingNote,
+      currency: invoiceCurrency,
+      discount: invoice.discount,
+      discountType: invoice.discountType,
+      cashRounding: invoice.cashRounding,
+      vatRegime: invoice.vatRegime,
+      cadence: Evolu.NonEmptyTrimmedString100.orThrow(recurringCadence),
+      nextRunDate: nextRunDateResult.value,
+      paused: Evolu.sqliteFalse,
+      deleted: Evolu.sqliteFalse,
+    });
+    if (!result.ok) {
+      console.error("Recurring invoice error:", result.error);
+      alert(t("alerts.recurringCreateFailed"));
+      return;
+    }
+
+    setIsRecurringFormOpen(false);
+    setRecurringStartDate("");
+    setSaveMessage(
+      t("invoiceDetail.recurringCreated", {
+        date: new Date(recurringStartValue).toLocaleDateString(locale),
+      }),
+    );
+  };
+
+  if (!invoice) {
+    return (
+      <div className="page-shell">
+        <div className="page-container-lg">
+          <div className="page-card-lg">
+            <div className="flex items-center justify-between mb-6">
+              <h1 className="page-title">{t("invoiceDetail.title")}</h1>
+              <button onClick={onBack} className="btn-secondary">
+                {t("common.backToList")}
+              </button>
+            </div>
+            <div className="empty-state">{t("invoiceDetail.notFound")}</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-shell">
+      <div className="page-container-lg">
+        <div className="page-card-lg">
           <div className="flex items-center justify-between mb-6">
-            <h1 className="page-title">{t("invoiceDetail.title")}</h1>
+            <h1 className="page-title">
+              {invoiceIsCreditNote
+                ? t("invoiceDetail.creditNoteTitle")
+                : invoiceIsProforma
+                  ? t("invoiceDetail.proformaTitle")
+                  : t("invoiceDetail.title")}
+            </h1>
             <button onClick={onBack} className="btn-secondary">
               {t("common.backToList")}
             </button>
@@ -1413,6 +1721,68 @@ export function InvoiceDetailPage({
             <div className="mb-6 alert-success">{saveMessage}</div>
           ) : null}
 
+          {invoiceIsDraft ? (
+            <div className="mb-6 alert-warning flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <span>
+                {invoice.recurringInvoiceId
+                  ? t("invoiceDetail.draftRecurringNotice")
+                  : t("invoiceDetail.draftNotice")}
+              </span>
+              {!isEditing ? (
+                <button
+                  onClick={handleIssueDraft}
+                  className="btn-primary w-full sm:w-auto"
+                >
+                  {t("invoiceDetail.draftIssue")}
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+
+          {!invoiceIsDraft ? (
+            <div
+              className={`mb-6 text-sm ${isUnlocked ? "alert-warning" : "panel-card"}`}
+            >
+              {isUnlocked
+                ? t("invoiceDetail.unlockedNotice")
+                : t("invoiceDetail.lockedNotice")}
+              {invoice.auditNote ? (
+                <div className="mt-2 text-xs">
+                  <p className="font-semibold">
+                    {t("invoiceDetail.auditNoteLabel")}
+                  </p>
+                  {getAuditNoteEntries(invoice.auditNote).map((entry) => (
+                    <p key={entry}>{entry}</p>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          {invoiceIsProforma ? (
+            <div className="panel-card mb-6 text-sm">
+              {finalInvoices.length > 0
+                ? t("invoiceDetail.proformaSettledBy", {
+                    number: finalInvoices
+                      .map(
+                        (row) =>
+                          row.invoiceNumber ?? t("invoicesList.draftBadge"),
+                      )
+                      .join(", "),
+                  })
+                : t("invoiceDetail.proformaNotice")}
+            </div>
+          ) : null}
+
+          {invoiceIsCreditNote ? (
+            <div className="panel-card mb-6 text-sm">
+              {t("invoiceDetail.creditNoteReference", {
+                number:
+                  invoice.correctedInvoiceNumber || t("common.placeholderDash"),
+              })}
+            </div>
+          ) : null}
+
           <div className="space-y-4">
             <div>
               <label htmlFor="invoiceNumber" className="form-label">
@@ -1423,7 +1793,12 @@ export function InvoiceDetailPage({
                 type="text"
                 value={invoiceNumber}
                 onChange={(e) => setInvoiceNumber(e.target.value)}
-                disabled={!isEditing}
+                disabled={!canEditContent || invoiceIsDraft}
+                placeholder={
+                  invoiceIsDraft
+                    ? t("invoiceDetail.invoiceNumberDraftPlaceholder")
+                    : undefined
+                }
                 className="form-input"
               />
             </div>
@@ -1434,9 +1809,9 @@ export function InvoiceDetailPage({
               </label>
               <select
                 id="clientName"
-                value={clientName}
-                onChange={(e) => setClientName(e.target.value)}
-                disabled={!isEditing}
+                value={clientId}
+                onChange={(e) => setClientId(e.target.value)}
+                disabled={!canEditContent}
                 className="form-select"
               >
                 <option value="">{t("invoiceDetail.clientPlaceholder")}</option>
@@ -1445,7 +1820,7 @@ export function InvoiceDetailPage({
                     Boolean(client.name),
                   )
                   .map((client) => (
-                    <option key={client.id} value={client.name}>
+                    <option key={client.id} value={client.id}>
                       {client.name}
                     </option>
                   ))}
@@ -1466,8 +1841,11 @@ export function InvoiceDetailPage({
                   id="issueDate"
                   type="date"
                   value={issueDate}
-                  onChange={(e) => setIssueDate(e.target.value)}
-                  disabled={!isEditing}
+                  onChange={(e) => {
+                    setIssueDate(e.target.value);
+                    if (!duzp) suggestExchangeRate(currency, e.target.value);
+                  }}
+                  disabled={!canEditContent}
                   className="form-input"
                 />
               </div>
@@ -1481,7 +1859,7 @@ export function InvoiceDetailPage({
                   min={0}
                   value={paymentDays}
                   onChange={(e) => setPaymentDays(e.target.value)}
-                  disabled={!isEditing}
+                  disabled={!canEditContent}
                   className="form-input"
                 />
               </div>
@@ -1496,12 +1874,14 @@ export function InvoiceDetailPage({
                 type="date"
                 value={paymentDate}
                 onChange={(e) => setPaymentDate(e.target.value)}
-                disabled={!isEditing}
+                disabled={
+                  !isEditing || invoiceIsDraft || invoicePayments.length > 0
+                }
                 className="form-input"
               />
             </div>
 
-            {profile?.vatPayer === Evolu.sqliteTrue ? (
+            {profile?.vatPayer === Evolu.sqliteTrue && !invoiceIsProforma ? (
               <div>
                 <label htmlFor="duzp" className="form-label">
                   {t("invoiceDetail.duzpLabel")}
@@ -1510,8 +1890,11 @@ export function InvoiceDetailPage({
                   id="duzp"
                   type="date"
                   value={duzp}
-                  onChange={(e) => setDuzp(e.target.value)}
-                  disabled={!isEditing}
+                  onChange={(e) => {
+                    setDuzp(e.target.value);
+                    suggestExchangeRate(currency, e.target.value || issueDate);
+                  }}
+                  disabled={!canEditContent}
                   className="form-input"
                 />
               </div>
@@ -1525,7 +1908,7 @@ export function InvoiceDetailPage({
                 id="paymentMethod"
                 value={paymentMethod}
                 onChange={(e) => setPaymentMethod(e.target.value)}
-                disabled={!isEditing}
+                disabled={!canEditContent}
                 className="form-select"
               >
                 <option value="bank">
@@ -1537,6 +1920,95 @@ export function InvoiceDetailPage({
               </select>
             </div>
 
+            <div>
+              <label htmlFor="documentLanguage" className="form-label">
+                {t("invoiceDetail.documentLanguageLabel")}
+              </label>
+              <select
+                id="documentLanguage"
+                value={documentLanguage}
+                onChange={(e) => setDocumentLanguage(e.target.value)}
+                disabled={!isEditing}
+                className="form-select"
+              >
+                <option value="">
+                  {t("invoiceDetail.documentLanguageClient")}
+                </option>
+                {DOCUMENT_LANGUAGES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`documentLanguages.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="currency" className="form-label">
+                  {t("invoiceDetail.currencyLabel")}
+                </label>
+                <select
+                  id="currency"
+                  value={currency}
+                  onChange={(e) => {
+                    setCurrency(e.target.value);
+                    suggestExchangeRate(e.target.value, duzp || issueDate);
+                  }}
+                  disabled={!canEditContent}
+                  className="form-select"
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {currency !== DEFAULT_CURRENCY ? (
+                <div>
+                  <label htmlFor="exchangeRate" className="form-label">
+                    {t("invoiceDetail.exchangeRateLabel", { currency })}
+                  </label>
+                  <input
+                    id="exchangeRate"
+                    type="number"
+                    min={0}
+                    step="0.001"
+                    value={exchangeRate}
+                    onChange={(e) => {
+                      setExchangeRateTouched(true);
+                      setExchangeRate(e.target.value);
+                    }}
+                    disabled={!canEditContent}
+                    className="form-input"
+                  />
+                </div>
+              ) : null}
+            </div>
+
+            {showVat ? (
+              <div>
+                <label htmlFor="vatRegime" className="form-label">
+                  {t("invoiceDetail.vatRegimeLabel")}
+                </label>
+                <select
+                  id="vatRegime"
+                  value={vatRegime}
+                  onChange={(e) =>
+                    setVatRegime(normalizeVatRegime(e.target.value))
+                  }
+                  disabled={!canEditContent}
+                  className="form-select"
+                >
+                  {VAT_REGIMES.map((regime) => (
+                    <option key={regime} value={regime}>
+                      {t(`vatRegime.${regime}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+
             <div>
               <label htmlFor="invoicingNote" className="form-label">
                 {t("invoiceDetail.invoicingNoteLabel")}
@@ -1545,13 +2017,30 @@ export function InvoiceDetailPage({
                 id="invoicingNote"
                 value={invoicingNote}
                 onChange={(e) => setInvoicingNote(e.target.value)}
-                disabled={!isEditing}
+                disabled={!canEditContent}
                 placeholder={t("invoiceDetail.invoicingNotePlaceholder")}
                 className="form-input"
                 rows={3}
               />
             </div>
 
+            {invoiceIsCreditNote ? (
+              <div>
+                <label htmlFor="correctionReason" className="form-label">
+                  {t("invoiceDetail.correctionReasonLabel")}
+                </label>
+                <textarea
+                  id="correctionReason"
+                  value={correctionReason}
+                  onChange={(e) => setCorrectionReason(e.target.value)}
+                  disabled={!canEditContent}
+                  placeholder={t("invoiceDetail.correctionReasonPlaceholder")}
+                  className="form-input"
+                  rows={2}
+                />
+              </div>
+            ) : null}
+
             {isPoRequired ? (
               <div>
                 <label htmlFor="purchaseOrderNumber" className="form-label">
@@ -1562,7 +2051,7 @@ export function InvoiceDetailPage({
                   type="text"
                   value={purchaseOrderNumber}
                   onChange={(e) => setPurchaseOrderNumber(e.target.value)}
-                  disabled={!isEditing}
+                  disabled={!canEditContent}
                   placeholder={t("invoiceDetail.purchaseOrderPlaceholder")}
                   className="form-input"
                 />
@@ -1575,7 +2064,7 @@ export function InvoiceDetailPage({
                 type="checkbox"
                 checked={btcInvoice}
                 onChange={(e) => setBtcInvoice(e.target.checked)}
-                disabled={!isEditing}
+                disabled={!canEditContent}
                 className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
               />
               <label
@@ -1595,7 +2084,7 @@ export function InvoiceDetailPage({
                   >
                     {t("invoiceDetail.btcAddressLabel")}
                   </label>
-                  {isEditing && !btcAddress.trim() ? (
+                  {canEditContent && !btcAddress.trim() ? (
                     <button
                       type="button"
                       onClick={handleLoadFromTrezor}
@@ -1613,7 +2102,7 @@ export function InvoiceDetailPage({
                   type="text"
                   value={btcAddress}
                   onChange={(e) => setBtcAddress(e.target.value)}
-                  disabled={!isEditing}
+                  disabled={!canEditContent}
                   placeholder={t("invoiceDetail.btcAddressPlaceholder")}
                   className="form-input"
                 />
@@ -1638,7 +2127,7 @@ export function InvoiceDetailPage({
                 <button
                   type="button"
                   onClick={addItem}
-                  disabled={!isEditing}
+                  disabled={!canEditContent}
                   className="btn-secondary"
                 >
                   {t("invoiceDetail.addItem")}
@@ -1662,7 +2151,7 @@ export function InvoiceDetailPage({
                         onChange={(e) =>
                           updateItem(index, "description", e.target.value)
                         }
-                        disabled={!isEditing}
+                        disabled={!canEditContent}
                         className="form-input"
                       />
                     </div>
@@ -1682,12 +2171,12 @@ export function InvoiceDetailPage({
                         <input
                           id={`item-${index}-amount`}
                           type="number"
-                          min={0}
+                          min={invoiceIsCreditNote ? undefined : 0}
                           value={item.amount}
                           onChange={(e) =>
                             updateItem(index, "amount", e.target.value)
                           }
-                          disabled={!isEditing}
+                          disabled={!canEditContent}
                           className="form-input"
                         />
                       </div>
@@ -1706,7 +2195,7 @@ export function InvoiceDetailPage({
                           onChange={(e) =>
                             updateItem(index, "unit", e.target.value)
                           }
-                          disabled={!isEditing}
+                          disabled={!canEditContent}
                           className="form-input"
                         />
                       </div>
@@ -1727,7 +2216,7 @@ export function InvoiceDetailPage({
                           onChange={(e) =>
                             updateItem(index, "unitPrice", e.target.value)
                           }
-                          disabled={!isEditing}
+                          disabled={!canEditContent}
                           className="form-input"
                         />
                       </div>
@@ -1745,22 +2234,73 @@ export function InvoiceDetailPage({
                             type="number"
                             min={0}
                             step="0.1"
-                            value={item.vat}
+                            value={
+                              isZeroRatedVatRegime(vatRegime) ? "0" : item.vat
+                            }
                             onChange={(e) =>
                               updateItem(index, "vat", e.target.value)
                             }
-                            disabled={!isEditing}
+                            disabled={
+                              !canEditContent || isZeroRatedVatRegime(vatRegime)
+                            }
                             className="form-input"
                           />
                         </div>
                       ) : null}
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <div>
+                        <label
+                          htmlFor={`item-${index}-discount`}
+                          className="form-label"
+                        >
+                          {t("invoiceDetail.itemDiscount")}
+                        </label>
+                        <input
+                          id={`item-${index}-discount`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.discount}
+                          onChange={(e) =>
+                            updateItem(index, "discount", e.target.value)
+                          }
+                          disabled={!canEditContent}
+                          className="form-input"
+                        />
+                      </div>
+                      <div>
+                        <label
+                          htmlFor={`item-${index}-discountType`}
+                          className="form-label"
+                        >
+                          {t("invoiceDetail.itemDiscountType")}
+                        </label>
+                        <select
+                          id={`item-${index}-discountType`}
+                          value={item.discountType}
+                          onChange={(e) =>
+                            updateItem(
+                              index,
+                              "discountType",
+                              normalizeDiscountType(e.target.value),
+                            )
+                          }
+                          disabled={!canEditContent}
+                          className="form-select"
+                        >
+                          <option value="percent">%</option>
+                          <option value="amount">{currency}</option>
+                        </select>
+                      </div>
+                    </div>
+
                     <div className="flex justify-end">
                       <button
                         type="button"
                         onClick={() => removeItem(index)}
-                        disabled={!isEditing || items.length === 1}
+                        disabled={!canEditContent || items.length === 1}
                         className="btn-danger"
                       >
                         {t("invoiceDetail.itemRemove")}
@@ -1771,16 +2311,67 @@ export function InvoiceDetailPage({
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="invoiceDiscount" className="form-label">
+                  {t("invoiceDetail.invoiceDiscountLabel")}
+                </label>
+                <input
+                  id="invoiceDiscount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={discount}
+                  onChange={(e) => setDiscount(e.target.value)}
+                  disabled={!canEditContent}
+                  className="form-input"
+                />
+              </div>
+              <div>
+                <label htmlFor="invoiceDiscountType" className="form-label">
+                  {t("invoiceDetail.itemDiscountType")}
+                </label>
+                <select
+                  id="invoiceDiscountType"
+                  value={discountType}
+                  onChange={(e) =>
+                    setDiscountType(normalizeDiscountType(e.target.value))
+                  }
+                  disabled={!canEditContent}
+                  className="form-select"
+                >
+                  <option value="percent">%</option>
+                  <option value="amount">{currency}</option>
+                </select>
+              </div>
+            </div>
+
+            {currency === DEFAULT_CURRENCY ? (
+              <div className="flex items-center gap-3">
+                <input
+                  id="cashRounding"
+                  type="checkbox"
+                  checked={cashRounding}
+                  onChange={(e) => setCashRounding(e.target.checked)}
+                  disabled={!canEditContent}
+                  className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                />
+                <label htmlFor="cashRounding" className="text-sm font-semibold">
+                  {t("invoiceDetail.cashRoundingLabel")}
+                </label>
+              </div>
+            ) : null}
+
             <div className="panel-card text-sm invoice-total-text">
               <span className="font-semibold invoice-total-label">
                 {t("invoiceDetail.totalLabel")}
               </span>{" "}
-              {formatUiTotal(invoiceTotal)}
+              {formatUiTotal(amountDue)}
             </div>
           </div>
 
           <div className="mt-6 flex flex-col sm:flex-row gap-3">
-            {pdfDocument ? (
+            {pdfDocument && !invoiceIsDraft ? (
               <PDFDownloadLink
                 document={pdfDocument}
                 fileName={pdfFileName}
@@ -1793,32 +2384,103 @@ export function InvoiceDetailPage({
                 }
               </PDFDownloadLink>
             ) : null}
-            {!isEditing ? (
+            {invoice && !invoiceIsDraft ? (
               <>
                 <button
-                  onClick={handleDuplicate}
-                  disabled={isDuplicating}
-                  className="btn-success w-full sm:w-auto"
+                  onClick={handleIsdocExport}
+                  className="btn-secondary w-full sm:w-auto"
                 >
-                  {isDuplicating
-                    ? t("invoiceDetail.duplicating")
-                    : t("invoiceDetail.duplicate")}
+                  {t("invoiceDetail.isdocExport")}
                 </button>
                 <button
-                  onClick={() => setIsEditing(true)}
-                  className="btn-primary w-full sm:w-auto"
+                  onClick={handleIsdocxExport}
+                  disabled={isExportingIsdocx}
+                  className="btn-secondary w-full sm:w-auto"
                 >
-                  {t("common.edit")}
+                  {isExportingIsdocx
+                    ? t("invoiceDetail.isdocxExporting")
+                    : t("invoiceDetail.isdocxExport")}
                 </button>
                 <button
-                  onClick={handleDelete}
-                  disabled={isDeleting}
-                  className="btn-danger w-full sm:w-auto"
+                  onClick={handlePrepareEmail}
+                  disabled={isPreparingEmail}
+                  className="btn-secondary w-full sm:w-auto"
+                >
+                  {isPreparingEmail
+                    ? t("invoiceDetail.emailExporting")
+                    : t("invoiceDetail.emailExport")}
+                </button>
+              </>
+            ) : null}
+            {!isEditing ? (
+              <>
+                {!invoiceIsCreditNote ? (
+                  <button
+                    onClick={handleDuplicate}
+                    disabled={isDuplicating}
+                    className="btn-success w-full sm:w-auto"
+                  >
+                    {isDuplicating
+                      ? t("invoiceDetail.duplicating")
+                      : t("invoiceDetail.duplicate")}
+                  </button>
+                ) : null}
+                {invoiceIsProforma && !invoiceIsDraft ? (
+                  <button
+                    onClick={handleCreateFinalInvoice}
+                    disabled={isCreatingFinalInvoice}
+                    className="btn-success w-full sm:w-auto"
+                  >
+                    {isCreatingFinalInvoice
+                      ? t("invoiceDetail.finalInvoiceCreating")
+                      : t("invoiceDetail.finalInvoiceCreate")}
+                  </button>
+                ) : null}
+                {!invoiceIsCreditNote && !invoiceIsProforma ? (
+                  <button
+                    onClick={() => setIsRecurringFormOpen((open) => !open)}
+                    className="btn-secondary w-full sm:w-auto"
+                  >
+                    {t("invoiceDetail.recurringCreate")}
+                  </button>
+                ) : null}
+                {!invoiceIsCreditNote &&
+                !invoiceIsProforma &&
+                !invoiceIsDraft ? (
+                  <button
+                    onClick={handleCreateCreditNote}
+                    disabled={isCreatingCreditNote}
+                    className="btn-secondary w-full sm:w-auto"
+                  >
+                    {isCreatingCreditNote
+                      ? t("invoiceDetail.creditNoteCreating")
+                      : t("invoiceDetail.creditNoteCreate")}
+                  </button>
+                ) : null}
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="btn-primary w-full sm:w-auto"
                 >
-                  {isDeleting
-                    ? t("invoiceDetail.deleting")
-                    : t("common.delete")}
+                  {isLocked ? t("invoiceDetail.editPayment") : t("common.edit")}
                 </button>
+                {isLocked ? (
+                  <button
+                    onClick={handleForceUnlock}
+                    className="btn-secondary w-full sm:w-auto"
+                  >
+                    {t("invoiceDetail.forceUnlock")}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                    className="btn-danger w-full sm:w-auto"
+                  >
+                    {isDeleting
+                      ? t("invoiceDetail.deleting")
+                      : t("common.delete")}
+                  </button>
+                )}
               </>
             ) : (
               <>
@@ -1843,18 +2505,223 @@ export function InvoiceDetailPage({
                 >
                   {t("invoiceDetail.cancelEdits")}
                 </button>
-                <button
-                  onClick={handleDelete}
-                  disabled={isSaving || isDeleting}
-                  className="btn-danger w-full sm:w-auto"
-                >
-                  {isDeleting
-                    ? t("invoiceDetail.deleting")
-                    : t("common.delete")}
-                </button>
+                {invoiceIsDraft ? (
+                  <button
+                    onClick={handleDelete}
+                    disabled={isSaving || isDeleting}
+                    className="btn-danger w-full sm:w-auto"
+                  >
+                    {isDeleting
+                      ? t("invoiceDetail.deleting")
+                      : t("common.delete")}
+                  </button>
+                ) : null}
               </>
             )}
           </div>
+
+          {isRecurringFormOpen && !isEditing ? (
+            <div className="panel-card mt-6 space-y-4">
+              <p className="text-sm">{t("invoiceDetail.recurringHint")}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="recurringCadence" className="form-label">
+                    {t("invoiceDetail.recurringCadenceLabel")}
+                  </label>
+                  <select
+                    id="recurringCadence"
+                    value={recurringCadence}
+                    onChange={(e) =>
+                      setRecurringCadence(e.target.value as RecurringCadence)
+                    }
+                    className="form-select"
+                  >
+                    {RECURRING_CADENCES.map((cadence) => (
+                      <option key={cadence} value={cadence}>
+                        {t(`recurring.cadence.${cadence}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="recurringStartDate" className="form-label">
+                    {t("invoiceDetail.recurringStartLabel")}
+                  </label>
+                  <input
+                    id="recurringStartDate"
+                    type="date"
+                    value={recurringStartValue}
+                    onChange={(e) => setRecurringStartDate(e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  onClick={handleCreateRecurring}
+                  className="btn-primary w-full sm:w-auto"
+                >
+                  {t("invoiceDetail.recurringSave")}
+                </button>
+                <button
+                  onClick={() => setIsRecurringFormOpen(false)}
+                  className="btn-secondary w-full sm:w-auto"
+                >
+                  {t("common.cancel")}
+                </button>
+              </div>
+            </div>
+          ) : null}
+
+          {canRecordPayments && !isEditing ? (
+            <div className="panel-card mt-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <p className="section-title">
+                  {t("invoiceDetail.paymentsTitle")}
+                </p>
+                <p className="text-sm">
+                  {t("invoiceDetail.paymentsSummary", {
+                    paid: formatMoney(invoicePaid, invoiceCurrency, locale),
+                    total: formatMoney(invoicePayable, invoiceCurrency, locale),
+                  })}
+                  {invoiceCredited > 0
+                    ? ` · ${t("invoiceDetail.paymentsCredited", {
+                        amount: formatMoney(
+                          invoiceCredited,
+                          invoiceCurrency,
+                          locale,
+                        ),
+                      })}`
+                    : null}
+                </p>
+              </div>
+              {invoicePayments.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  {invoice?.paymentDate
+                    ? t("invoiceDetail.paymentsLegacy")
+                    : t("invoiceDetail.paymentsEmpty")}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {invoicePayments.map((payment) => (
+                    <div
+                      key={payment.id}
+                      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm"
+                    >
+                      <div>
+                        <div className="font-semibold">
+                          {formatMoney(
+                            payment.amount ?? 0,
+                            invoiceCurrency,
+                            locale,
+                          )}
+                        </div>
+                        <div>
+                          {[
+                            payment.paymentDate
+                              ? new Date(
+                                  payment.paymentDate,
+                                ).toLocaleDateString(locale)
+                              : null,
+                            t(
+                              `invoiceDetail.paymentMethods.${normalizePaymentMethod(payment.method)}`,
+                            ),
+                            payment.note,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleDeletePayment(payment.id)}
+                        className="btn-danger w-full sm:w-auto"
+                      >
+                        {t("common.delete")}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!invoice?.paymentDate && invoiceRemaining > 0 ? (
+                <>
+                  <p className="text-sm">
+                    {t("invoiceDetail.paymentsRemaining", {
+                      amount: formatMoney(
+                        invoiceRemaining,
+                        invoiceCurrency,
+                        locale,
+                      ),
+                    })}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="newPaymentDate" className="form-label">
+                        {t("invoiceDetail.paymentDateLabel")}
+                      </label>
+                      <input
+                        id="newPaymentDate"
+                        type="date"
+                        value={newPaymentDateValue}
+                        onChange={(e) => setNewPaymentDate(e.target.value)}
+                        className="form-input"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="newPaymentAmount" className="form-label">
+                        {t("invoiceDetail.paymentAmountLabel")}
+                      </label>
+                      <input
+                        id="newPaymentAmount"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={newPaymentAmountValue}
+                        onChange={(e) => setNewPaymentAmount(e.target.value)}
+                        className="form-input"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="newPaymentMethod" className="form-label">
+                        {t("invoiceDetail.paymentMethodLabel")}
+                      </label>
+                      <select
+                        id="newPaymentMethod"
+                        value={newPaymentMethodValue}
+                        onChange={(e) =>
+                          setNewPaymentMethod(e.target.value as PaymentMethod)
+                        }
+                        className="form-select"
+                      >
+                        {PAYMENT_METHODS.map((method) => (
+                          <option key={method} value={method}>
+                            {t(`invoiceDetail.paymentMethods.${method}`)}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="newPaymentNote" className="form-label">
+                        {t("invoiceDetail.paymentNoteLabel")}
+                      </label>
+                      <input
+                        id="newPaymentNote"
+                        type="text"
+                        value={newPaymentNote}
+                        onChange={(e) => setNewPaymentNote(e.target.value)}
+                        className="form-input"
+                      />
+                    </div>
+                  </div>
+                  <button
+                    onClick={handleRecordPayment}
+                    className="btn-success w-full sm:w-auto"
+                  >
+                    {t("invoiceDetail.paymentRecord")}
+                  </button>
+                </>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       </div>
     </div>
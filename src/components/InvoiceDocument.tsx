@@ -0,0 +1,902 @@
+import * as Evolu from "@evolu/common";
+import {
+  Document,
+  Image,
+  Page,
+  StyleSheet,
+  Text,
+  View,
+} from "@react-pdf/renderer";
+import { DEFAULT_CURRENCY, formatMoney } from "../currency";
+import type { createI18n } from "../i18n";
+import {
+  getInvoiceDueDate,
+  isZeroRatedVatRegime,
+  type DiscountType,
+  type InvoiceCustomer,
+  type InvoiceItem,
+  type InvoiceTotals,
+  type VatRegime,
+} from "../invoices";
+import { PDF_FONT_FAMILY } from "../pdfFonts";
+import type { PdfLayout, PdfTemplate } from "../pdfTemplate";
+
+type InvoiceDocumentProps = {
+  // Its own translations, so the PDF can be in another language than the UI.
+  i18n: ReturnType<typeof createI18n>;
+  title: string;
+  template: PdfTemplate;
+  supplier: {
+    name: string | null;
+    addressLine1?: string | null;
+    addressLine2?: string | null;
+    companyIdentificationNumber?: string | null;
+    vatNumber?: string | null;
+    bankAccount?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    invoiceFooterText?: string | null;
+  } | null;
+  customer: InvoiceCustomer | null;
+  invoice: {
+    issueDate: string | null;
+    duzp: string | null;
+    paymentDays: number | null;
+    paymentMethod: string | null;
+    purchaseOrderNumber: string | null;
+    correctedInvoiceNumber: string | null;
+    correctionReason: string | null;
+    invoicingNote: string | null;
+    btcInvoice: number | null;
+    btcAddress: string | null;
+  };
+  isProforma: boolean;
+  isCreditNote: boolean;
+  showVat: boolean;
+  items: readonly InvoiceItem[];
+  totals: InvoiceTotals;
+  discount: number | null;
+  discountType: DiscountType;
+  vatRegime: VatRegime;
+  currency: string;
+  exchangeRate: number | null;
+  variableSymbol: string;
+  qrCodeDataUrl: string | null;
+};
+
+const pdfStyles = StyleSheet.create({
+  page: {
+    padding: 40,
+    fontSize: 10,
+    fontFamily: PDF_FONT_FAMILY,
+    color: "#111827",
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+    marginBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 700,
+  },
+  headerLine: {
+    height: 2,
+    backgroundColor: "#6b7280",
+    marginBottom: 18,
+  },
+  columns: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 24,
+  },
+  column: {
+    flexGrow: 1,
+    flexBasis: 0,
+  },
+  label: {
+    fontSize: 9,
+    color: "#6b7280",
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  sectionTitle: {
+    fontSize: 10,
+    fontWeight: 600,
+    marginBottom: 8,
+  },
+  textBold: {
+    fontWeight: 700,
+  },
+  textMuted: {
+    color: "#6b7280",
+  },
+  detailRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 4,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#d1d5db",
+    paddingBottom: 6,
+    marginTop: 16,
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderBottomWidth: 0.5,
+    borderBottomColor: "#e5e7eb",
+  },
+  colQty: { width: "8%" },
+  colUnit: { width: "6%" },
+  colDesc: { width: "62%" },
+  colUnitPrice: { width: "12%", textAlign: "right" },
+  colTotal: { width: "12%", textAlign: "right" },
+  colDescVat: { width: "60%" },
+  // Adjusted widths for VAT payer columns ("Cena za MJ", "Cena bez DPH", "DPH (%)", "Cena s DPH")
+  colUnitPriceVat: { width: "12%", textAlign: "right" },
+  colTotalNoVat: { width: "12%", textAlign: "right" },
+  colVatPercent: { width: "6%", textAlign: "right" },
+  // colVatAmount is hidden for VAT payer
+  colTotalVat: { width: "10%", textAlign: "right" },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "baseline",
+    marginTop: 8,
+  },
+  totalLabel: {
+    fontSize: 12,
+    fontWeight: 700,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: 700,
+    marginLeft: 12,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginTop: 18,
+  },
+  qrBlock: {
+    width: 120,
+    alignItems: "flex-start",
+  },
+  qrImage: {
+    width: 110,
+    height: 110,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    padding: 6,
+  },
+  qrLabel: {
+    marginTop: 6,
+    fontSize: 9,
+    color: "#6b7280",
+  },
+  totalBlock: {
+    width: "50%",
+    alignItems: "flex-end",
+  },
+  vatRecap: {
+    width: "100%",
+    marginBottom: 8,
+  },
+  vatRecapHeader: {
+    flexDirection: "row",
+    borderBottomWidth: 0.5,
+    borderBottomColor: "#d1d5db",
+    paddingBottom: 2,
+    marginTop: 4,
+    fontSize: 9,
+    color: "#6b7280",
+  },
+  vatRecapRow: {
+    flexDirection: "row",
+    paddingVertical: 2,
+  },
+  vatRecapRate: { width: "16%" },
+  vatRecapCell: { width: "28%", textAlign: "right" },
+  vatRegimeNote: {
+    marginTop: 10,
+    fontWeight: 600,
+  },
+  btcNote: {
+    marginTop: 10,
+    alignItems: "flex-end",
+    width: "100%",
+  },
+  btcNoteText: {
+    fontSize: 11,
+    color: "#6b7280",
+    textAlign: "right",
+    width: "100%",
+  },
+  btcNoteAddress: {
+    fontSize: 11,
+    color: "#6b7280",
+    textAlign: "right",
+    width: "100%",
+    wordBreak: "break-all",
+  },
+  footerLine: {
+    height: 2,
+    backgroundColor: "#6b7280",
+    width: "100%",
+  },
+  footer: {
+    position: "absolute",
+    left: 40,
+    right: 40,
+    bottom: 32,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    color: "#6b7280",
+  },
+  footerLeft: {
+    width: "50%",
+    paddingRight: 8,
+  },
+  invoicingNote: {
+    marginTop: 12,
+    marginBottom: 8,
+    width: "100%",
+  },
+  footerRight: {
+    width: "50%",
+    textAlign: "right",
+  },
+  logo: {
+    maxWidth: 160,
+    maxHeight: 48,
+    objectFit: "contain",
+  },
+  signatureBlock: {
+    marginTop: 18,
+    alignItems: "flex-end",
+  },
+  signatureImage: {
+    maxWidth: 180,
+    maxHeight: 80,
+    objectFit: "contain",
+  },
+  signatureLabel: {
+    marginTop: 4,
+    fontSize: 9,
+    color: "#6b7280",
+  },
+});
+
+// Layout adjustments on top of pdfStyles; the accent colour is set inline.
+const noLayoutStyles = {
+  page: {},
+  headerRow: {},
+  headerTitle: {},
+  tableHeader: {},
+  tableHeadText: {},
+  tableRow: {},
+  footer: {},
+};
+
+const pdfLayoutStyles: Record<PdfLayout, typeof noLayoutStyles> = {
+  classic: noLayoutStyles,
+  modern: {
+    ...noLayoutStyles,
+    headerRow: {
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+      borderRadius: 4,
+      alignItems: "center",
+    },
+    headerTitle: { color: "#ffffff" },
+    tableHeader: { paddingTop: 6, paddingHorizontal: 4, borderBottomWidth: 0 },
+    tableHeadText: { color: "#ffffff" },
+    tableRow: { paddingHorizontal: 4 },
+  },
+  compact: {
+    ...noLayoutStyles,
+    page: { padding: 28, fontSize: 9 },
+    headerRow: { marginBottom: 10 },
+    headerTitle: { fontSize: 16 },
+    tableHeader: { marginTop: 10, paddingBottom: 4 },
+    tableRow: { paddingVertical: 3 },
+    footer: { left: 28, right: 28, bottom: 20 },
+  },
+};
+
+/** The invoice, credit note or proforma PDF (A4). */
+export function InvoiceDocument({
+  i18n,
+  title,
+  template,
+  supplier,
+  customer,
+  invoice,
+  isProforma,
+  isCreditNote,
+  showVat,
+  items,
+  totals,
+  discount,
+  discountType,
+  vatRegime,
+  currency,
+  exchangeRate,
+  variableSymbol,
+  qrCodeDataUrl,
+}: InvoiceDocumentProps) {
+  const { t, locale } = i18n;
+
+  const formatNumber = (value: number, maxFraction = 2) =>
+    new Intl.NumberFormat(locale, {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: maxFraction,
+    }).format(value);
+
+  const formatCurrency = (value: number) =>
+    formatMoney(value, currency, locale, {
+      min: Number.isInteger(value) ? 0 : 2,
+      max: Number.isInteger(value) ? 0 : 2,
+    });
+
+  const formatDiscount = (value: number, type?: DiscountType) =>
+    type === "amount" ? formatCurrency(value) : `${formatNumber(value, 2)} %`;
+
+  const formatDate = (value: Date | string | null) =>
+    value ? new Date(value).toLocaleDateString(locale).replace(/\s/g, "") : "";
+
+  const issueDate = formatDate(invoice.issueDate);
+  const duzpDate = formatDate(invoice.duzp);
+  const dueDate = formatDate(getInvoiceDueDate(invoice));
+  const displayClientName = customer?.name || t("common.placeholderDash");
+
+  const invoiceTotal = totals.base;
+  const totalVatAmount = totals.vat;
+  // The invoice discount with the VAT it takes off, for its own row.
+  const invoiceDiscountWithVat = totals.lines.reduce(
+    (sum, line) => sum + line.base + line.vat,
+    -(totals.base + totals.vat),
+  );
+  const amountDue = totals.total;
+
+  const layoutStyles = pdfLayoutStyles[template.layout];
+  const isModernLayout = template.layout === "modern";
+  const accentBackground = { backgroundColor: template.accentColor };
+  const accentText = { color: template.accentColor };
+  const showQr = !template.hiddenBlocks.has("qr");
+  const showBankDetails =
+    invoice.paymentMethod !== "cash" &&
+    !template.hiddenBlocks.has("bankDetails");
+  const showPurchaseOrder =
+    Boolean(invoice.purchaseOrderNumber?.trim()) &&
+    !template.hiddenBlocks.has("purchaseOrder");
+
+  return (
+    <Document>
+      <Page size="A4" style={[pdfStyles.page, layoutStyles.page]}>
+        <View
+          style={[
+            pdfStyles.headerRow,
+            layoutStyles.headerRow,
+            ...(isModernLayout ? [accentBackground] : []),
+          ]}
+        >
+          {template.logo ? (
+            <Image style={pdfStyles.logo} src={template.logo} />
+          ) : (
+            <Text />
+          )}
+          <Text style={[pdfStyles.headerTitle, layoutStyles.headerTitle]}>
+            {title}
+          </Text>
+        </View>
+        {!isModernLayout ? (
+          <View style={[pdfStyles.headerLine, accentBackground]} />
+        ) : null}
+
+        <View style={pdfStyles.columns}>
+          <View style={pdfStyles.column}>
+            <Text style={[pdfStyles.label, accentText]}>
+              {t("pdf.supplier")}
+            </Text>
+            <Text style={pdfStyles.textBold}>{supplier?.name ?? ""}</Text>
+            <Text style={pdfStyles.textMuted}>
+              {supplier?.addressLine1 ?? ""}
+            </Text>
+            <Text style={pdfStyles.textMuted}>
+              {supplier?.addressLine2 ?? ""}
+            </Text>
+            <View style={{ marginTop: 6 }}>
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>{t("pdf.companyId")}</Text>
+                <Text>{supplier?.companyIdentificationNumber ?? ""}</Text>
+              </View>
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>
+                  {supplier?.vatNumber
+                    ? t("pdf.vatIdOrNonVat")
+                    : t("pdf.nonVatPayer")}
+                </Text>
+                <Text>{supplier?.vatNumber ?? ""}</Text>
+              </View>
+            </View>
+          </View>
+
+          <View style={pdfStyles.column}>
+            <Text style={[pdfStyles.label, accentText]}>
+              {t("pdf.customer")}
+            </Text>
+            <Text style={pdfStyles.textBold}>{displayClientName}</Text>
+            <Text style={pdfStyles.textMuted}>
+              {customer?.addressLine1 ?? ""}
+            </Text>
+            <Text style={pdfStyles.textMuted}>
+              {customer?.addressLine2 ?? ""}
+            </Text>
+            <View style={{ marginTop: 6 }}>
+              {customer?.companyIdentificationNumber ? (
+                <View style={pdfStyles.detailRow}>
+                  <Text style={pdfStyles.textMuted}>{t("pdf.companyId")}</Text>
+                  <Text>{customer.companyIdentificationNumber}</Text>
+                </View>
+              ) : null}
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>
+                  {customer?.vatNumber
+                    ? t("pdf.vatIdOrNonVat")
+                    : t("pdf.nonVatPayer")}
+                </Text>
+                <Text>{customer?.vatNumber ?? ""}</Text>
+              </View>
+            </View>
+          </View>
+        </View>
+
+        <View style={{ marginTop: 18 }}>
+          <View style={pdfStyles.columns}>
+            <View style={pdfStyles.column}>
+              {showBankDetails ? (
+                <>
+                  <View style={pdfStyles.detailRow}>
+                    <Text style={pdfStyles.textMuted}>
+                      {t("pdf.bankAccount")}
+                    </Text>
+                    <Text>{supplier?.bankAccount ?? ""}</Text>
+                  </View>
+                  <View style={pdfStyles.detailRow}>
+                    <Text style={pdfStyles.textMuted}>
+                      {t("pdf.variableSymbol")}
+                    </Text>
+                    <Text>{variableSymbol}</Text>
+                  </View>
+                </>
+              ) : null}
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>
+                  {t("pdf.paymentMethod")}
+                </Text>
+                <Text>
+                  {invoice.paymentMethod === "cash"
+                    ? t("pdf.paymentCash")
+                    : t("pdf.paymentBank")}
+                </Text>
+              </View>
+            </View>
+            <View style={pdfStyles.column}>
+              {showPurchaseOrder ? (
+                <View style={pdfStyles.detailRow}>
+                  <Text style={pdfStyles.textMuted}>
+                    {t("pdf.purchaseOrderNumber")}
+                  </Text>
+                  <Text>{invoice.purchaseOrderNumber}</Text>
+                </View>
+              ) : null}
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>{t("pdf.issueDate")}</Text>
+                <Text>{issueDate}</Text>
+              </View>
+              <View style={pdfStyles.detailRow}>
+                <Text style={pdfStyles.textMuted}>{t("pdf.dueDate")}</Text>
+                <Text>{dueDate}</Text>
+              </View>
+              {duzpDate && !isProforma ? (
+                <View style={pdfStyles.detailRow}>
+                  <Text style={pdfStyles.textMuted}>{t("pdf.duzpDate")}</Text>
+                  <Text>{duzpDate}</Text>
+                </View>
+              ) : null}
+            </View>
+          </View>
+        </View>
+
+        {isProforma ? (
+          <View style={pdfStyles.invoicingNote}>
+            <Text style={pdfStyles.textBold}>{t("pdf.proformaNotice")}</Text>
+          </View>
+        ) : null}
+
+        {isCreditNote ? (
+          <View style={pdfStyles.invoicingNote}>
+            <Text>
+              {t("pdf.creditNoteReference", {
+                number:
+                  invoice.correctedInvoiceNumber || t("common.placeholderDash"),
+              })}
+            </Text>
+            {invoice.correctionReason?.trim() ? (
+              <Text>
+                {t("pdf.creditNoteReason", {
+                  reason: invoice.correctionReason,
+                })}
+              </Text>
+            ) : null}
+          </View>
+        ) : null}
+
+        {invoice.invoicingNote && invoice.invoicingNote.trim() ? (
+          <View style={pdfStyles.invoicingNote}>
+            <Text>{invoice.invoicingNote}</Text>
+          </View>
+        ) : null}
+
+        <View
+          style={[
+            pdfStyles.tableHeader,
+            layoutStyles.tableHeader,
+            ...(isModernLayout ? [accentBackground] : []),
+          ]}
+        >
+          <Text
+            style={[
+              pdfStyles.colQty,
+              pdfStyles.textMuted,
+              layoutStyles.tableHeadText,
+            ]}
+          >
+            {t("pdf.tableQty")}
+          </Text>
+          <Text
+            style={[
+              pdfStyles.colUnit,
+              pdfStyles.textMuted,
+              layoutStyles.tableHeadText,
+            ]}
+          >
+            {t("pdf.tableUnit")}
+          </Text>
+          <Text
+            style={[
+              showVat ? pdfStyles.colDescVat : pdfStyles.colDesc,
+              pdfStyles.textMuted,
+              layoutStyles.tableHeadText,
+            ]}
+          >
+            {t("pdf.tableDescription")}
+          </Text>
+          <Text
+            style={[
+              showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice,
+              pdfStyles.textMuted,
+              layoutStyles.tableHeadText,
+            ]}
+          >
+            {t("pdf.tableUnitPrice")}
+          </Text>
+          {showVat ? (
+            <>
+              <Text
+                style={[
+                  pdfStyles.colTotalNoVat,
+                  pdfStyles.textMuted,
+                  layoutStyles.tableHeadText,
+                ]}
+              >
+                {t("pdf.tableTotalNoVat")}
+              </Text>
+              <Text
+                style={[
+                  pdfStyles.colVatPercent,
+                  pdfStyles.textMuted,
+                  layoutStyles.tableHeadText,
+                ]}
+              >
+                {t("pdf.tableVat")}
+              </Text>
+              {/* DPH column hidden for VAT payer */}
+              <Text
+                style={[
+                  pdfStyles.colTotalVat,
+                  pdfStyles.textMuted,
+                  layoutStyles.tableHeadText,
+                ]}
+              >
+                {t("pdf.tableTotalVat")}
+              </Text>
+            </>
+          ) : (
+            <Text
+              style={[
+                pdfStyles.colTotal,
+                pdfStyles.textMuted,
+                layoutStyles.tableHeadText,
+              ]}
+            >
+              {t("pdf.tableTotal")}
+            </Text>
+          )}
+        </View>
+
+        {items.map((item, index) => {
+          const unitPrice = Number(item.unitPrice) || 0;
+          const line = totals.lines[index];
+          const vatPercent = line?.vatRate ?? 0;
+          const lineTotal = line?.base ?? 0;
+          const lineTotalWithVat = lineTotal + (line?.vat ?? 0);
+
+          return (
+            <View
+              style={[pdfStyles.tableRow, layoutStyles.tableRow]}
+              key={`${item.description}-${index}`}
+            >
+              <Text style={pdfStyles.colQty}>
+                {item.amount ? formatNumber(Number(item.amount)) : ""}
+              </Text>
+              <Text style={pdfStyles.colUnit}>{item.unit}</Text>
+              <Text style={showVat ? pdfStyles.colDescVat : pdfStyles.colDesc}>
+                {item.description}
+                {line?.discount
+                  ? `\n${t("pdf.itemDiscount", {
+                      discount: formatDiscount(
+                        item.discount ?? 0,
+                        item.discountType,
+                      ),
+                    })}`
+                  : ""}
+              </Text>
+              <Text
+                style={
+                  showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice
+                }
+              >
+                {formatCurrency(unitPrice)}
+              </Text>
+              {showVat ? (
+                <>
+                  <Text style={pdfStyles.colTotalNoVat}>
+                    {formatCurrency(lineTotal)}
+                  </Text>
+                  <Text style={pdfStyles.colVatPercent}>
+                    {vatPercent ? formatNumber(vatPercent, 2) : ""}
+                  </Text>
+                  {/* DPH column hidden for VAT payer */}
+                  <Text style={pdfStyles.colTotalVat}>
+                    {formatCurrency(lineTotalWithVat)}
+                  </Text>
+                </>
+              ) : (
+                <Text style={pdfStyles.colTotal}>
+                  {formatCurrency(lineTotal)}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+
+        {totals.invoiceDiscount ? (
+          <View style={[pdfStyles.tableRow, layoutStyles.tableRow]}>
+            <Text style={pdfStyles.colQty} />
+            <Text style={pdfStyles.colUnit} />
+            <Text style={showVat ? pdfStyles.colDescVat : pdfStyles.colDesc}>
+              {t("pdf.invoiceDiscount", {
+                discount: formatDiscount(discount ?? 0, discountType),
+              })}
+            </Text>
+            <Text
+              style={
+                showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice
+              }
+            />
+            {showVat ? (
+              <>
+                <Text style={pdfStyles.colTotalNoVat}>
+                  {formatCurrency(-totals.invoiceDiscount)}
+                </Text>
+                <Text style={pdfStyles.colVatPercent} />
+                <Text style={pdfStyles.colTotalVat}>
+                  {formatCurrency(-invoiceDiscountWithVat)}
+                </Text>
+              </>
+            ) : (
+              <Text style={pdfStyles.colTotal}>
+                {formatCurrency(-totals.invoiceDiscount)}
+              </Text>
+            )}
+          </View>
+        ) : null}
+
+        {totals.rounding ? (
+          <View style={[pdfStyles.tableRow, layoutStyles.tableRow]}>
+            <Text style={pdfStyles.colQty} />
+            <Text style={pdfStyles.colUnit} />
+            <Text style={showVat ? pdfStyles.colDescVat : pdfStyles.colDesc}>
+              {t("pdf.rounding")}
+            </Text>
+            <Text
+              style={
+                showVat ? pdfStyles.colUnitPriceVat : pdfStyles.colUnitPrice
+              }
+            />
+            {showVat ? (
+              <>
+                <Text style={pdfStyles.colTotalNoVat} />
+                <Text style={pdfStyles.colVatPercent} />
+                <Text style={pdfStyles.colTotalVat}>
+                  {formatCurrency(totals.rounding)}
+                </Text>
+              </>
+            ) : (
+              <Text style={pdfStyles.colTotal}>
+                {formatCurrency(totals.rounding)}
+              </Text>
+            )}
+          </View>
+        ) : null}
+
+        <View style={pdfStyles.summaryRow}>
+          {showQr && qrCodeDataUrl ? (
+            <View style={pdfStyles.qrBlock}>
+              <Image style={pdfStyles.qrImage} src={qrCodeDataUrl} />
+              <Text style={pdfStyles.qrLabel}>
+                {invoice.btcInvoice === Evolu.sqliteTrue
+                  ? t("pdf.qrPaymentBtc")
+                  : t("pdf.qrPayment")}
+              </Text>
+            </View>
+          ) : (
+            <View />
+          )}
+          <View style={pdfStyles.totalBlock}>
+            {showVat && totals.vatRates.length > 0 ? (
+              <View style={pdfStyles.vatRecap}>
+                <Text style={[pdfStyles.label, accentText]}>
+                  {t("pdf.vatRecap")}
+                </Text>
+                <View style={pdfStyles.vatRecapHeader}>
+                  <Text style={pdfStyles.vatRecapRate}>
+                    {t("pdf.vatRecapRate")}
+                  </Text>
+                  <Text style={pdfStyles.vatRecapCell}>
+                    {t("pdf.vatRecapBase")}
+                  </Text>
+                  <Text style={pdfStyles.vatRecapCell}>
+                    {t("pdf.vatRecapVat")}
+                  </Text>
+                  <Text style={pdfStyles.vatRecapCell}>
+                    {t("pdf.vatRecapTotal")}
+                  </Text>
+                </View>
+                {totals.vatRates.map((rate) => (
+                  <View key={rate.vatRate} style={pdfStyles.vatRecapRow}>
+                    <Text style={pdfStyles.vatRecapRate}>
+                      {formatNumber(rate.vatRate)} %
+                    </Text>
+                    <Text style={pdfStyles.vatRecapCell}>
+                      {formatCurrency(rate.base)}
+                    </Text>
+                    <Text style={pdfStyles.vatRecapCell}>
+                      {formatCurrency(rate.vat)}
+                    </Text>
+                    <Text style={pdfStyles.vatRecapCell}>
+                      {formatCurrency(rate.total)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ) : null}
+            <View style={pdfStyles.totalRow}>
+              <View style={{ alignItems: "flex-end" }}>
+                {showVat ? (
+                  <>
+                    <View
+                      style={{
+                        flexDirection: "row",
+                        alignItems: "baseline",
+                        gap: 6,
+                        marginBottom: 2,
+                      }}
+                    >
+                      <Text style={pdfStyles.textMuted}>
+                        {t("pdf.totalNoVat")}
+                      </Text>
+                      <Text style={pdfStyles.textMuted}>
+                        {formatCurrency(invoiceTotal)}
+                      </Text>
+                    </View>
+                    <View
+                      style={{
+                        flexDirection: "row",
+                        alignItems: "baseline",
+                        gap: 6,
+                        marginBottom: 6,
+                      }}
+                    >
+                      <Text style={pdfStyles.textMuted}>
+                        {t("pdf.totalVat")}
+                      </Text>
+                      <Text style={pdfStyles.textMuted}>
+                        {formatCurrency(totalVatAmount)}
+                      </Text>
+                    </View>
+                  </>
+                ) : null}
+              </View>
+            </View>
+            <View style={[pdfStyles.footerLine, accentBackground]} />
+            <View style={pdfStyles.totalRow}>
+              <View style={{ alignItems: "flex-end" }}>
+                <Text style={pdfStyles.totalValue}>
+                  {t("pdf.total")} {formatCurrency(amountDue)}
+                </Text>
+              </View>
+            </View>
+            {exchangeRate ? (
+              <View style={{ alignItems: "flex-end", marginTop: 6 }}>
+                <Text style={pdfStyles.textMuted}>
+                  {t("pdf.exchangeRate", {
+                    currency: currency,
+                    rate: formatNumber(exchangeRate, 3),
+                  })}
+                </Text>
+                {showVat && !isProforma ? (
+                  <Text style={pdfStyles.textMuted}>
+                    {t("pdf.totalVatCzk")}{" "}
+                    {formatMoney(
+                      totalVatAmount * exchangeRate,
+                      DEFAULT_CURRENCY,
+                      locale,
+                    )}
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
+          </View>
+        </View>
+        {isZeroRatedVatRegime(vatRegime) ? (
+          <Text style={pdfStyles.vatRegimeNote}>
+            {t(`pdf.vatRegimeNote.${vatRegime}`)}
+          </Text>
+        ) : null}
+        {invoice.btcInvoice === Evolu.sqliteTrue ? (
+          <View style={pdfStyles.btcNote}>
+            <Text style={pdfStyles.btcNoteText}>{t("pdf.btcNote")}</Text>
+            <Text
+              style={pdfStyles.btcNoteAddress}
+              hyphenationCallback={(word) => [word]}
+            >
+              {invoice.btcAddress ?? ""}
+            </Text>
+          </View>
+        ) : null}
+        {template.signature ? (
+          <View style={pdfStyles.signatureBlock} wrap={false}>
+            <Image style={pdfStyles.signatureImage} src={template.signature} />
+            <Text style={pdfStyles.signatureLabel}>{t("pdf.signature")}</Text>
+          </View>
+        ) : null}
+        <View style={[pdfStyles.footer, layoutStyles.footer]}>
+          <View style={pdfStyles.footerLeft}>
+            <Text>{supplier?.invoiceFooterText ?? ""}</Text>
+          </View>
+          <Text style={pdfStyles.footerRight}>
+            {[supplier?.email, supplier?.phone].filter(Boolean).join(" | ")}
+          </Text>
+        </View>
+      </Page>
+    </Document>
+  );
+}
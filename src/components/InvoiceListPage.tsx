@@ -2,13 +2,31 @@ import { use, useEffect, useMemo, useState } from "react";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
 import { useEvolu } from "../evolu";
+import {
+  addToCurrencyTotals,
+  formatCurrencyTotals,
+  formatMoney,
+  type CurrencyTotals,
+} from "../currency";
 import { useI18n } from "../i18n";
-
-type InvoiceItem = {
-  amount?: number;
-  unitPrice?: number;
-  description?: string;
-};
+import {
+  applyCreditNotes,
+  getInvoiceTotal,
+  getInvoiceStatus,
+  isCreditNote,
+  isInvoiceOverdue,
+  isDraftInvoice,
+  isProforma,
+  type InvoiceStatus,
+} from "../invoices";
+import {
+  getOutstandingShare,
+  getPaidAmounts,
+  getRemainingAmount,
+  normalizePaymentMethod,
+  settleInvoicePayment,
+} from "../payments";
+import { addCadence, isRecurringRunDue, normalizeCadence } from "../recurring";
 
 type InvoiceRow = {
   id: string;
@@ -17,27 +35,48 @@ type InvoiceRow = {
   issueDate: string | null;
   paymentDate?: string | null;
   paymentDays: number | null;
+  paymentMethod?: string | null;
   btcInvoice?: number | null;
+  currency?: string | null;
+  documentType?: string | null;
+  correctedInvoiceId?: string | null;
+  draft?: number | null;
   items: unknown;
+  discount?: number | null;
+  discountType?: string | null;
+  cashRounding?: number | null;
+  vatRegime?: string | null;
+  paidAmount?: number;
+  creditedAmount?: number;
+};
+
+type RecurringInvoiceRow = {
+  id: string;
+  clientId: string | null;
+  items: unknown;
+  discount: number | null;
+  discountType: string | null;
+  cashRounding: number | null;
+  vatRegime: string | null;
+  currency: string | null;
+  cadence: string | null;
+  nextRunDate: string | null;
+  paused: number | null;
 };
 
 type InvoiceListPageProps = {
   onCreateInvoice: () => void;
+  onImportStatement: () => void;
+  onOpenReminders: () => void;
   onViewDetails: (invoiceId: string) => void;
 };
 
-const parseItems = (raw: unknown): InvoiceItem[] => {
-  if (!raw) return [];
-  if (Array.isArray(raw)) return raw as InvoiceItem[];
-  if (typeof raw === "string") {
-    try {
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? (parsed as InvoiceItem[]) : [];
-    } catch {
-      return [];
-    }
-  }
-  return [];
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  paid: "invoicesList.statusPaid",
+  partial: "invoicesList.statusPartial",
+  overdue: "invoicesList.statusOverdue",
+  unpaid: "invoicesList.statusUnpaid",
+  credited: "invoicesList.statusCredited",
 };
 
 const formatDate = (
@@ -53,35 +92,12 @@ const formatDate = (
 
 const formatTotal = (
   value: number,
+  currency: string | null | undefined,
   locale: string,
   fallback: string,
 ): string => {
   if (!Number.isFinite(value)) return fallback;
-  return new Intl.NumberFormat(locale, {
-    style: "currency",
-    currency: "CZK",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value);
-};
-
-const getInvoiceStatus = (
-  invoice: InvoiceRow,
-): "paid" | "overdue" | "unpaid" => {
-  if (invoice.paymentDate) return "paid";
-  if (!invoice.issueDate) return "unpaid";
-  const issueDate = new Date(invoice.issueDate);
-  if (!Number.isNaN(issueDate.getTime())) {
-    const dueDate = new Date(issueDate);
-    const days = Number(invoice.paymentDays ?? 0);
-    if (Number.isFinite(days)) {
-      dueDate.setDate(dueDate.getDate() + days);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (dueDate < today) return "overdue";
-    }
-  }
-  return "unpaid";
+  return formatMoney(value, currency, locale);
 };
 
 const getYear = (iso: string | null): number | null => {
@@ -93,6 +109,8 @@ const getYear = (iso: string | null): number | null => {
 
 export function InvoiceListPage({
   onCreateInvoice,
+  onImportStatement,
+  onOpenReminders,
   onViewDetails,
 }: InvoiceListPageProps) {
   const { t, locale } = useI18n();
@@ -102,6 +120,7 @@ export function InvoiceListPage({
   const [selectedYear, setSelectedYear] = useState<number | null>(null);
   const [statusFilters, setStatusFilters] = useState({
     unpaid: true,
+    partial: true,
     overdue: true,
     paid: true,
   });
@@ -110,22 +129,52 @@ export function InvoiceListPage({
     nonBitcoin: true,
   });
 
-  const handleMarkPayment = (invoiceId: string) => {
-    const paymentDateResult = Evolu.dateToDateIso(new Date());
-    if (!paymentDateResult.ok) {
-      console.error("Payment date error:", paymentDateResult.error);
-      alert(t("invoicesList.alertPaymentDateError"));
+  const handleToggleRecurringPaused = (schedule: RecurringInvoiceRow) => {
+    if (schedule.paused !== Evolu.sqliteTrue) {
+      const result = evolu.update("recurringInvoice", {
+        id: schedule.id,
+        paused: Evolu.sqliteTrue,
+      });
+      if (!result.ok) {
+        console.error("Recurring invoice update error:", result.error);
+        alert(t("invoicesList.alertRecurringUpdateError"));
+      }
+      return;
+    }
+
+    // Runs missed while paused are skipped rather than generated at once.
+    const cadence = normalizeCadence(schedule.cadence);
+    let nextRunDate = schedule.nextRunDate ?? "";
+    while (nextRunDate && isRecurringRunDue(nextRunDate)) {
+      nextRunDate = addCadence(nextRunDate, cadence);
+    }
+    const nextRunDateResult = Evolu.dateToDateIso(new Date(nextRunDate));
+    if (!nextRunDateResult.ok) {
+      console.error("Recurring next run error:", nextRunDateResult.error);
+      alert(t("invoicesList.alertRecurringUpdateError"));
       return;
     }
 
-    const result = evolu.update("invoice", {
-      id: invoiceId,
-      paymentDate: paymentDateResult.value,
+    const result = evolu.update("recurringInvoice", {
+      id: schedule.id,
+      paused: Evolu.sqliteFalse,
+      nextRunDate: nextRunDateResult.value,
     });
+    if (!result.ok) {
+      console.error("Recurring invoice update error:", result.error);
+      alert(t("invoicesList.alertRecurringUpdateError"));
+    }
+  };
 
+  const handleDeleteRecurring = (scheduleId: string) => {
+    if (!confirm(t("invoicesList.recurringDeleteConfirm"))) return;
+    const result = evolu.update("recurringInvoice", {
+      id: scheduleId,
+      deleted: Evolu.sqliteTrue,
+    });
     if (!result.ok) {
-      console.error("Payment update error:", result.error);
-      alert(t("invoicesList.alertPaymentUpdateError"));
+      console.error("Recurring invoice delete error:", result.error);
+      alert(t("invoicesList.alertRecurringUpdateError"));
     }
   };
 
@@ -141,8 +190,17 @@ export function InvoiceListPage({
             "issueDate",
             "paymentDate",
             "paymentDays",
+            "paymentMethod",
             "btcInvoice",
+            "currency",
+            "documentType",
+            "correctedInvoiceId",
+            "draft",
             "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
           ])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
@@ -152,7 +210,96 @@ export function InvoiceListPage({
     [evolu, owner.id],
   );
 
-  const invoices = useQuery(invoicesQuery) as readonly InvoiceRow[];
+  const invoiceRows = useQuery(invoicesQuery) as readonly InvoiceRow[];
+
+  const paymentsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("payment")
+          .select(["id", "invoiceId", "paymentDate", "amount"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const payments = useQuery(paymentsQuery);
+
+  const profileQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .select(["discreteMode", "vatPayer"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    [evolu, owner.id],
+  );
+
+  const profileRows = useQuery(profileQuery);
+  const isDiscreteMode = profileRows[0]?.discreteMode === Evolu.sqliteTrue;
+  const isVatPayer = profileRows[0]?.vatPayer === Evolu.sqliteTrue;
+
+  const invoices = useMemo(() => {
+    const paidAmounts = getPaidAmounts(payments);
+    return applyCreditNotes(
+      invoiceRows.map((invoice) => ({
+        ...invoice,
+        paidAmount: paidAmounts.get(invoice.id) ?? 0,
+      })),
+      { withVat: isVatPayer },
+    );
+  }, [invoiceRows, payments, isVatPayer]);
+
+  const recurringQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("recurringInvoice")
+          .select([
+            "id",
+            "clientId",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
+            "currency",
+            "cadence",
+            "nextRunDate",
+            "paused",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue)
+          .orderBy("nextRunDate", "asc"),
+      ),
+    [evolu, owner.id],
+  );
+
+  const recurringInvoices = useQuery(
+    recurringQuery,
+  ) as readonly RecurringInvoiceRow[];
+
+  const clientsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("client")
+          .select(["id", "name"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const clients = useQuery(clientsQuery);
+  const draftCount = invoices.filter(isDraftInvoice).length;
 
   const availableYears = useMemo(() => {
     const years = new Set<number>();
@@ -173,76 +320,114 @@ export function InvoiceListPage({
     }
   }, [availableYears, selectedYear]);
 
-  const profileQuery = useMemo(
-    () =>
-      evolu.createQuery((db) =>
-        db
-          .selectFrom("userProfile")
-          .select(["discreteMode"])
-          .where("ownerId", "=", owner.id)
-          .where("isDeleted", "is not", Evolu.sqliteTrue)
-          .orderBy("updatedAt", "desc")
-          .limit(1),
-      ),
-    [evolu, owner.id],
-  );
+  const handleMarkPayment = (invoice: InvoiceRow) => {
+    const paymentDateResult = Evolu.dateToDateIso(new Date());
+    if (!paymentDateResult.ok) {
+      console.error("Payment date error:", paymentDateResult.error);
+      alert(t("invoicesList.alertPaymentDateError"));
+      return;
+    }
 
-  const profileRows = useQuery(profileQuery);
-  const isDiscreteMode = profileRows[0]?.discreteMode === Evolu.sqliteTrue;
+    // Credit notes are refunds; there is no payment to record against them.
+    if (isCreditNote(invoice)) {
+      const result = evolu.update("invoice", {
+        id: invoice.id,
+        paymentDate: paymentDateResult.value,
+      });
+      if (!result.ok) {
+        console.error("Payment update error:", result.error);
+        alert(t("invoicesList.alertPaymentUpdateError"));
+      }
+      return;
+    }
+
+    // Invoices are paid net of the credit notes that correct them.
+    const recorded = settleInvoicePayment(
+      evolu,
+      {
+        id: invoice.id,
+        payable:
+          getInvoiceTotal(invoice, { withVat: isVatPayer }) -
+          (invoice.creditedAmount ?? 0),
+        payments: payments.filter(
+          (payment) => payment.invoiceId === invoice.id,
+        ),
+      },
+      paymentDateResult.value,
+      normalizePaymentMethod(invoice.paymentMethod),
+    );
+    if (!recorded) alert(t("invoicesList.alertPaymentUpdateError"));
+  };
 
   const currentYear = new Date().getFullYear();
   const stats = invoices.reduce(
     (acc, invoice) => {
-      const items = parseItems(invoice.items);
-      const total = items.reduce((sum, item) => {
-        const amount = Number(item.amount ?? 0);
-        const unitPrice = Number(item.unitPrice ?? 0);
-        if (!Number.isFinite(amount) || !Number.isFinite(unitPrice)) return sum;
-        return sum + amount * unitPrice;
-      }, 0);
+      // Drafts are not issued yet, so they are not revenue or receivables.
+      if (isDraftInvoice(invoice)) return acc;
+      const total = getInvoiceTotal(invoice);
 
       const status = getInvoiceStatus(invoice);
       const year = getYear(invoice.issueDate);
-
-      if (year === currentYear) {
-        acc.year.count += 1;
-        acc.year.total += total;
-        if (status === "paid") {
-          acc.paidYear.count += 1;
-          acc.paidYear.total += total;
+      // Credit notes have negative totals and net against the invoices they
+      // correct; only invoices are counted. Unpaid proformas are owed but not
+      // yet invoiced, so they stay out of the year's revenue.
+      const creditNote = isCreditNote(invoice);
+      const pendingProforma = isProforma(invoice) && status !== "paid";
+
+      const add = (
+        stat: { count: number; totals: CurrencyTotals },
+        amount = total,
+      ) => {
+        if (!creditNote) stat.count += 1;
+        if (Number.isFinite(amount)) {
+          addToCurrencyTotals(stat.totals, invoice.currency, amount);
         }
+      };
+
+      if (year === currentYear && !pendingProforma) {
+        add(acc.year);
+        // Settled by credit notes counts as paid, so the pair nets to zero.
+        if (status === "paid" || status === "credited") add(acc.paidYear);
       }
 
-      if (status === "unpaid") {
-        acc.unpaid.count += 1;
-        acc.unpaid.total += total;
-      } else if (status === "overdue") {
-        acc.unpaid.count += 1;
-        acc.unpaid.total += total;
-        acc.overdue.count += 1;
-        acc.overdue.total += total;
+      // Receivables count only what is still owed after partial payments
+      // and credit notes.
+      if (status !== "paid" && status !== "credited") {
+        const outstanding = getOutstandingShare(
+          total,
+          getInvoiceTotal(invoice, { withVat: isVatPayer }),
+          invoice.paidAmount,
+          invoice.creditedAmount,
+        );
+        add(acc.unpaid, outstanding);
+        if (status === "partial") add(acc.partial, outstanding);
+        if (isInvoiceOverdue(invoice)) add(acc.overdue, outstanding);
       }
 
       return acc;
     },
     {
-      year: { count: 0, total: 0 },
-      unpaid: { count: 0, total: 0 },
-      overdue: { count: 0, total: 0 },
-      paidYear: { count: 0, total: 0 },
+      year: { count: 0, totals: {} as CurrencyTotals },
+      unpaid: { count: 0, totals: {} as CurrencyTotals },
+      partial: { count: 0, totals: {} as CurrencyTotals },
+      overdue: { count: 0, totals: {} as CurrencyTotals },
+      paidYear: { count: 0, totals: {} as CurrencyTotals },
     },
   );
 
   const filteredInvoices = useMemo(() => {
     return invoices.filter((invoice) => {
       const status = getInvoiceStatus(invoice);
-      if (status === "paid" && !statusFilters.paid) return false;
+      // Invoices cancelled by credit notes are settled, like paid ones.
+      if ((status === "paid" || status === "credited") && !statusFilters.paid)
+        return false;
       if (
         status === "overdue" &&
         !(statusFilters.overdue || statusFilters.unpaid)
       )
         return false;
       if (status === "unpaid" && !statusFilters.unpaid) return false;
+      if (status === "partial" && !statusFilters.partial) return false;
 
       const isBtcInvoice = invoice.btcInvoice === Evolu.sqliteTrue;
       if (isBtcInvoice && !typeFilters.bitcoin) return false;
@@ -266,16 +451,32 @@ export function InvoiceListPage({
               <p className="section-title">{t("invoicesList.sectionTitle")}</p>
               <h1 className="page-title">{t("invoicesList.title")}</h1>
             </div>
-            <button
-              onClick={onCreateInvoice}
-              className="btn-primary w-full sm:w-auto"
-            >
-              {t("invoicesList.create")}
-            </button>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              {stats.overdue.count > 0 ? (
+                <button
+                  onClick={onOpenReminders}
+                  className="btn-secondary w-full sm:w-auto"
+                >
+                  {t("invoicesList.reminders")}
+                </button>
+              ) : null}
+              <button
+                onClick={onImportStatement}
+                className="btn-secondary w-full sm:w-auto"
+              >
+                {t("invoicesList.importStatement")}
+              </button>
+              <button
+                onClick={onCreateInvoice}
+                className="btn-primary w-full sm:w-auto"
+              >
+                {t("invoicesList.create")}
+              </button>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
-            <div className="stat-card">
+            <div className="stat-card sm:col-span-2">
               <div className="section-title">{t("invoicesList.statYear")}</div>
               <div className="mt-2 text-lg font-semibold stat-count">
                 {stats.year.count}
@@ -284,11 +485,7 @@ export function InvoiceListPage({
                 {t("invoicesList.statPrefix")}{" "}
                 {isDiscreteMode
                   ? t("common.discreteMask")
-                  : formatTotal(
-                      stats.year.total,
-                      locale,
-                      t("invoicesList.currencyFallback"),
-                    )}
+                  : formatCurrencyTotals(stats.year.totals, locale)}
               </div>
             </div>
             <div className="stat-card">
@@ -302,11 +499,21 @@ export function InvoiceListPage({
                 {t("invoicesList.statPrefix")}{" "}
                 {isDiscreteMode
                   ? t("common.discreteMask")
-                  : formatTotal(
-                      stats.unpaid.total,
-                      locale,
-                      t("invoicesList.currencyFallback"),
-                    )}
+                  : formatCurrencyTotals(stats.unpaid.totals, locale)}
+              </div>
+            </div>
+            <div className="stat-card">
+              <div className="section-title">
+                {t("invoicesList.statPartial")}
+              </div>
+              <div className="mt-2 text-lg font-semibold stat-count">
+                {stats.partial.count}
+              </div>
+              <div className="text-sm stat-sum">
+                {t("invoicesList.statPrefix")}{" "}
+                {isDiscreteMode
+                  ? t("common.discreteMask")
+                  : formatCurrencyTotals(stats.partial.totals, locale)}
               </div>
             </div>
             <div className="stat-card">
@@ -320,11 +527,7 @@ export function InvoiceListPage({
                 {t("invoicesList.statPrefix")}{" "}
                 {isDiscreteMode
                   ? t("common.discreteMask")
-                  : formatTotal(
-                      stats.overdue.total,
-                      locale,
-                      t("invoicesList.currencyFallback"),
-                    )}
+                  : formatCurrencyTotals(stats.overdue.totals, locale)}
               </div>
             </div>
             <div className="stat-card">
@@ -338,15 +541,85 @@ export function InvoiceListPage({
                 {t("invoicesList.statPrefix")}{" "}
                 {isDiscreteMode
                   ? t("common.discreteMask")
-                  : formatTotal(
-                      stats.paidYear.total,
-                      locale,
-                      t("invoicesList.currencyFallback"),
-                    )}
+                  : formatCurrencyTotals(stats.paidYear.totals, locale)}
               </div>
             </div>
           </div>
 
+          {draftCount > 0 ? (
+            <div className="mb-6 alert-warning">
+              {t("invoicesList.draftsPending", { count: draftCount })}
+            </div>
+          ) : null}
+
+          {recurringInvoices.length > 0 ? (
+            <details className="panel-card mb-6">
+              <summary className="cursor-pointer text-sm font-semibold filters-summary">
+                {t("invoicesList.recurringTitle", {
+                  count: recurringInvoices.length,
+                })}
+              </summary>
+              <div className="space-y-3 mt-4">
+                {recurringInvoices.map((schedule) => {
+                  const isPaused = schedule.paused === Evolu.sqliteTrue;
+                  const clientName =
+                    clients.find((client) => client.id === schedule.clientId)
+                      ?.name ?? t("common.placeholderDash");
+                  return (
+                    <div
+                      key={schedule.id}
+                      className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm"
+                    >
+                      <div>
+                        <div className="font-semibold">{clientName}</div>
+                        <div>
+                          {t(
+                            `recurring.cadence.${normalizeCadence(schedule.cadence)}`,
+                          )}
+                          {" · "}
+                          {isDiscreteMode
+                            ? t("common.discreteMask")
+                            : formatTotal(
+                                getInvoiceTotal(schedule),
+                                schedule.currency,
+                                locale,
+                                t("invoicesList.currencyFallback"),
+                              )}
+                          {" · "}
+                          {isPaused
+                            ? t("invoicesList.recurringPaused")
+                            : t("invoicesList.recurringNextRun", {
+                                date: formatDate(
+                                  schedule.nextRunDate,
+                                  locale,
+                                  t("common.placeholderDash"),
+                                ),
+                              })}
+                        </div>
+                      </div>
+                      <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                        <button
+                          onClick={() => handleToggleRecurringPaused(schedule)}
+                          className="btn-secondary w-full sm:w-auto"
+                        >
+                          {isPaused
+                            ? t("invoicesList.recurringResume")
+                            : t("invoicesList.recurringPause")}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRecurring(schedule.id)}
+                          className="btn-danger w-full sm:w-auto"
+                        >
+                          {t("common.delete")}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </details>
+          ) : null}
+
           <details className="panel-card mb-6">
             <summary className="cursor-pointer text-sm font-semibold filters-summary">
               {t("invoicesList.filters")} 🔎
@@ -382,28 +655,24 @@ export function InvoiceListPage({
                   {t("invoicesList.status")}
                 </span>
                 <div className="flex flex-wrap gap-3">
-                  {(["unpaid", "overdue", "paid"] as const).map((status) => (
-                    <label key={status} className="flex items-center gap-2">
-                      <input
-                        type="checkbox"
-                        checked={statusFilters[status]}
-                        onChange={(event) =>
-                          setStatusFilters((prev) => ({
-                            ...prev,
-                            [status]: event.target.checked,
-                          }))
-                        }
-                        className="h-4 w-4 rounded border-slate-300 text-blue-600"
-                      />
-                      <span>
-                        {status === "paid"
-                          ? t("invoicesList.statusPaid")
-                          : status === "overdue"
-                            ? t("invoicesList.statusOverdue")
-                            : t("invoicesList.statusUnpaid")}
-                      </span>
-                    </label>
-                  ))}
+                  {(["unpaid", "partial", "overdue", "paid"] as const).map(
+                    (status) => (
+                      <label key={status} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={statusFilters[status]}
+                          onChange={(event) =>
+                            setStatusFilters((prev) => ({
+                              ...prev,
+                              [status]: event.target.checked,
+                            }))
+                          }
+                          className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                        />
+                        <span>{t(STATUS_LABELS[status])}</span>
+                      </label>
+                    ),
+                  )}
                 </div>
               </div>
 
@@ -453,22 +722,10 @@ export function InvoiceListPage({
           ) : (
             <div className="space-y-3">
               {filteredInvoices.map((invoice) => {
-                const items = parseItems(invoice.items);
-                const total = items.reduce((sum, item) => {
-                  const amount = Number(item.amount ?? 0);
-                  const unitPrice = Number(item.unitPrice ?? 0);
-                  if (!Number.isFinite(amount) || !Number.isFinite(unitPrice))
-                    return sum;
-                  return sum + amount * unitPrice;
-                }, 0);
+                const total = getInvoiceTotal(invoice);
                 const status = getInvoiceStatus(invoice);
                 const isBtcInvoice = invoice.btcInvoice === Evolu.sqliteTrue;
-                const statusStyles =
-                  status === "paid"
-                    ? "status-badge status-paid"
-                    : status === "overdue"
-                      ? "status-badge status-overdue"
-                      : "status-badge status-unpaid";
+                const statusStyles = `status-badge status-${status}`;
 
                 return (
                   <div
@@ -484,15 +741,26 @@ export function InvoiceListPage({
                             &nbsp;
                           </div>
                           <span className={statusStyles}>
-                            {status === "paid"
-                              ? t("invoicesList.statusPaid")
-                              : status === "overdue"
-                                ? t("invoicesList.statusOverdue")
-                                : t("invoicesList.statusUnpaid")}
+                            {t(STATUS_LABELS[status])}
                             {isBtcInvoice && (
                               <span className="ml-1 text-[#f7931a]">₿</span>
                             )}
                           </span>
+                          {isCreditNote(invoice) ? (
+                            <span className="status-badge status-credit-note">
+                              {t("invoicesList.creditNoteBadge")}
+                            </span>
+                          ) : null}
+                          {isProforma(invoice) ? (
+                            <span className="status-badge status-proforma">
+                              {t("invoicesList.proformaBadge")}
+                            </span>
+                          ) : null}
+                          {isDraftInvoice(invoice) ? (
+                            <span className="status-badge status-draft">
+                              {t("invoicesList.draftBadge")}
+                            </span>
+                          ) : null}
                         </div>
                         <div className="text-sm invoice-row-client">
                           {invoice.clientName ?? t("common.placeholderDash")}
@@ -513,14 +781,33 @@ export function InvoiceListPage({
                           ? t("common.discreteMask")
                           : formatTotal(
                               total,
+                              invoice.currency,
                               locale,
                               t("invoicesList.currencyFallback"),
                             )}
+                        {status === "partial" && !isDiscreteMode ? (
+                          <span className="ml-2 font-normal">
+                            {t("invoicesList.remaining", {
+                              amount: formatMoney(
+                                getRemainingAmount(
+                                  getInvoiceTotal(invoice, {
+                                    withVat: isVatPayer,
+                                  }) - invoice.creditedAmount,
+                                  invoice.paidAmount,
+                                ),
+                                invoice.currency,
+                                locale,
+                              ),
+                            })}
+                          </span>
+                        ) : null}
                       </div>
                       <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
-                        {!invoice.paymentDate ? (
+                        {!invoice.paymentDate &&
+                        !invoice.settledByCredit &&
+                        !isDraftInvoice(invoice) ? (
                           <button
-                            onClick={() => handleMarkPayment(invoice.id)}
+                            onClick={() => handleMarkPayment(invoice)}
                             className="btn-success w-full sm:w-auto"
                           >
                             {t("invoicesList.markPaid")}
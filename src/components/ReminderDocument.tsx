@@ -0,0 +1,345 @@
+import {
+  Document,
+  Image,
+  Page,
+  StyleSheet,
+  Text,
+  View,
+} from "@react-pdf/renderer";
+import { formatMoney } from "../currency";
+import type { createI18n } from "../i18n";
+import type { InvoiceCustomer } from "../invoices";
+import { PDF_FONT_FAMILY } from "../pdfFonts";
+import type { ReminderLevel } from "../reminders";
+
+export type ReminderDocumentInvoice = {
+  invoiceNumber: string | null;
+  issueDate: string | null;
+  dueDate: Date;
+  daysOverdue: number;
+  outstanding: number;
+  lateInterest: number | null;
+  /** % per year the interest was computed with. */
+  interestRate: number | null;
+  /** Half-year of the ČNB repo rate behind a statutory rate. */
+  repoRateFrom: string | null;
+};
+
+type ReminderDocumentProps = {
+  // The PDF renders outside the app's providers, so translations come in.
+  t: ReturnType<typeof createI18n>["t"];
+  locale: string;
+  level: ReminderLevel;
+  sentDate: string;
+  currency: string;
+  supplier: {
+    name: string | null;
+    addressLine1?: string | null;
+    addressLine2?: string | null;
+    companyIdentificationNumber?: string | null;
+    vatNumber?: string | null;
+    bankAccount?: string | null;
+    iban?: string | null;
+    email?: string | null;
+    phone?: string | null;
+  };
+  customer: InvoiceCustomer;
+  invoices: readonly ReminderDocumentInvoice[];
+  variableSymbol: string | null;
+  qrCodeDataUrl: string | null;
+};
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 40,
+    fontSize: 10,
+    fontFamily: PDF_FONT_FAMILY,
+    color: "#111827",
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-end",
+    marginBottom: 16,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 700,
+  },
+  headerLine: {
+    height: 2,
+    backgroundColor: "#6b7280",
+    marginBottom: 18,
+  },
+  columns: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    gap: 24,
+  },
+  column: {
+    flexGrow: 1,
+    flexBasis: 0,
+  },
+  label: {
+    fontSize: 9,
+    color: "#6b7280",
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  textBold: {
+    fontWeight: 700,
+  },
+  paragraph: {
+    marginTop: 18,
+    lineHeight: 1.4,
+  },
+  tableHeader: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#d1d5db",
+    paddingBottom: 6,
+    marginTop: 16,
+  },
+  tableRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderBottomWidth: 0.5,
+    borderBottomColor: "#e5e7eb",
+  },
+  colNumber: { width: "22%" },
+  colDate: { width: "16%" },
+  colDays: { width: "12%", textAlign: "right" },
+  colAmount: { width: "17%", textAlign: "right" },
+  totalRow: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "baseline",
+    marginTop: 8,
+  },
+  totalLabel: {
+    fontSize: 12,
+    fontWeight: 700,
+  },
+  totalValue: {
+    fontSize: 14,
+    fontWeight: 700,
+    marginLeft: 12,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    marginTop: 18,
+  },
+  qrImage: {
+    width: 110,
+    height: 110,
+    borderWidth: 1,
+    borderColor: "#d1d5db",
+    padding: 6,
+  },
+  qrLabel: {
+    marginTop: 6,
+    fontSize: 9,
+    color: "#6b7280",
+  },
+  footer: {
+    marginTop: "auto",
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    fontSize: 9,
+    color: "#6b7280",
+  },
+});
+
+/** Payment reminder listing a client's overdue invoices in one currency. */
+export function ReminderDocument({
+  t,
+  locale,
+  level,
+  sentDate,
+  currency,
+  supplier,
+  customer,
+  invoices,
+  variableSymbol,
+  qrCodeDataUrl,
+}: ReminderDocumentProps) {
+  const hasInterest = invoices.some((invoice) => invoice.lateInterest !== null);
+  const outstandingTotal = invoices.reduce(
+    (sum, invoice) => sum + invoice.outstanding,
+    0,
+  );
+  const interestTotal = invoices.reduce(
+    (sum, invoice) => sum + (invoice.lateInterest ?? 0),
+    0,
+  );
+  const formatDate = (date: Date | string | null) =>
+    date ? new Date(date).toLocaleDateString(locale) : "";
+  // One line per rate, naming the repo rate the statutory one is based on.
+  const interestRateNotes = Array.from(
+    new Set(
+      invoices
+        .filter((invoice) => invoice.interestRate !== null)
+        .map((invoice) =>
+          invoice.repoRateFrom
+            ? t("reminders.pdf.interestRateStatutory", {
+                rate: (invoice.interestRate ?? 0).toLocaleString(locale),
+                date: formatDate(invoice.repoRateFrom),
+              })
+            : t("reminders.pdf.interestRate", {
+                rate: (invoice.interestRate ?? 0).toLocaleString(locale),
+              }),
+        ),
+    ),
+  );
+  const money = (value: number) => formatMoney(value, currency, locale);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <View style={styles.headerRow}>
+          <Text>{formatDate(sentDate)}</Text>
+          <Text style={styles.headerTitle}>
+            {t(`reminders.pdf.title.${level}`)}
+          </Text>
+        </View>
+        <View style={styles.headerLine} />
+
+        <View style={styles.columns}>
+          <View style={styles.column}>
+            <Text style={styles.label}>{t("pdf.supplier")}</Text>
+            <Text style={styles.textBold}>{supplier.name ?? ""}</Text>
+            {supplier.addressLine1 ? (
+              <Text>{supplier.addressLine1}</Text>
+            ) : null}
+            {supplier.addressLine2 ? (
+              <Text>{supplier.addressLine2}</Text>
+            ) : null}
+            {supplier.companyIdentificationNumber ? (
+              <Text>
+                {t("pdf.companyId")}: {supplier.companyIdentificationNumber}
+              </Text>
+            ) : null}
+            {supplier.vatNumber ? (
+              <Text>
+                {t("pdf.vatIdOrNonVat")}: {supplier.vatNumber}
+              </Text>
+            ) : null}
+          </View>
+          <View style={styles.column}>
+            <Text style={styles.label}>{t("pdf.customer")}</Text>
+            <Text style={styles.textBold}>{customer.name}</Text>
+            {customer.addressLine1 ? (
+              <Text>{customer.addressLine1}</Text>
+            ) : null}
+            {customer.addressLine2 ? (
+              <Text>{customer.addressLine2}</Text>
+            ) : null}
+            {customer.companyIdentificationNumber ? (
+              <Text>
+                {t("pdf.companyId")}: {customer.companyIdentificationNumber}
+              </Text>
+            ) : null}
+          </View>
+        </View>
+
+        <Text style={styles.paragraph}>
+          {t(`reminders.pdf.intro.${level}`)}
+        </Text>
+
+        <View style={styles.tableHeader}>
+          <Text style={styles.colNumber}>{t("reminders.pdf.invoice")}</Text>
+          <Text style={styles.colDate}>{t("pdf.issueDate")}</Text>
+          <Text style={styles.colDate}>{t("pdf.dueDate")}</Text>
+          <Text style={styles.colDays}>{t("reminders.pdf.daysOverdue")}</Text>
+          <Text style={styles.colAmount}>{t("reminders.pdf.outstanding")}</Text>
+          {hasInterest ? (
+            <Text style={styles.colAmount}>{t("reminders.pdf.interest")}</Text>
+          ) : null}
+        </View>
+        {invoices.map((invoice, index) => (
+          <View key={index} style={styles.tableRow}>
+            <Text style={styles.colNumber}>{invoice.invoiceNumber ?? ""}</Text>
+            <Text style={styles.colDate}>{formatDate(invoice.issueDate)}</Text>
+            <Text style={styles.colDate}>{formatDate(invoice.dueDate)}</Text>
+            <Text style={styles.colDays}>{invoice.daysOverdue}</Text>
+            <Text style={styles.colAmount}>{money(invoice.outstanding)}</Text>
+            {hasInterest ? (
+              <Text style={styles.colAmount}>
+                {money(invoice.lateInterest ?? 0)}
+              </Text>
+            ) : null}
+          </View>
+        ))}
+        {interestRateNotes.map((note) => (
+          <Text key={note} style={styles.qrLabel}>
+            {note}
+          </Text>
+        ))}
+
+        <View style={styles.summaryRow}>
+          <View>
+            {qrCodeDataUrl ? (
+              <>
+                <Image style={styles.qrImage} src={qrCodeDataUrl} />
+                <Text style={styles.qrLabel}>{t("pdf.qrPayment")}</Text>
+              </>
+            ) : null}
+          </View>
+          <View>
+            {hasInterest ? (
+              <>
+                <View style={styles.totalRow}>
+                  <Text>{t("reminders.pdf.outstanding")}</Text>
+                  <Text style={{ marginLeft: 12 }}>
+                    {money(outstandingTotal)}
+                  </Text>
+                </View>
+                <View style={styles.totalRow}>
+                  <Text>{t("reminders.pdf.interest")}</Text>
+                  <Text style={{ marginLeft: 12 }}>{money(interestTotal)}</Text>
+                </View>
+              </>
+            ) : null}
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{t("reminders.pdf.total")}</Text>
+              <Text style={styles.totalValue}>
+                {money(outstandingTotal + interestTotal)}
+              </Text>
+            </View>
+            {supplier.bankAccount ? (
+              <View style={styles.totalRow}>
+                <Text>
+                  {t("pdf.bankAccount")}: {supplier.bankAccount}
+                </Text>
+              </View>
+            ) : null}
+            {supplier.iban ? (
+              <View style={styles.totalRow}>
+                <Text>IBAN: {supplier.iban}</Text>
+              </View>
+            ) : null}
+            {variableSymbol ? (
+              <View style={styles.totalRow}>
+                <Text>
+                  {t("pdf.variableSymbol")}: {variableSymbol}
+                </Text>
+              </View>
+            ) : null}
+          </View>
+        </View>
+
+        <Text style={styles.paragraph}>
+          {t(`reminders.pdf.closing.${level}`)}
+        </Text>
+
+        <View style={styles.footer}>
+          <Text>
+            {[supplier.email, supplier.phone].filter(Boolean).join(" | ")}
+          </Text>
+        </View>
+      </Page>
+    </Document>
+  );
+}
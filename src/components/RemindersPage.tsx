@@ -0,0 +1,504 @@
+import { use, useMemo, useState } from "react";
+import * as Evolu from "@evolu/common";
+import { useQuery } from "@evolu/react";
+import { pdf } from "@react-pdf/renderer";
+import QRCode from "qrcode";
+import { formatMoney, normalizeCurrency } from "../currency";
+import { downloadFile } from "../download";
+import { useEvolu } from "../evolu";
+import { createDocumentI18n, resolveDocumentLanguage, useI18n } from "../i18n";
+import {
+  applyCreditNotes,
+  findInvoiceClient,
+  getInvoiceDueDate,
+  getInvoiceTotal,
+  isCreditNote,
+  isDraftInvoice,
+  isInvoiceOverdue,
+  isProforma,
+  resolveInvoiceCustomer,
+} from "../invoices";
+import { getVariableSymbol } from "../numbering";
+import { buildSpdPayload } from "../paymentQr";
+import { getPaidAmounts, getRemainingAmount } from "../payments";
+import {
+  computeLateInterest,
+  getDaysOverdue,
+  getLatestReminders,
+  groupReminderInvoices,
+  recordReminderSent,
+  type ReminderGroup,
+  type ReminderInvoice,
+} from "../reminders";
+import { ReminderDocument } from "./ReminderDocument";
+
+type RemindersPageProps = {
+  onRemindersSent: (count: number) => void;
+};
+
+export function RemindersPage({ onRemindersSent }: RemindersPageProps) {
+  const { t, locale, language } = useI18n();
+  const evolu = useEvolu();
+  const owner = use(evolu.appOwner);
+
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+  const [includeInterest, setIncludeInterest] = useState(false);
+  const [interestRate, setInterestRate] = useState("");
+  const [generatingKey, setGeneratingKey] = useState<string | null>(null);
+
+  const profileQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .select([
+            "name",
+            "addressLine1",
+            "addressLine2",
+            "companyIdentificationNumber",
+            "vatNumber",
+            "vatPayer",
+            "bankAccount",
+            "iban",
+            "swift",
+            "email",
+            "phone",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    [evolu, owner.id],
+  );
+
+  const clientsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("client")
+          .select([
+            "id",
+            "name",
+            "addressLine1",
+            "addressLine2",
+            "companyIdentificationNumber",
+            "vatNumber",
+            "documentLanguage",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const invoicesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "invoiceNumber",
+            "documentType",
+            "correctedInvoiceId",
+            "draft",
+            "clientId",
+            "clientName",
+            "clientAddressLine1",
+            "clientAddressLine2",
+            "clientCompanyIdentificationNumber",
+            "clientVatNumber",
+            "issueDate",
+            "paymentDate",
+            "paymentDays",
+            "currency",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const paymentsQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("payment")
+          .select(["invoiceId", "paymentDate", "amount"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const remindersQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("paymentReminder")
+          .select(["invoiceId", "level", "sentDate"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
+  const profile = useQuery(profileQuery)[0] ?? null;
+  const clients = useQuery(clientsQuery);
+  const invoices = useQuery(invoicesQuery);
+  const payments = useQuery(paymentsQuery);
+  const sentReminders = useQuery(remindersQuery);
+  const isVatPayer = profile?.vatPayer === Evolu.sqliteTrue;
+
+  const latestReminders = useMemo(
+    () => getLatestReminders(sentReminders),
+    [sentReminders],
+  );
+
+  const groups = useMemo(() => {
+    const paidAmounts = getPaidAmounts(payments);
+    // Credit notes are netted so a cancelled invoice is not dunned.
+    const netted = applyCreditNotes(
+      invoices.map((invoice) => ({
+        ...invoice,
+        paidAmount: paidAmounts.get(invoice.id) ?? 0,
+      })),
+      { withVat: isVatPayer },
+    );
+    const overdue: ReminderInvoice[] = [];
+    for (const invoice of netted) {
+      // Proformas are requests for an advance, not claims to dun.
+      if (isDraftInvoice(invoice) || isCreditNote(invoice)) continue;
+      if (isProforma(invoice)) continue;
+      const dueDate = getInvoiceDueDate(invoice);
+      if (!dueDate || !isInvoiceOverdue(invoice)) continue;
+      const outstanding = getRemainingAmount(
+        getInvoiceTotal(invoice, { withVat: isVatPayer }) -
+          invoice.creditedAmount,
+        invoice.paidAmount,
+      );
+      if (outstanding <= 0) continue;
+      overdue.push({
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        clientId: invoice.clientId,
+        clientName: invoice.clientName,
+        currency: normalizeCurrency(invoice.currency),
+        issueDate: invoice.issueDate,
+        dueDate,
+        outstanding,
+        lastLevel: latestReminders.get(invoice.id)?.level ?? 0,
+      });
+    }
+    return groupReminderInvoices(overdue);
+  }, [invoices, payments, latestReminders, isVatPayer]);
+
+  const parsedInterestRate = Number(interestRate.replace(",", "."));
+  const customInterestRate =
+    interestRate.trim() && Number.isFinite(parsedInterestRate)
+      ? parsedInterestRate
+      : undefined;
+
+  const getLateInterest = (invoice: ReminderInvoice) =>
+    includeInterest
+      ? computeLateInterest(
+          invoice.outstanding,
+          invoice.dueDate,
+          new Date(),
+          customInterestRate,
+        )
+      : null;
+
+  const getSelectedInvoices = (group: ReminderGroup) =>
+    group.invoices.filter((invoice) => !excluded[invoice.id]);
+
+  // Delays that began after the end of the repo rate table use its last rate.
+  const staleRepoRateFrom =
+    groups
+      .flatMap((group) => getSelectedInvoices(group))
+      .map((invoice) => getLateInterest(invoice))
+      .find((interest) => interest?.stale)?.repoRateFrom ?? null;
+
+  const handleGenerate = async (group: ReminderGroup) => {
+    const selected = getSelectedInvoices(group);
+    if (selected.length === 0) return;
+    if (
+      includeInterest &&
+      interestRate.trim() &&
+      (customInterestRate === undefined || customInterestRate < 0)
+    ) {
+      alert(t("alerts.reminderInterestRateInvalid"));
+      return;
+    }
+
+    const interests = selected.map((invoice) => getLateInterest(invoice));
+    const staleFrom = interests.find((interest) => interest?.stale);
+    if (
+      staleFrom &&
+      !confirm(
+        t("alerts.reminderRepoRateStaleConfirm", {
+          date: new Date(staleFrom.repoRateFrom ?? "").toLocaleDateString(
+            locale,
+          ),
+        }),
+      )
+    ) {
+      return;
+    }
+
+    setGeneratingKey(group.key);
+    try {
+      const sentDate = new Date().toISOString().slice(0, 10);
+      const rows = selected.map((invoice, index) => ({
+        ...invoice,
+        daysOverdue: getDaysOverdue(invoice.dueDate),
+        lateInterest: interests[index]?.amount ?? null,
+        interestRate: interests[index]?.rate ?? null,
+        repoRateFrom: interests[index]?.repoRateFrom ?? null,
+      }));
+      const total = rows.reduce(
+        (sum, row) => sum + row.outstanding + (row.lateInterest ?? 0),
+        0,
+      );
+      // A variable symbol identifies one invoice; several are named instead.
+      const variableSymbol =
+        rows.length === 1
+          ? getVariableSymbol(rows[0].invoiceNumber ?? "") || null
+          : null;
+      const payload = buildSpdPayload({
+        iban: profile?.iban,
+        swift: profile?.swift,
+        amount: Math.round(total * 100) / 100,
+        currency: group.currency,
+        variableSymbol,
+        message: rows.map((row) => row.invoiceNumber ?? "").join(" "),
+      });
+      const qrCodeDataUrl = payload
+        ? await QRCode.toDataURL(payload, { margin: 0, width: 256 })
+        : null;
+
+      const newestInvoice = invoices.find(
+        (invoice) => invoice.id === rows[rows.length - 1].id,
+      );
+      if (!newestInvoice) return;
+      const client = findInvoiceClient(newestInvoice, clients);
+      // A reminder is a new document, so it goes to the client's current
+      // address when the client still exists.
+      const customer = client
+        ? {
+            name: client.name ?? group.clientName,
+            addressLine1: client.addressLine1,
+            addressLine2: client.addressLine2,
+            companyIdentificationNumber: client.companyIdentificationNumber,
+            vatNumber: client.vatNumber,
+          }
+        : resolveInvoiceCustomer(newestInvoice, null);
+      const documentI18n = createDocumentI18n(
+        resolveDocumentLanguage(null, client?.documentLanguage, language),
+      );
+
+      const blob = await pdf(
+        <ReminderDocument
+          t={documentI18n.t}
+          locale={documentI18n.locale}
+          level={group.level}
+          sentDate={sentDate}
+          currency={group.currency}
+          supplier={profile ?? { name: null }}
+          customer={customer}
+          invoices={rows}
+          variableSymbol={variableSymbol}
+          qrCodeDataUrl={qrCodeDataUrl}
+        />,
+      ).toBlob();
+      const clientSlug = group.clientName
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+      downloadFile(
+        `${t("reminders.fileName", { level: group.level })}-${clientSlug}-${sentDate}.pdf`,
+        blob,
+      );
+
+      const recorded = recordReminderSent(evolu, {
+        clientId: client?.id ?? group.invoices[0].clientId,
+        level: group.level,
+        sentDate,
+        invoices: rows.map((row) => ({
+          id: row.id,
+          lateInterest: row.lateInterest,
+        })),
+      });
+      if (!recorded) {
+        alert(t("alerts.reminderRecordFailed"));
+        return;
+      }
+      onRemindersSent(rows.length);
+    } catch (error) {
+      console.error("Reminder generation error:", error);
+      alert(t("alerts.reminderGenerateFailed"));
+    } finally {
+      setGeneratingKey(null);
+    }
+  };
+
+  return (
+    <div className="page-shell">
+      <div className="page-container-lg">
+        <div className="page-card-lg">
+          <div className="mb-6">
+            <p className="section-title">{t("reminders.sectionTitle")}</p>
+            <h1 className="page-title">{t("reminders.title")}</h1>
+            <p className="mt-2 text-sm text-slate-600">
+              {t("reminders.description")}
+            </p>
+          </div>
+
+          <div className="panel-card mb-6 space-y-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeInterest}
+                onChange={(event) => setIncludeInterest(event.target.checked)}
+                className="h-4 w-4 rounded border-slate-300 text-blue-600"
+              />
+              <span>{t("reminders.includeInterest")}</span>
+            </label>
+            {includeInterest ? (
+              <div>
+                <label htmlFor="reminderInterestRate" className="form-label">
+                  {t("reminders.interestRateLabel")}
+                </label>
+                <input
+                  id="reminderInterestRate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={interestRate}
+                  onChange={(event) => setInterestRate(event.target.value)}
+                  placeholder={t("reminders.interestRateStatutory")}
+                  className="form-input"
+                />
+                <p className="text-xs text-slate-500 mt-2">
+                  {t("reminders.interestRateHint")}
+                </p>
+                {staleRepoRateFrom ? (
+                  <p className="mt-2 alert-warning text-sm">
+                    {t("reminders.repoRateStale", {
+                      date: new Date(staleRepoRateFrom).toLocaleDateString(
+                        locale,
+                      ),
+                    })}
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="empty-state">{t("reminders.empty")}</div>
+          ) : (
+            <div className="space-y-4">
+              {groups.map((group) => {
+                const selected = getSelectedInvoices(group);
+                const total = selected.reduce(
+                  (sum, invoice) =>
+                    sum +
+                    invoice.outstanding +
+                    (getLateInterest(invoice)?.amount ?? 0),
+                  0,
+                );
+                return (
+                  <div key={group.key} className="list-card space-y-3">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-lg font-semibold">
+                          {group.clientName || t("common.placeholderDash")}
+                        </span>
+                        <span className="status-badge status-overdue">
+                          {t(`reminders.level.${group.level}`)}
+                        </span>
+                      </div>
+                      <span className="text-sm font-semibold">
+                        {formatMoney(total, group.currency, locale)}
+                      </span>
+                    </div>
+                    <div className="space-y-2">
+                      {group.invoices.map((invoice) => {
+                        const latest = latestReminders.get(invoice.id);
+                        return (
+                          <label
+                            key={invoice.id}
+                            className="flex items-center gap-3 text-sm"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={!excluded[invoice.id]}
+                              onChange={(event) =>
+                                setExcluded((current) => ({
+                                  ...current,
+                                  [invoice.id]: !event.target.checked,
+                                }))
+                              }
+                              className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                            />
+                            <span className="flex-1">
+                              <span className="font-semibold">
+                                {invoice.invoiceNumber ??
+                                  t("common.placeholderDash")}
+                              </span>
+                              {" · "}
+                              {t("reminders.daysOverdue", {
+                                count: getDaysOverdue(invoice.dueDate),
+                              })}
+                              {latest
+                                ? ` · ${t("reminders.lastSent", {
+                                    level: t(`reminders.level.${latest.level}`),
+                                    date: new Date(
+                                      latest.sentDate,
+                                    ).toLocaleDateString(locale),
+                                  })}`
+                                : null}
+                            </span>
+                            <span>
+                              {formatMoney(
+                                invoice.outstanding,
+                                group.currency,
+                                locale,
+                              )}
+                            </span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <button
+                      onClick={() => handleGenerate(group)}
+                      disabled={generatingKey !== null || selected.length === 0}
+                      className="btn-primary w-full sm:w-auto"
+                    >
+                      {generatingKey === group.key
+                        ? t("reminders.generating")
+                        : t("reminders.generate")}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
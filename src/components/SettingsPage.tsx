@@ -2,8 +2,61 @@ import { use, useEffect, useMemo, useRef, useState } from "react";
 import * as bip39 from "bip39";
 import * as Evolu from "@evolu/common";
 import { useQuery } from "@evolu/react";
+import {
+  BACKUP_PASSPHRASE_MIN_LENGTH,
+  BACKUP_TABLES,
+  collectBackup,
+  decryptBackup,
+  diffBackup,
+  encryptBackup,
+  restoreBackup,
+  type Backup,
+  type BackupTableDiff,
+} from "../backup";
+import {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  normalizeCurrency,
+  parseCnbDailyRates,
+} from "../currency";
+import { downloadFile } from "../download";
 import { getRelayUrl, setRelayUrl as saveRelayUrl, useEvolu } from "../evolu";
-import { useI18n } from "../i18n";
+import { normalizeDocumentLanguage, useI18n } from "../i18n";
+import {
+  createClientSnapshot,
+  documentTypeValue,
+  findInvoiceClient,
+  isCreditNote,
+  isProforma,
+  isZeroRatedVatRegime,
+  normalizeDiscountType,
+  normalizeVatRegime,
+  type InvoiceDocumentType,
+} from "../invoices";
+import {
+  DEFAULT_NUMBER_TEMPLATES,
+  formatDocumentNumber,
+  isValidNumberTemplate,
+  resolveNumberTemplate,
+} from "../numbering";
+import {
+  PDF_BLOCKS,
+  PDF_LAYOUTS,
+  normalizePdfAccentColor,
+  normalizePdfLayout,
+  parsePdfHiddenBlocks,
+  preparePdfImage,
+  serializePdfHiddenBlocks,
+  type PdfBlock,
+  type PdfLayout,
+} from "../pdfTemplate";
+import { buildPohodaXml } from "../pohoda";
+import {
+  getPreviousVatPeriod,
+  getVatPeriodRange,
+  normalizeTaxSubjectType,
+  normalizeVatPeriodType,
+} from "../vatReports";
 
 type SettingsPageProps = {
   theme: "light" | "dark";
@@ -45,6 +98,28 @@ export function SettingsPage({
   const [invoiceNamingFormat, setInvoiceNamingFormat] = useState<string>(
     "invoice-year-invoice_number",
   );
+  // Empty means the default template of the document type.
+  const [numberTemplates, setNumberTemplates] = useState<
+    Record<InvoiceDocumentType, string>
+  >({ invoice: "", creditNote: "", proforma: "" });
+  // Empty means the localized default template.
+  const [emailTemplates, setEmailTemplates] = useState({
+    subject: "",
+    body: "",
+  });
+  const [pdfBranding, setPdfBranding] = useState<{
+    layout: PdfLayout;
+    accentColor: string;
+    logo: string | null;
+    signature: string | null;
+    hiddenBlocks: PdfBlock[];
+  }>({
+    layout: "classic",
+    accentColor: normalizePdfAccentColor(null),
+    logo: null,
+    signature: null,
+    hiddenBlocks: [],
+  });
   const [savedData, setSavedData] = useState<{
     name: string;
     email?: string;
@@ -79,6 +154,20 @@ export function SettingsPage({
   const importClientsInputRef = useRef<HTMLInputElement | null>(null);
   const importInvoicesInputRef = useRef<HTMLInputElement | null>(null);
   const importExpensesInputRef = useRef<HTMLInputElement | null>(null);
+  const importRatesInputRef = useRef<HTMLInputElement | null>(null);
+  const [pohodaFrom, setPohodaFrom] = useState("");
+  const [pohodaTo, setPohodaTo] = useState("");
+  const importBackupInputRef = useRef<HTMLInputElement | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  // Only exports need it: a mistyped passphrase would lock the backup for good
+  const [backupPassphraseConfirm, setBackupPassphraseConfirm] = useState("");
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [backupPreview, setBackupPreview] = useState<{
+    backup: Backup;
+    diff: BackupTableDiff[];
+  } | null>(null);
+  const [overwriteBackupConflicts, setOverwriteBackupConflicts] =
+    useState(false);
 
   const profileQuery = useMemo(
     () =>
@@ -112,6 +201,7 @@ export function SettingsPage({
             "companyIdentificationNumber",
             "vatNumber",
             "note",
+            "documentLanguage",
           ])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
@@ -129,7 +219,19 @@ export function SettingsPage({
           .select([
             "id",
             "invoiceNumber",
+            "documentType",
+            "correctedInvoiceId",
+            "correctedInvoiceNumber",
+            "correctionReason",
+            "advanceInvoiceId",
+            "draft",
+            "auditNote",
+            "clientId",
             "clientName",
+            "clientAddressLine1",
+            "clientAddressLine2",
+            "clientCompanyIdentificationNumber",
+            "clientVatNumber",
             "issueDate",
             "duzp",
             "paymentDate",
@@ -137,9 +239,16 @@ export function SettingsPage({
             "paymentMethod",
             "purchaseOrderNumber",
             "invoicingNote",
+            "documentLanguage",
             "btcInvoice",
             "btcAddress",
+            "currency",
+            "exchangeRate",
             "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
           ])
           .where("ownerId", "=", owner.id)
           .where("isDeleted", "is not", Evolu.sqliteTrue)
@@ -172,9 +281,22 @@ export function SettingsPage({
     [evolu, owner.id],
   );
 
+  const ratesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("currencyRate")
+          .select(["id", "rateDate", "currency", "rate"])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
+      ),
+    [evolu, owner.id],
+  );
+
   const clients = useQuery(clientsQuery);
   const invoices = useQuery(invoicesQuery);
   const expenseRows = useQuery(expensesQuery);
+  const rates = useQuery(ratesQuery);
 
   useEffect(() => {
     const currentUrl = getRelayUrl();
@@ -275,6 +397,22 @@ export function SettingsPage({
     setInvoiceNamingFormat(
       profile.invoiceNamingFormat ?? "invoice-year-invoice_number",
     );
+    setNumberTemplates({
+      invoice: profile.invoiceNumberTemplate ?? "",
+      creditNote: profile.creditNoteNumberTemplate ?? "",
+      proforma: profile.proformaNumberTemplate ?? "",
+    });
+    setEmailTemplates({
+      subject: profile.emailSubjectTemplate ?? "",
+      body: profile.emailBodyTemplate ?? "",
+    });
+    setPdfBranding({
+      layout: normalizePdfLayout(profile.pdfLayout),
+      accentColor: normalizePdfAccentColor(profile.pdfAccentColor),
+      logo: profile.pdfLogo ?? null,
+      signature: profile.pdfSignature ?? null,
+      hiddenBlocks: Array.from(parsePdfHiddenBlocks(profile.pdfHiddenBlocks)),
+    });
   }, [profile]);
 
   useEffect(() => {
@@ -397,6 +535,11 @@ export function SettingsPage({
           return trimmed ? trimmed : null;
         };
 
+        const toValidTemplate = (value: string | undefined) => {
+          const template = toNullable(value);
+          return template && isValidNumberTemplate(template) ? template : null;
+        };
+
         const payload = {
           name: importedName,
           email: toNullable(row.email),
@@ -427,6 +570,21 @@ export function SettingsPage({
           invoiceNamingFormat:
             toNullable(row.invoiceNamingFormat) ??
             "invoice-year-invoice_number",
+          invoiceNumberTemplate: toValidTemplate(row.invoiceNumberTemplate),
+          creditNoteNumberTemplate: toValidTemplate(
+            row.creditNoteNumberTemplate,
+          ),
+          proformaNumberTemplate: toValidTemplate(row.proformaNumberTemplate),
+          pdfLayout: normalizePdfLayout(row.pdfLayout),
+          pdfAccentColor: normalizePdfAccentColor(row.pdfAccentColor),
+          pdfHiddenBlocks: serializePdfHiddenBlocks(
+            parsePdfHiddenBlocks(row.pdfHiddenBlocks),
+          ),
+          vatPeriod: normalizeVatPeriodType(row.vatPeriod),
+          taxSubjectType: normalizeTaxSubjectType(row.taxSubjectType),
+          taxOfficeCode: toNullable(row.taxOfficeCode),
+          taxOfficeBranchCode: toNullable(row.taxOfficeBranchCode),
+          naceCode: toNullable(row.naceCode),
           language: row.language?.trim().toLowerCase() === "en" ? "en" : "cz",
         };
 
@@ -468,6 +626,19 @@ export function SettingsPage({
         setInvoiceNamingFormat(
           row.invoiceNamingFormat?.trim() || "invoice-year-invoice_number",
         );
+        setNumberTemplates({
+          invoice: payload.invoiceNumberTemplate ?? "",
+          creditNote: payload.creditNoteNumberTemplate ?? "",
+          proforma: payload.proformaNumberTemplate ?? "",
+        });
+        setPdfBranding((prev) => ({
+          ...prev,
+          layout: payload.pdfLayout,
+          accentColor: payload.pdfAccentColor,
+          hiddenBlocks: Array.from(
+            parsePdfHiddenBlocks(payload.pdfHiddenBlocks),
+          ),
+        }));
         setLanguage(row.language?.trim().toLowerCase() === "en" ? "en" : "cz");
 
         alert(t("alerts.settingsImported"));
@@ -534,6 +705,7 @@ export function SettingsPage({
             ),
             vatNumber: toNullable(row.vatNumber),
             note: toNullable(row.note),
+            documentLanguage: normalizeDocumentLanguage(row.documentLanguage),
             deleted: Evolu.sqliteFalse,
           };
 
@@ -596,10 +768,13 @@ export function SettingsPage({
             {},
           );
 
-          const invoiceNumber = row.invoiceNumber?.trim();
+          // Only drafts may come without a number.
+          const isDraft = parseCsvBoolean(row.draft);
+          const invoiceNumber = toNullable(row.invoiceNumber);
           const clientName = row.clientName?.trim();
           const issueDateRaw = row.issueDate?.trim();
-          if (!invoiceNumber || !clientName || !issueDateRaw) continue;
+          if (!(invoiceNumber || isDraft) || !clientName || !issueDateRaw)
+            continue;
 
           const issueDateResult = Evolu.dateToDateIso(new Date(issueDateRaw));
           if (!issueDateResult.ok) {
@@ -655,9 +830,90 @@ export function SettingsPage({
             return;
           }
 
+          const exchangeRateValue = row.exchangeRate?.trim();
+          const exchangeRateResult = exchangeRateValue
+            ? Evolu.PositiveNumber.from(Number(exchangeRateValue))
+            : null;
+          if (exchangeRateResult && !exchangeRateResult.ok) {
+            console.error(
+              "Exchange rate error:",
+              formatTypeError(exchangeRateResult.error),
+            );
+            alert(t("alerts.exchangeRateInvalid"));
+            return;
+          }
+
+          const discountValue = Number(row.discount?.trim() || 0);
+          const discount =
+            Number.isFinite(discountValue) && discountValue > 0
+              ? discountValue
+              : null;
+
+          // Link to an existing client (by id, then by name). Snapshot
+          // columns present in the file win over the client's current data.
+          const linkedClient = findInvoiceClient(
+            {
+              clientId: clients.some((client) => client.id === row.clientId)
+                ? row.clientId
+                : null,
+              clientName,
+            },
+            clients,
+          );
+          const clientSnapshot = linkedClient
+            ? createClientSnapshot(linkedClient)
+            : null;
+
+          // Credit notes are re-linked to the corrected invoice by number,
+          // since ids from another database mean nothing here.
+          const documentType = isCreditNote(row)
+            ? documentTypeValue.creditNote
+            : isProforma(row)
+              ? documentTypeValue.proforma
+              : null;
+          const correctedInvoiceNumber = isCreditNote(row)
+            ? toNullable(row.correctedInvoiceNumber)
+            : null;
+          const correctedInvoice = correctedInvoiceNumber
+            ? invoices.find(
+                (invoice) =>
+                  invoice.invoiceNumber === correctedInvoiceNumber &&
+                  !isCreditNote(invoice),
+              )
+            : undefined;
+
           const payload = {
             invoiceNumber,
+            documentType,
+            correctedInvoiceId: correctedInvoice?.id ?? null,
+            correctedInvoiceNumber,
+            correctionReason: isCreditNote(row)
+              ? toNullable(row.correctionReason)
+              : null,
+            // Kept only when re-importing into the database it came from.
+            advanceInvoiceId:
+              invoices.find((invoice) => invoice.id === row.advanceInvoiceId)
+                ?.id ?? null,
+            draft: isDraft ? Evolu.sqliteTrue : null,
+            auditNote: toNullable(row.auditNote),
+            clientId: clientSnapshot?.clientId ?? null,
             clientName,
+            clientAddressLine1:
+              toNullable(row.clientAddressLine1) ??
+              clientSnapshot?.clientAddressLine1 ??
+              null,
+            clientAddressLine2:
+              toNullable(row.clientAddressLine2) ??
+              clientSnapshot?.clientAddressLine2 ??
+              null,
+            clientCompanyIdentificationNumber:
+              toNullable(row.clientCompanyIdentificationNumber) ??
+              clientSnapshot?.clientCompanyIdentificationNumber ??
+              null,
+            clientVatNumber:
+              toNullable(row.clientVatNumber) ??
+              clientSnapshot?.clientVatNumber ??
+              null,
             issueDate: issueDateResult.value,
             duzp: duzpResult?.ok ? duzpResult.value : null,
             paymentDate: paymentDateResult?.ok ? paymentDateResult.value : null,
@@ -665,11 +921,26 @@ export function SettingsPage({
             paymentMethod: toNullable(row.paymentMethod),
             purchaseOrderNumber: toNullable(row.purchaseOrderNumber),
             invoicingNote: toNullable(row.invoicingNote),
+            documentLanguage: normalizeDocumentLanguage(row.documentLanguage),
             btcInvoice: parseCsvBoolean(row.btcInvoice)
               ? Evolu.sqliteTrue
               : Evolu.sqliteFalse,
             btcAddress: toNullable(row.btcAddress),
+            currency: normalizeCurrency(row.currency),
+            exchangeRate: exchangeRateResult?.ok
+              ? exchangeRateResult.value
+              : null,
             items: itemsResult.value,
+            discount,
+            discountType: discount
+              ? normalizeDiscountType(row.discountType)
+              : null,
+            cashRounding: parseCsvBoolean(row.cashRounding)
+              ? Evolu.sqliteTrue
+              : null,
+            vatRegime: isZeroRatedVatRegime(row.vatRegime)
+              ? normalizeVatRegime(row.vatRegime)
+              : null,
             deleted: Evolu.sqliteFalse,
           };
 
@@ -695,6 +966,79 @@ export function SettingsPage({
     reader.readAsText(file);
   };
 
+  const handleImportCnbRates = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = parseCnbDailyRates(String(reader.result ?? ""));
+        if (!parsed) {
+          alert(t("alerts.cnbRatesInvalid"));
+          return;
+        }
+
+        const rateDateResult = Evolu.dateToDateIso(
+          new Date(`${parsed.date}T00:00:00.000Z`),
+        );
+        if (!rateDateResult.ok) {
+          alert(t("alerts.cnbRatesInvalid"));
+          return;
+        }
+
+        let imported = 0;
+        for (const { currency, rate } of parsed.rates) {
+          if (
+            !(SUPPORTED_CURRENCIES as readonly string[]).includes(currency) ||
+            currency === DEFAULT_CURRENCY
+          ) {
+            continue;
+          }
+          const rateResult = Evolu.PositiveNumber.from(rate);
+          const currencyResult = Evolu.NonEmptyTrimmedString100.from(currency);
+          if (!rateResult.ok || !currencyResult.ok) continue;
+
+          // Re-importing the same day overwrites the stored rate.
+          const existing = rates.find(
+            (row) =>
+              row.currency === currency &&
+              row.rateDate?.slice(0, 10) === parsed.date,
+          );
+          const result = existing
+            ? evolu.update("currencyRate", {
+                id: existing.id,
+                rate: rateResult.value,
+              })
+            : evolu.insert("currencyRate", {
+                rateDate: rateDateResult.value,
+                currency: currencyResult.value,
+                rate: rateResult.value,
+              });
+          if (!result.ok) {
+            console.error("Validation error:", result.error);
+            alert(t("alerts.cnbRatesInvalid"));
+            return;
+          }
+          imported += 1;
+        }
+
+        alert(
+          t("alerts.cnbRatesImported", { count: imported, date: parsed.date }),
+        );
+      } catch (error) {
+        console.error("CNB rates import error:", error);
+        alert(t("alerts.cnbRatesInvalid"));
+      } finally {
+        if (importRatesInputRef.current) {
+          importRatesInputRef.current.value = "";
+        }
+      }
+    };
+
+    reader.readAsText(file);
+  };
+
   const handleImportExpensesCsv = (
     event: React.ChangeEvent<HTMLInputElement>,
   ) => {
@@ -828,12 +1172,37 @@ export function SettingsPage({
     reader.readAsText(file);
   };
 
+  // Logo or signature for the PDF; stored with the rest on save.
+  const handlePdfImageChange =
+    (field: "logo" | "signature") =>
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const input = event.target;
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        const dataUrl = await preparePdfImage(file);
+        setPdfBranding((prev) => ({ ...prev, [field]: dataUrl }));
+      } catch (error) {
+        console.error("PDF image error:", error);
+        alert(t("alerts.pdfImageInvalid"));
+      } finally {
+        input.value = "";
+      }
+    };
+
   // Save data via Evolu (local-first + sync)
   const handleSave = async () => {
     if (!name.trim()) {
       alert(t("alerts.nameRequired"));
       return;
     }
+    const invalidTemplate = Object.values(numberTemplates).find(
+      (template) => template.trim() && !isValidNumberTemplate(template),
+    );
+    if (invalidTemplate) {
+      alert(t("alerts.numberTemplateInvalid", { template: invalidTemplate }));
+      return;
+    }
 
     setIsSaving(true);
     try {
@@ -860,6 +1229,16 @@ export function SettingsPage({
         poRequired: poRequired ? Evolu.sqliteTrue : Evolu.sqliteFalse,
         mempoolUrl: toNullable(mempoolUrl),
         invoiceNamingFormat: toNullable(invoiceNamingFormat),
+        invoiceNumberTemplate: toNullable(numberTemplates.invoice),
+        creditNoteNumberTemplate: toNullable(numberTemplates.creditNote),
+        proformaNumberTemplate: toNullable(numberTemplates.proforma),
+        emailSubjectTemplate: toNullable(emailTemplates.subject),
+        emailBodyTemplate: toNullable(emailTemplates.body),
+        pdfLayout: pdfBranding.layout,
+        pdfAccentColor: normalizePdfAccentColor(pdfBranding.accentColor),
+        pdfLogo: pdfBranding.logo,
+        pdfSignature: pdfBranding.signature,
+        pdfHiddenBlocks: serializePdfHiddenBlocks(pdfBranding.hiddenBlocks),
         language: (language || "cz").toString().trim().toLowerCase(),
       };
 
@@ -983,17 +1362,10 @@ export function SettingsPage({
       lines.push(headers.map((key) => escapeValue(row[key])).join(","));
     }
 
-    const blob = new Blob([lines.join("\n")], {
-      type: "text/csv;charset=utf-8;",
-    });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      filename,
+      new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8;" }),
+    );
   };
 
   const settingsExportHeaders = [
@@ -1016,6 +1388,18 @@ export function SettingsPage({
     "poRequired",
     "mempoolUrl",
     "invoiceNamingFormat",
+    "invoiceNumberTemplate",
+    "creditNoteNumberTemplate",
+    "proformaNumberTemplate",
+    // Logo and signature images are too large for a settings row.
+    "pdfLayout",
+    "pdfAccentColor",
+    "pdfHiddenBlocks",
+    "vatPeriod",
+    "taxSubjectType",
+    "taxOfficeCode",
+    "taxOfficeBranchCode",
+    "naceCode",
     "updatedAt",
   ];
 
@@ -1029,12 +1413,25 @@ export function SettingsPage({
     "companyIdentificationNumber",
     "vatNumber",
     "note",
+    "documentLanguage",
   ];
 
   const invoicesExportHeaders = [
     "id",
     "invoiceNumber",
+    "documentType",
+    "correctedInvoiceId",
+    "correctedInvoiceNumber",
+    "correctionReason",
+    "advanceInvoiceId",
+    "draft",
+    "auditNote",
+    "clientId",
     "clientName",
+    "clientAddressLine1",
+    "clientAddressLine2",
+    "clientCompanyIdentificationNumber",
+    "clientVatNumber",
     "issueDate",
     "duzp",
     "paymentDate",
@@ -1042,9 +1439,16 @@ export function SettingsPage({
     "paymentMethod",
     "purchaseOrderNumber",
     "invoicingNote",
+    "documentLanguage",
     "btcInvoice",
     "btcAddress",
+    "currency",
+    "exchangeRate",
     "items",
+    "discount",
+    "discountType",
+    "cashRounding",
+    "vatRegime",
   ];
 
   const expensesExportHeaders = [
@@ -1090,6 +1494,145 @@ export function SettingsPage({
     );
   };
 
+  // Defaults to the last closed VAT period, what the accountant asks for.
+  const defaultPohodaRange = getVatPeriodRange(
+    getPreviousVatPeriod(normalizeVatPeriodType(profile?.vatPeriod)),
+  );
+  const pohodaFromValue = pohodaFrom || defaultPohodaRange.from;
+  const pohodaToValue = pohodaTo || defaultPohodaRange.to;
+
+  const handleExportPohodaXml = () => {
+    const companyIdentificationNumber =
+      profile?.companyIdentificationNumber?.trim() ?? "";
+    if (!companyIdentificationNumber) {
+      alert(t("alerts.pohodaIcoRequired"));
+      return;
+    }
+    if (pohodaFromValue > pohodaToValue) {
+      alert(t("alerts.pohodaRangeInvalid"));
+      return;
+    }
+
+    const xml = buildPohodaXml({
+      invoices,
+      expenses: expenseRows,
+      clients,
+      companyIdentificationNumber,
+      vatPayer: profile?.vatPayer === Evolu.sqliteTrue,
+      from: pohodaFromValue,
+      to: pohodaToValue,
+      discountLabel: t("settings.pohodaDiscountItem"),
+    });
+    downloadFile(
+      `pohoda-${pohodaFromValue}-${pohodaToValue}.xml`,
+      new Blob([xml], { type: "application/xml;charset=utf-8;" }),
+    );
+  };
+
+  const handleExportBackup = async () => {
+    if (!backupPassphrase) {
+      alert(t("alerts.backupPassphraseRequired"));
+      return;
+    }
+    if (backupPassphrase.length < BACKUP_PASSPHRASE_MIN_LENGTH) {
+      alert(
+        t("alerts.backupPassphraseTooShort", {
+          min: BACKUP_PASSPHRASE_MIN_LENGTH,
+        }),
+      );
+      return;
+    }
+    if (backupPassphrase !== backupPassphraseConfirm) {
+      alert(t("alerts.backupPassphraseMismatch"));
+      return;
+    }
+    setIsBackupBusy(true);
+    try {
+      const backup = await collectBackup(evolu, owner.id);
+      const text = await encryptBackup(backup, backupPassphrase);
+      downloadFile(
+        `fakturing-backup-${backup.createdAt.slice(0, 10)}.json`,
+        new Blob([text], { type: "application/json" }),
+      );
+    } catch (error) {
+      console.error("Backup export error:", error);
+      alert(t("alerts.backupExportFailed"));
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  // Restoring is two steps: decrypt and preview here, write in handleRestoreBackup.
+  const handleImportBackup = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    if (!backupPassphrase) {
+      alert(t("alerts.backupPassphraseRequired"));
+      event.target.value = "";
+      return;
+    }
+    setIsBackupBusy(true);
+    try {
+      const result = await decryptBackup(await file.text(), backupPassphrase);
+      if (!result.ok) {
+        alert(
+          t(
+            {
+              format: "alerts.backupInvalidFile",
+              version: "alerts.backupUnsupportedVersion",
+              passphrase: "alerts.backupWrongPassphrase",
+            }[result.error],
+          ),
+        );
+        return;
+      }
+      const diff = await diffBackup(evolu, owner.id, result.value);
+      setOverwriteBackupConflicts(false);
+      setBackupPreview({ backup: result.value, diff });
+    } catch (error) {
+      console.error("Backup import error:", error);
+      alert(t("alerts.backupInvalidFile"));
+    } finally {
+      setIsBackupBusy(false);
+      if (importBackupInputRef.current) {
+        importBackupInputRef.current.value = "";
+      }
+    }
+  };
+
+  const backupRowsToRestore = (backupPreview?.diff ?? []).reduce(
+    (sum, { counts }) =>
+      sum +
+      counts.new +
+      counts.changed +
+      (overwriteBackupConflicts ? counts.conflict : 0),
+    0,
+  );
+  const backupConflicts = (backupPreview?.diff ?? []).flatMap(
+    ({ table, rows }) =>
+      rows
+        .filter((row) => row.status === "conflict")
+        .map((row) => ({ table, ...row })),
+  );
+
+  const handleRestoreBackup = () => {
+    if (!backupPreview) return;
+    const restored = restoreBackup(
+      evolu,
+      backupPreview.backup,
+      backupPreview.diff,
+      overwriteBackupConflicts,
+    );
+    if (restored === null) {
+      alert(t("alerts.backupRestoreFailed"));
+      return;
+    }
+    setBackupPreview(null);
+    alert(t("alerts.backupRestored", { count: restored }));
+  };
+
   return (
     <div className="page-shell">
       <div className="page-container">
@@ -1476,6 +2019,163 @@ export function SettingsPage({
               </div>
             </div>
 
+            <div className="border-t border-slate-200/70 pt-4 mt-4">
+              <h3 className="settings-subsection-heading">
+                {t("settings.pdfTemplateTitle")}
+              </h3>
+              <p className="settings-help-text-with-margin">
+                {t("settings.pdfTemplateDescription")}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="pdfLayout" className="form-label">
+                    {t("settings.pdfLayoutLabel")}
+                  </label>
+                  <select
+                    id="pdfLayout"
+                    value={pdfBranding.layout}
+                    onChange={(e) =>
+                      setPdfBranding((prev) => ({
+                        ...prev,
+                        layout: normalizePdfLayout(e.target.value),
+                      }))
+                    }
+                    className="form-select"
+                  >
+                    {PDF_LAYOUTS.map((layout) => (
+                      <option key={layout} value={layout}>
+                        {t(`settings.pdfLayouts.${layout}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="pdfAccentColor" className="form-label">
+                    {t("settings.pdfAccentColorLabel")}
+                  </label>
+                  <input
+                    id="pdfAccentColor"
+                    type="color"
+                    value={pdfBranding.accentColor}
+                    onChange={(e) =>
+                      setPdfBranding((prev) => ({
+                        ...prev,
+                        accentColor: e.target.value,
+                      }))
+                    }
+                    className="form-input h-10 p-1"
+                  />
+                </div>
+                {(["logo", "signature"] as const).map((field) => (
+                  <div key={field}>
+                    <label htmlFor={`pdf-${field}`} className="form-label">
+                      {t(`settings.pdfImageLabels.${field}`)}
+                    </label>
+                    {pdfBranding[field] ? (
+                      <img
+                        src={pdfBranding[field]}
+                        alt={t(`settings.pdfImageLabels.${field}`)}
+                        className="mb-2 max-h-20 rounded border border-slate-200 bg-white p-1"
+                      />
+                    ) : null}
+                    <div className="flex gap-2">
+                      <input
+                        id={`pdf-${field}`}
+                        type="file"
+                        accept="image/png,image/jpeg,image/webp"
+                        onChange={handlePdfImageChange(field)}
+                        className="form-input"
+                      />
+                      {pdfBranding[field] ? (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setPdfBranding((prev) => ({
+                              ...prev,
+                              [field]: null,
+                            }))
+                          }
+                          className="btn-secondary"
+                        >
+                          {t("settings.pdfImageRemove")}
+                        </button>
+                      ) : null}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="settings-help-text mt-2">
+                {t("settings.pdfImageHint")}
+              </p>
+              <div className="mt-3 flex flex-col gap-1">
+                {PDF_BLOCKS.map((block) => (
+                  <label key={block} className="settings-checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={!pdfBranding.hiddenBlocks.includes(block)}
+                      onChange={(e) =>
+                        setPdfBranding((prev) => ({
+                          ...prev,
+                          hiddenBlocks: e.target.checked
+                            ? prev.hiddenBlocks.filter((item) => item !== block)
+                            : [...prev.hiddenBlocks, block],
+                        }))
+                      }
+                      className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {t(`settings.pdfBlocks.${block}`)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="border-t border-slate-200/70 pt-4 mt-4">
+              <h3 className="settings-subsection-heading">
+                {t("settings.emailTemplateTitle")}
+              </h3>
+              <p className="settings-help-text-with-margin">
+                {t("settings.emailTemplateDescription")}
+              </p>
+              <div className="flex flex-col gap-2">
+                <div>
+                  <label htmlFor="emailSubjectTemplate" className="form-label">
+                    {t("settings.emailSubjectLabel")}
+                  </label>
+                  <input
+                    id="emailSubjectTemplate"
+                    type="text"
+                    value={emailTemplates.subject}
+                    onChange={(e) =>
+                      setEmailTemplates((prev) => ({
+                        ...prev,
+                        subject: e.target.value,
+                      }))
+                    }
+                    placeholder={t("email.subject")}
+                    className="form-input"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="emailBodyTemplate" className="form-label">
+                    {t("settings.emailBodyLabel")}
+                  </label>
+                  <textarea
+                    id="emailBodyTemplate"
+                    value={emailTemplates.body}
+                    onChange={(e) =>
+                      setEmailTemplates((prev) => ({
+                        ...prev,
+                        body: e.target.value,
+                      }))
+                    }
+                    placeholder={t("email.body")}
+                    rows={6}
+                    className="form-textarea"
+                  />
+                </div>
+              </div>
+            </div>
+
             <div className="border-t border-slate-200/70 pt-4 mt-4">
               <h3 className="settings-subsection-heading">
                 {t("settings.otherTitle")}
@@ -1581,6 +2281,61 @@ export function SettingsPage({
                     </option>
                   </select>
 
+                  <p className="form-label">
+                    {t("settings.numberTemplatesLabel")}
+                  </p>
+                  <p className="settings-help-text-with-margin">
+                    {t("settings.numberTemplatesDescription")}
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-2">
+                    {(["invoice", "creditNote", "proforma"] as const).map(
+                      (documentType) => {
+                        const template = numberTemplates[documentType];
+                        const isValid =
+                          !template.trim() || isValidNumberTemplate(template);
+                        return (
+                          <div key={documentType}>
+                            <label
+                              htmlFor={`numberTemplate-${documentType}`}
+                              className="text-xs font-semibold text-slate-500"
+                            >
+                              {t(`settings.numberTemplate_${documentType}`)}
+                            </label>
+                            <input
+                              id={`numberTemplate-${documentType}`}
+                              type="text"
+                              value={template}
+                              onChange={(e) =>
+                                setNumberTemplates((prev) => ({
+                                  ...prev,
+                                  [documentType]: e.target.value,
+                                }))
+                              }
+                              placeholder={
+                                DEFAULT_NUMBER_TEMPLATES[documentType]
+                              }
+                              className="form-input font-mono text-sm"
+                            />
+                            <p className="text-xs text-slate-500 mt-1">
+                              {isValid
+                                ? t("settings.numberTemplatePreview", {
+                                    number: formatDocumentNumber(
+                                      resolveNumberTemplate(
+                                        template,
+                                        documentType,
+                                      ),
+                                      new Date(),
+                                      1,
+                                    ),
+                                  })
+                                : t("settings.numberTemplateInvalid")}
+                            </p>
+                          </div>
+                        );
+                      },
+                    )}
+                  </div>
+
                   <label htmlFor="mempoolUrl" className="form-label">
                     {t("settings.mempoolLabel")}
                   </label>
@@ -1710,6 +2465,31 @@ export function SettingsPage({
                       </div>
                     </div>
 
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
+                        {t("settings.importRatesHeading")}
+                      </h4>
+                      <p className="settings-help-text-with-margin">
+                        {t("settings.importRatesDescription")}
+                      </p>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                          ref={importRatesInputRef}
+                          type="file"
+                          accept=".txt,text/plain"
+                          onChange={handleImportCnbRates}
+                          className="hidden"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => importRatesInputRef.current?.click()}
+                          className="btn-secondary w-full sm:w-auto"
+                        >
+                          {t("settings.importRates")}
+                        </button>
+                      </div>
+                    </div>
+
                     <div>
                       <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
                         {t("settings.importExpensesHeading")}
@@ -1747,6 +2527,185 @@ export function SettingsPage({
                         </a>
                       </div>
                     </div>
+
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
+                        {t("settings.pohodaHeading")}
+                      </h4>
+                      <p className="settings-help-text-with-margin">
+                        {t("settings.pohodaDescription")}
+                      </p>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                          type="date"
+                          aria-label={t("settings.pohodaFrom")}
+                          value={pohodaFromValue}
+                          onChange={(e) => setPohodaFrom(e.target.value)}
+                          className="form-input"
+                        />
+                        <input
+                          type="date"
+                          aria-label={t("settings.pohodaTo")}
+                          value={pohodaToValue}
+                          onChange={(e) => setPohodaTo(e.target.value)}
+                          className="form-input"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleExportPohodaXml}
+                          className="btn-primary w-full sm:w-auto"
+                        >
+                          {t("settings.pohodaExport")}
+                        </button>
+                      </div>
+                    </div>
+
+                    <div>
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2">
+                        {t("settings.backupHeading")}
+                      </h4>
+                      <p className="settings-help-text-with-margin">
+                        {t("settings.backupDescription")}
+                      </p>
+                      <div className="flex flex-col sm:flex-row gap-2">
+                        <input
+                          type="password"
+                          autoComplete="new-password"
+                          aria-label={t("settings.backupPassphrase")}
+                          placeholder={t("settings.backupPassphrase")}
+                          value={backupPassphrase}
+                          onChange={(e) => setBackupPassphrase(e.target.value)}
+                          className="form-input"
+                        />
+                        <input
+                          type="password"
+                          autoComplete="new-password"
+                          aria-label={t("settings.backupPassphraseConfirm")}
+                          placeholder={t("settings.backupPassphraseConfirm")}
+                          value={backupPassphraseConfirm}
+                          onChange={(e) =>
+                            setBackupPassphraseConfirm(e.target.value)
+                          }
+                          className="form-input"
+                        />
+                        <input
+                          ref={importBackupInputRef}
+                          type="file"
+                          accept=".json,application/json"
+                          onChange={handleImportBackup}
+                          className="hidden"
+                        />
+                        <button
+                          type="button"
+                          onClick={handleExportBackup}
+                          disabled={isBackupBusy}
+                          className="btn-primary w-full sm:w-auto"
+                        >
+                          {isBackupBusy
+                            ? t("settings.backupExporting")
+                            : t("settings.backupExport")}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => importBackupInputRef.current?.click()}
+                          disabled={isBackupBusy}
+                          className="btn-secondary w-full sm:w-auto"
+                        >
+                          {t("settings.backupImport")}
+                        </button>
+                      </div>
+                      {backupPreview && (
+                        <div className="panel-card mt-3">
+                          <p className="text-sm font-semibold mb-2">
+                            {t("settings.backupPreviewTitle", {
+                              date: new Date(
+                                backupPreview.backup.createdAt,
+                              ).toLocaleString(locale),
+                            })}
+                          </p>
+                          <div className="space-y-1 text-sm">
+                            {BACKUP_TABLES.map((table) => {
+                              const counts = backupPreview.diff.find(
+                                (diff) => diff.table === table,
+                              )?.counts;
+                              if (!counts) return null;
+                              return (
+                                <div
+                                  key={table}
+                                  className="flex flex-wrap justify-between gap-2"
+                                >
+                                  <span className="font-medium">
+                                    {t(`settings.backupTables.${table}`)}
+                                  </span>
+                                  <span className="text-slate-600">
+                                    {(
+                                      [
+                                        "new",
+                                        "changed",
+                                        "conflict",
+                                        "unchanged",
+                                      ] as const
+                                    )
+                                      .map(
+                                        (status) =>
+                                          `${t(`settings.backupStatus.${status}`)}: ${counts[status]}`,
+                                      )
+                                      .join(" · ")}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                          </div>
+                          {backupConflicts.length > 0 && (
+                            <div className="mt-3">
+                              <p className="settings-help-text">
+                                {t("settings.backupConflictsHeading")}
+                              </p>
+                              <ul className="mt-1 text-sm list-disc pl-5">
+                                {backupConflicts.map((row) => (
+                                  <li key={`${row.table}:${row.id}`}>
+                                    {t(`settings.backupTables.${row.table}`)}:{" "}
+                                    {row.label || row.id}
+                                  </li>
+                                ))}
+                              </ul>
+                              <label className="settings-checkbox-label mt-2">
+                                <input
+                                  type="checkbox"
+                                  checked={overwriteBackupConflicts}
+                                  onChange={(e) =>
+                                    setOverwriteBackupConflicts(
+                                      e.target.checked,
+                                    )
+                                  }
+                                  className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                {t("settings.backupOverwriteConflicts")}
+                              </label>
+                            </div>
+                          )}
+                          <div className="flex flex-col sm:flex-row gap-2 mt-3">
+                            <button
+                              type="button"
+                              onClick={handleRestoreBackup}
+                              disabled={backupRowsToRestore === 0}
+                              className="btn-primary w-full sm:w-auto"
+                            >
+                              {t("settings.backupApply", {
+                                count: backupRowsToRestore,
+                              })}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setBackupPreview(null)}
+                              className="btn-ghost w-full sm:w-auto"
+                            >
+                              {t("settings.backupCancel")}
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </details>
                 <details className="panel-card mt-2">
@@ -0,0 +1,523 @@
+import { use, useMemo, useState } from "react";
+import * as Evolu from "@evolu/common";
+import { useQuery } from "@evolu/react";
+import { formatMoney } from "../currency";
+import { downloadFile } from "../download";
+import { useEvolu } from "../evolu";
+import { useI18n } from "../i18n";
+import {
+  buildControlStatementXml,
+  buildVatReport,
+  buildVatReturnXml,
+  getPreviousVatPeriod,
+  normalizeTaxSubjectType,
+  normalizeVatPeriodType,
+  type RateAmounts,
+  type VatPeriodType,
+} from "../vatReports";
+
+type EpoSettings = {
+  vatPeriod: VatPeriodType;
+  taxSubjectType: "F" | "P";
+  taxOfficeCode: string;
+  taxOfficeBranchCode: string;
+  naceCode: string;
+};
+
+const toDateInputValue = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+export function VatReportsPage() {
+  const { t, locale } = useI18n();
+  const evolu = useEvolu();
+  const owner = use(evolu.appOwner);
+
+  const profileQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .selectAll()
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    [evolu, owner.id],
+  );
+
+  const invoicesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "invoiceNumber",
+            "documentType",
+            "draft",
+            "clientVatNumber",
+            "issueDate",
+            "duzp",
+            "currency",
+            "exchangeRate",
+            "items",
+            "discount",
+            "discountType",
+            "cashRounding",
+            "vatRegime",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue)
+          .orderBy("invoiceNumber", "asc"),
+      ),
+    [evolu, owner.id],
+  );
+
+  const expensesQuery = useMemo(
+    () =>
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("expense")
+          .select([
+            "id",
+            "expenseNumber",
+            "supplierVat",
+            "amountWithoutVat",
+            "vatRate",
+            "amountWithVat",
+            "expenseDate",
+          ])
+          .where("ownerId", "=", owner.id)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue)
+          .orderBy("expenseDate", "asc"),
+      ),
+    [evolu, owner.id],
+  );
+
+  const profileRows = useQuery(profileQuery);
+  const profile = profileRows[0] ?? null;
+  const invoices = useQuery(invoicesQuery);
+  const expenses = useQuery(expensesQuery);
+
+  // Fields edited on this page; the rest comes from the profile.
+  const [settingsEdits, setSettingsEdits] = useState<Partial<EpoSettings>>({});
+  const settings: EpoSettings = {
+    vatPeriod:
+      settingsEdits.vatPeriod ?? normalizeVatPeriodType(profile?.vatPeriod),
+    taxSubjectType:
+      settingsEdits.taxSubjectType ??
+      normalizeTaxSubjectType(profile?.taxSubjectType),
+    taxOfficeCode: settingsEdits.taxOfficeCode ?? profile?.taxOfficeCode ?? "",
+    taxOfficeBranchCode:
+      settingsEdits.taxOfficeBranchCode ?? profile?.taxOfficeBranchCode ?? "",
+    naceCode: settingsEdits.naceCode ?? profile?.naceCode ?? "",
+  };
+  const updateSettings = (changes: Partial<EpoSettings>) =>
+    setSettingsEdits((prev) => ({ ...prev, ...changes }));
+
+  const [periodChoice, setPeriodChoice] = useState<{
+    year: number;
+    number: number;
+  } | null>(null);
+  const period = periodChoice
+    ? { ...periodChoice, type: settings.vatPeriod }
+    : getPreviousVatPeriod(settings.vatPeriod);
+  const [reverseChargeCode, setReverseChargeCode] = useState("4");
+
+  const { year: periodYear, type: periodType, number: periodNumber } = period;
+  const report = useMemo(
+    () =>
+      buildVatReport(invoices, expenses, {
+        year: periodYear,
+        type: periodType,
+        number: periodNumber,
+      }),
+    [invoices, expenses, periodYear, periodType, periodNumber],
+  );
+
+  const isVatPayer = profile?.vatPayer === Evolu.sqliteTrue;
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, index) => currentYear - index);
+  const periodNumbers = Array.from(
+    { length: settings.vatPeriod === "quarter" ? 4 : 12 },
+    (_, index) => index + 1,
+  );
+
+  const formatCzk = (value: number) => formatMoney(value, "CZK", locale);
+  const sumBases = (amounts: RateAmounts) =>
+    amounts[1].base + amounts[2].base + amounts[3].base;
+  const sumVat = (amounts: RateAmounts) =>
+    amounts[1].vat + amounts[2].vat + amounts[3].vat;
+  const balance = sumVat(report.output) - sumVat(report.input);
+
+  const warnings = [
+    ...report.missingExchangeRate.map((number) =>
+      t("vatReports.warningMissingRate", { number }),
+    ),
+    ...report.unknownVatRate.map((number) =>
+      t("vatReports.warningUnknownRate", { number }),
+    ),
+    ...report.missingCustomerVatNumber.map((number) =>
+      t("vatReports.warningMissingVatNumber", { number }),
+    ),
+  ];
+
+  const periodLabel =
+    period.type === "quarter"
+      ? `${period.year}-Q${period.number}`
+      : `${period.year}-${String(period.number).padStart(2, "0")}`;
+
+  const buildSubject = () => ({
+    vatNumber: profile?.vatNumber ?? null,
+    subjectType: settings.taxSubjectType,
+    name: profile?.name ?? "",
+    addressLine1: profile?.addressLine1 ?? null,
+    addressLine2: profile?.addressLine2 ?? null,
+    email: profile?.email ?? null,
+    phone: profile?.phone ?? null,
+    taxOfficeCode: settings.taxOfficeCode.trim() || null,
+    taxOfficeBranchCode: settings.taxOfficeBranchCode.trim() || null,
+    naceCode: settings.naceCode.trim() || null,
+  });
+
+  const handleSaveSettings = () => {
+    if (!profile?.id) return;
+    const toNullable = (value: string) => value.trim() || null;
+    const result = evolu.update("userProfile", {
+      id: profile.id,
+      vatPeriod: settings.vatPeriod,
+      taxSubjectType: settings.taxSubjectType,
+      taxOfficeCode: toNullable(settings.taxOfficeCode),
+      taxOfficeBranchCode: toNullable(settings.taxOfficeBranchCode),
+      naceCode: toNullable(settings.naceCode),
+    });
+    if (!result.ok) {
+      console.error("Validation error:", result.error);
+      alert(t("alerts.vatReportSettingsFailed"));
+      return;
+    }
+    setSettingsEdits({});
+  };
+
+  const handleDownloadVatReturn = () => {
+    downloadFile(
+      `DPHDP3-${periodLabel}.xml`,
+      new Blob(
+        [
+          buildVatReturnXml(
+            report,
+            buildSubject(),
+            toDateInputValue(new Date()),
+          ),
+        ],
+        { type: "application/xml;charset=utf-8;" },
+      ),
+    );
+  };
+
+  const handleDownloadControlStatement = () => {
+    if (report.a1.length > 0 && !reverseChargeCode.trim()) {
+      alert(t("alerts.reverseChargeCodeRequired"));
+      return;
+    }
+    downloadFile(
+      `DPHKH1-${periodLabel}.xml`,
+      new Blob(
+        [
+          buildControlStatementXml(
+            report,
+            buildSubject(),
+            toDateInputValue(new Date()),
+            reverseChargeCode,
+          ),
+        ],
+        { type: "application/xml;charset=utf-8;" },
+      ),
+    );
+  };
+
+  return (
+    <div className="page-shell">
+      <div className="page-container-lg">
+        <div className="page-card-lg">
+          <div className="mb-6">
+            <p className="section-title">{t("vatReports.sectionTitle")}</p>
+            <h1 className="page-title">{t("vatReports.title")}</h1>
+          </div>
+
+          {!isVatPayer ? (
+            <div className="alert-warning">{t("vatReports.notVatPayer")}</div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="vatPeriod" className="form-label">
+                    {t("vatReports.periodTypeLabel")}
+                  </label>
+                  <select
+                    id="vatPeriod"
+                    value={settings.vatPeriod}
+                    onChange={(e) => {
+                      updateSettings({
+                        vatPeriod: normalizeVatPeriodType(e.target.value),
+                      });
+                      setPeriodChoice(null);
+                    }}
+                    className="form-select"
+                  >
+                    <option value="month">{t("vatReports.periodMonth")}</option>
+                    <option value="quarter">
+                      {t("vatReports.periodQuarter")}
+                    </option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="vatPeriodYear" className="form-label">
+                    {t("vatReports.yearLabel")}
+                  </label>
+                  <select
+                    id="vatPeriodYear"
+                    value={period.year}
+                    onChange={(e) =>
+                      setPeriodChoice({
+                        year: Number(e.target.value),
+                        number: period.number,
+                      })
+                    }
+                    className="form-select"
+                  >
+                    {years.map((year) => (
+                      <option key={year} value={year}>
+                        {year}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="vatPeriodNumber" className="form-label">
+                    {settings.vatPeriod === "quarter"
+                      ? t("vatReports.quarterLabel")
+                      : t("vatReports.monthLabel")}
+                  </label>
+                  <select
+                    id="vatPeriodNumber"
+                    value={period.number}
+                    onChange={(e) =>
+                      setPeriodChoice({
+                        year: period.year,
+                        number: Number(e.target.value),
+                      })
+                    }
+                    className="form-select"
+                  >
+                    {periodNumbers.map((number) => (
+                      <option key={number} value={number}>
+                        {number}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {warnings.length > 0 ? (
+                <div className="alert-warning space-y-1">
+                  {warnings.map((warning) => (
+                    <div key={warning}>{warning}</div>
+                  ))}
+                </div>
+              ) : null}
+
+              <div className="panel-card text-sm space-y-2">
+                <h2 className="text-lg font-semibold">
+                  {t("vatReports.vatReturnTitle")}
+                </h2>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.outputLine")}</span>
+                  <span>
+                    {formatCzk(sumBases(report.output))} /{" "}
+                    {formatCzk(sumVat(report.output))}
+                  </span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.euServicesLine")}</span>
+                  <span>{formatCzk(report.euServices)}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.exportLine")}</span>
+                  <span>{formatCzk(report.export)}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.reverseChargeLine")}</span>
+                  <span>{formatCzk(report.reverseCharge)}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.inputLine")}</span>
+                  <span>
+                    {formatCzk(sumBases(report.input))} /{" "}
+                    {formatCzk(sumVat(report.input))}
+                  </span>
+                </div>
+                <div className="flex justify-between gap-4 font-semibold">
+                  <span>
+                    {balance >= 0
+                      ? t("vatReports.taxDue")
+                      : t("vatReports.excessDeduction")}
+                  </span>
+                  <span>{formatCzk(Math.abs(balance))}</span>
+                </div>
+              </div>
+
+              <div className="panel-card text-sm space-y-2">
+                <h2 className="text-lg font-semibold">
+                  {t("vatReports.controlStatementTitle")}
+                </h2>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.sectionA1")}</span>
+                  <span>{report.a1.length}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.sectionA4")}</span>
+                  <span>{report.a4.length}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.sectionA5")}</span>
+                  <span>{formatCzk(sumBases(report.a5))}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.sectionB2")}</span>
+                  <span>{report.b2.length}</span>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <span>{t("vatReports.sectionB3")}</span>
+                  <span>{formatCzk(sumBases(report.b3))}</span>
+                </div>
+                {report.a1.length > 0 ? (
+                  <div>
+                    <label htmlFor="reverseChargeCode" className="form-label">
+                      {t("vatReports.reverseChargeCodeLabel")}
+                    </label>
+                    <input
+                      id="reverseChargeCode"
+                      type="text"
+                      value={reverseChargeCode}
+                      onChange={(e) => setReverseChargeCode(e.target.value)}
+                      className="form-input"
+                    />
+                  </div>
+                ) : null}
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  type="button"
+                  onClick={handleDownloadVatReturn}
+                  className="btn-primary"
+                >
+                  {t("vatReports.downloadVatReturn")}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDownloadControlStatement}
+                  className="btn-secondary"
+                >
+                  {t("vatReports.downloadControlStatement")}
+                </button>
+              </div>
+
+              <div className="border-t border-slate-200/70 pt-4 space-y-3">
+                <h2 className="settings-subsection-heading">
+                  {t("vatReports.epoSettingsTitle")}
+                </h2>
+                <p className="text-xs text-slate-500">
+                  {t("vatReports.epoSettingsDescription")}
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="taxSubjectType" className="form-label">
+                      {t("vatReports.subjectTypeLabel")}
+                    </label>
+                    <select
+                      id="taxSubjectType"
+                      value={settings.taxSubjectType}
+                      onChange={(e) =>
+                        updateSettings({
+                          taxSubjectType: normalizeTaxSubjectType(
+                            e.target.value,
+                          ),
+                        })
+                      }
+                      className="form-select"
+                    >
+                      <option value="F">
+                        {t("vatReports.subjectNaturalPerson")}
+                      </option>
+                      <option value="P">
+                        {t("vatReports.subjectLegalEntity")}
+                      </option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="naceCode" className="form-label">
+                      {t("vatReports.naceCodeLabel")}
+                    </label>
+                    <input
+                      id="naceCode"
+                      type="text"
+                      value={settings.naceCode}
+                      onChange={(e) =>
+                        updateSettings({ naceCode: e.target.value })
+                      }
+                      className="form-input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="taxOfficeCode" className="form-label">
+                      {t("vatReports.taxOfficeCodeLabel")}
+                    </label>
+                    <input
+                      id="taxOfficeCode"
+                      type="text"
+                      value={settings.taxOfficeCode}
+                      onChange={(e) =>
+                        updateSettings({ taxOfficeCode: e.target.value })
+                      }
+                      className="form-input"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="taxOfficeBranchCode" className="form-label">
+                      {t("vatReports.taxOfficeBranchCodeLabel")}
+                    </label>
+                    <input
+                      id="taxOfficeBranchCode"
+                      type="text"
+                      value={settings.taxOfficeBranchCode}
+                      onChange={(e) =>
+                        updateSettings({ taxOfficeBranchCode: e.target.value })
+                      }
+                      className="form-input"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSaveSettings}
+                  className="btn-secondary"
+                >
+                  {t("vatReports.saveSettings")}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+export const SUPPORTED_CURRENCIES = ["CZK", "EUR", "USD"] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: CurrencyCode = "CZK";
+
+/** Amount per currency, keyed by ISO 4217 code. */
+export type CurrencyTotals = Record<string, number>;
+
+export type CnbRate = {
+  currency: string;
+  /** CZK for one unit of the currency (CNB quotes some per 100 units). */
+  rate: number;
+};
+
+export type CnbDailyRates = {
+  /** YYYY-MM-DD */
+  date: string;
+  rates: CnbRate[];
+};
+
+export type StoredRate = {
+  rateDate: string | null;
+  currency: string | null;
+  rate: number | null;
+};
+
+/** Invoices created before multi-currency support have no currency: CZK. */
+export const normalizeCurrency = (value?: string | null): CurrencyCode => {
+  const normalized = (value ?? "").trim().toUpperCase();
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(normalized)
+    ? (normalized as CurrencyCode)
+    : DEFAULT_CURRENCY;
+};
+
+export const formatMoney = (
+  value: number,
+  currency: string | null | undefined,
+  locale: string,
+  fractionDigits: { min?: number; max?: number } = {},
+): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: normalizeCurrency(currency),
+    minimumFractionDigits: fractionDigits.min ?? 2,
+    maximumFractionDigits: fractionDigits.max ?? 2,
+  }).format(value);
+
+export const addToCurrencyTotals = (
+  totals: CurrencyTotals,
+  currency: string | null | undefined,
+  amount: number,
+): CurrencyTotals => {
+  const code = normalizeCurrency(currency);
+  totals[code] = (totals[code] ?? 0) + amount;
+  return totals;
+};
+
+/** "12 100,00 Kč + 400,00 €"; an empty map is formatted as zero CZK. */
+export const formatCurrencyTotals = (
+  totals: CurrencyTotals,
+  locale: string,
+): string => {
+  const entries = SUPPORTED_CURRENCIES.filter(
+    (code) => totals[code] !== undefined && totals[code] !== 0,
+  );
+  if (entries.length === 0) return formatMoney(0, DEFAULT_CURRENCY, locale);
+  return entries
+    .map((code) => formatMoney(totals[code], code, locale))
+    .join(" + ");
+};
+
+const parseCzechNumber = (value: string): number =>
+  Number(value.trim().replace(/\s/g, "").replace(",", "."));
+
+/**
+ * Parses the CNB daily exchange rate file (`denni_kurz.txt`):
+ *
+ *     17.10.2025 #202
+ *     země|měna|množství|kód|kurz
+ *     EMU|euro|1|EUR|24,330
+ */
+export const parseCnbDailyRates = (text: string): CnbDailyRates | null => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length < 3) return null;
+
+  const dateMatch = lines[0].match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+  if (!dateMatch) return null;
+  const [, day, month, year] = dateMatch;
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+
+  const rates: CnbRate[] = [];
+  for (const line of lines.slice(2)) {
+    const parts = line.split("|");
+    if (parts.length < 5) continue;
+    const amount = parseCzechNumber(parts[2]);
+    const code = parts[3].trim().toUpperCase();
+    const rate = parseCzechNumber(parts[4]);
+    if (!code || !Number.isFinite(amount) || amount <= 0) continue;
+    if (!Number.isFinite(rate) || rate <= 0) continue;
+    rates.push({ currency: code, rate: rate / amount });
+  }
+
+  return rates.length > 0 ? { date, rates } : null;
+};
+
+/**
+ * The rate valid on `date` (YYYY-MM-DD or ISO): CNB does not publish on
+ * weekends and holidays, so the latest rate on or before the date applies.
+ */
+export const findRateForDate = (
+  rates: readonly StoredRate[],
+  currency: string,
+  date: string,
+): { rateDate: string; rate: number } | null => {
+  const day = date.slice(0, 10);
+  let best: { rateDate: string; rate: number } | null = null;
+  for (const row of rates) {
+    if (!row.rateDate || row.rate == null) continue;
+    if (row.currency?.toUpperCase() !== currency) continue;
+    const rateDay = row.rateDate.slice(0, 10);
+    if (rateDay > day) continue;
+    if (!best || rateDay > best.rateDate) {
+      best = { rateDate: rateDay, rate: row.rate };
+    }
+  }
+  return best;
+};
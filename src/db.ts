@@ -3,10 +3,16 @@
 
 import CryptoJS from "crypto-js";
 import {
-  deriveKeyFromMnemonic,
   encryptToString,
   decryptFromString,
+  isEncryptedData,
 } from "./encryption";
+import {
+  deriveRelaySigningKey,
+  generateRelaySigningKey,
+  signRelayPush,
+  type RelaySigningKey,
+} from "./relaySignature";
 
 export interface UserProfile {
   id: string;
@@ -34,10 +40,23 @@ export interface UserProfile {
 }
 
 export interface RelayMessage {
-  type: "push" | "pull" | "pull-response" | "push-ack";
+  type:
+    | "push"
+    | "pull"
+    | "pull-response"
+    | "push-ack"
+    | "push-rejected"
+    | "history"
+    | "history-response";
   userId?: string;
   data?: string; // Encrypted data
-  timestamp?: number;
+  timestamp?: number | null;
+  // Signed pushes: the version replaced, the signer and its signature
+  previousTimestamp?: number | null;
+  publicKey?: string;
+  signature?: string;
+  // Why the relay refused a push: invalid, unsigned, unauthorized, unclaimed, conflict, stale, quota or storage
+  reason?: string;
   // Alternative field names used by some relays
   u?: string; // userId
   d?: string; // data
@@ -307,6 +326,13 @@ let pendingPush: RelayMessage | null = null;
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_DELAY = 3000; // 3 seconds
 let activeMnemonic: string | null = null;
+// Latest version the relay holds per userId; sent as previousTimestamp so the
+// relay can reject pushes based on an outdated copy.
+const relayTimestamps = new Map<string, number | null>();
+let relaySigningKey: {
+  mnemonic: string;
+  key: Promise<RelaySigningKey>;
+} | null = null;
 
 // Connection status listeners
 const connectionListeners = new Set<(connected: boolean) => void>();
@@ -372,8 +398,7 @@ function ensureStorageListener() {
 
   window.addEventListener("storage", (event) => {
     if (event.key !== STORAGE_KEY) return;
-    const updated = getUserProfile();
-    notifyProfile(updated);
+    getUserProfile().then(notifyProfile).catch(console.error);
   });
 }
 
@@ -395,14 +420,19 @@ async function checkFallbackRelay(): Promise<void> {
       `[checkFallbackRelay] ✓ Found data in relay for userId: ${userId}`,
     );
     try {
-      const key = deriveKeyFromMnemonic(activeMnemonic);
-      const relayProfile = decryptFromString<UserProfile>(storedData.data, key);
-      if (relayProfile) {
+      const decrypted = await decryptFromString<UserProfile>(
+        storedData.data,
+        activeMnemonic,
+      );
+      if (decrypted) {
         console.log(
           "[checkFallbackRelay] ✓ Decrypted and notifying profile from relay",
-          relayProfile,
+          decrypted.data,
         );
-        notifyProfile(relayProfile);
+        if (decrypted.upgraded) {
+          storeInRelayDb(userId, decrypted.upgraded).catch(console.error);
+        }
+        notifyProfile(decrypted.data);
       } else {
         console.log("[checkFallbackRelay] ✗ Decryption returned null/falsy");
       }
@@ -568,7 +598,7 @@ export async function initializeRelayConnection(): Promise<void> {
           "userId:",
           message.userId,
         );
-        handleRelayMessage(message);
+        await handleRelayMessage(message);
       } catch (error) {
         // Only log non-JSON parsing errors, ignore JSON parse errors from non-JSON messages
         if (error instanceof SyntaxError) {
@@ -589,7 +619,7 @@ export async function initializeRelayConnection(): Promise<void> {
 }
 
 // Handle incoming messages from relay
-function handleRelayMessage(message: RelayMessage) {
+async function handleRelayMessage(message: RelayMessage): Promise<void> {
   const normalizedUserId = message.userId || message.u;
   const normalizedData = message.data ?? message.d;
   console.log(
@@ -630,6 +660,22 @@ function handleRelayMessage(message: RelayMessage) {
       );
       return;
     }
+
+    if (message.type === "push-rejected") {
+      clearTimeout(pendingRelayCheck.timeoutId);
+      pendingRelayCheck.resolve("error");
+      pendingRelayCheck = null;
+      notifyRelayPersistenceStatus("error");
+      console.log(
+        "[handleRelayMessage] Relay persistence check result: ✗ push rejected:",
+        message.reason,
+      );
+      return;
+    }
+  }
+
+  if (normalizedUserId && message.type === "pull-response") {
+    relayTimestamps.set(normalizedUserId, message.timestamp ?? null);
   }
 
   if (message.type === "pull-response") {
@@ -666,8 +712,13 @@ function handleRelayMessage(message: RelayMessage) {
     }
 
     try {
-      const key = deriveKeyFromMnemonic(activeMnemonic);
-      const relayProfile = decryptFromString<UserProfile>(normalizedData, key);
+      const decrypted = await decryptFromString<UserProfile>(
+        normalizedData,
+        activeMnemonic,
+      );
+      const relayProfile = decrypted?.data;
+      // The relay still holds a v1 envelope: push whichever copy wins as v2
+      const relayNeedsUpgrade = !!decrypted?.upgraded;
       console.log(
         "[handleRelayMessage] Decryption result:",
         relayProfile ? "✓ success" : "✗ failed",
@@ -686,23 +737,29 @@ function handleRelayMessage(message: RelayMessage) {
           iban: !!relayProfile.iban,
         });
         // Merge with local data - newer version wins
-        const local = getUserProfile();
+        const local = await getUserProfile();
         if (!local) {
           console.log(
             "[handleRelayMessage] Local database MISSING, saving relay data",
           );
-          saveEncryptedProfile(relayProfile);
+          await saveEncryptedProfile(relayProfile);
           notifyProfile(relayProfile);
+          if (relayNeedsUpgrade) void pushToRelay(relayProfile);
         } else if (relayProfile.updatedAt > local.updatedAt) {
           console.log(
             `[handleRelayMessage] Relay data is NEWER (relay: ${new Date(relayProfile.updatedAt).toISOString()}, local: ${new Date(local.updatedAt).toISOString()}). Updating...`,
           );
-          saveEncryptedProfile(relayProfile);
+          await saveEncryptedProfile(relayProfile);
           notifyProfile(relayProfile);
+          if (relayNeedsUpgrade) void pushToRelay(relayProfile);
         } else {
           console.log(
             `[handleRelayMessage] Local data is NEWER or SAME (local: ${new Date(local.updatedAt).toISOString()}, relay: ${new Date(relayProfile.updatedAt).toISOString()}). Keeping local.`,
           );
+          // A push rejected as a conflict lands here after the re-pull
+          if (local.updatedAt > relayProfile.updatedAt || relayNeedsUpgrade) {
+            void pushToRelay(local);
+          }
         }
       } else {
         console.error("[handleRelayMessage] ✗ Decryption returned falsy value");
@@ -712,6 +769,28 @@ function handleRelayMessage(message: RelayMessage) {
     }
   } else if (message.type === "push-ack") {
     console.log("[handleRelayMessage] ✓ Push to relay acknowledged");
+    if (normalizedUserId && typeof message.timestamp === "number") {
+      relayTimestamps.set(normalizedUserId, message.timestamp);
+    }
+  } else if (message.type === "push-rejected") {
+    console.warn(
+      "[handleRelayMessage] ✗ Push rejected by relay:",
+      message.reason,
+    );
+    if (
+      normalizedUserId &&
+      (message.reason === "conflict" || message.reason === "stale")
+    ) {
+      // Someone else pushed first: merge their version, then push again if ours is newer
+      relayTimestamps.set(normalizedUserId, message.timestamp ?? null);
+      schedulePull("push rejected");
+    } else if (message.reason === "unclaimed" && activeMnemonic) {
+      // Data from before signed pushes: the relay operator binds our key by hand
+      const key = await getRelaySigningKey(activeMnemonic);
+      console.warn(
+        `[handleRelayMessage] The relay holds unsigned data for this account. Ask its operator to approve key ${key.publicKey}`,
+      );
+    }
   } else if (message.type === "push") {
     console.log(
       "[handleRelayMessage] ⚠ Received push message from relay (real-time sync) - relay may be echoing back push requests",
@@ -732,10 +811,9 @@ function handleRelayMessage(message: RelayMessage) {
 }
 
 // Save encrypted profile to local storage
-function saveEncryptedProfile(profile: UserProfile): void {
+async function saveEncryptedProfile(profile: UserProfile): Promise<void> {
   try {
-    const encryptionKey = deriveKeyFromMnemonic(profile.mnemonic);
-    const encryptedData = encryptToString(profile, encryptionKey);
+    const encryptedData = await encryptToString(profile, profile.mnemonic);
     localStorage.setItem(STORAGE_KEY, encryptedData);
     // Store mnemonic separately (unencrypted) to enable decryption on page load
     localStorage.setItem(MNEMONIC_KEY, profile.mnemonic);
@@ -757,11 +835,11 @@ function saveEncryptedProfile(profile: UserProfile): void {
 }
 
 // Save user profile to local storage (encrypted) and sync to relay
-export function saveUserProfile(
+export async function saveUserProfile(
   profile: Omit<UserProfile, "id" | "createdAt" | "updatedAt">,
-): UserProfile {
+): Promise<UserProfile> {
   const now = Date.now();
-  const existing = getUserProfile();
+  const existing = await getUserProfile();
 
   const stableId = deriveUserId(profile.mnemonic);
 
@@ -788,7 +866,7 @@ export function saveUserProfile(
   };
 
   // Save encrypted locally
-  saveEncryptedProfile(userProfile);
+  await saveEncryptedProfile(userProfile);
 
   // Notify listeners immediately
   notifyProfile(userProfile);
@@ -797,13 +875,13 @@ export function saveUserProfile(
   setActiveMnemonic(userProfile.mnemonic);
 
   // Push encrypted to relay
-  pushToRelay(userProfile);
+  void pushToRelay(userProfile);
 
   return userProfile;
 }
 
 // Load user profile from local storage (decrypted)
-export function getUserProfile(): UserProfile | null {
+export async function getUserProfile(): Promise<UserProfile | null> {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (!stored) return null;
@@ -811,7 +889,7 @@ export function getUserProfile(): UserProfile | null {
     const parsed = JSON.parse(stored);
 
     // If encrypted format, decrypt using the stored mnemonic or active mnemonic
-    if (parsed.version && parsed.encrypted && parsed.iv) {
+    if (isEncryptedData(parsed)) {
       // Try to get mnemonic from localStorage first
       const storedMnemonic = localStorage.getItem(MNEMONIC_KEY);
       const mnemonicToUse = storedMnemonic || activeMnemonic;
@@ -828,9 +906,17 @@ export function getUserProfile(): UserProfile | null {
         setActiveMnemonic(storedMnemonic);
       }
 
-      const encryptionKey = deriveKeyFromMnemonic(mnemonicToUse);
-      const decrypted = decryptFromString<UserProfile>(stored, encryptionKey);
-      if (decrypted) return decrypted;
+      const decrypted = await decryptFromString<UserProfile>(
+        stored,
+        mnemonicToUse,
+      );
+      if (decrypted) {
+        // Replace a v1 envelope with the v2 one on first read
+        if (decrypted.upgraded) {
+          localStorage.setItem(STORAGE_KEY, decrypted.upgraded);
+        }
+        return decrypted.data;
+      }
 
       console.error("[getUserProfile] Failed to decrypt stored profile");
       return null;
@@ -966,6 +1052,7 @@ export async function runRelayPersistenceCheck(): Promise<RelayPersistenceStatus
       pendingRelayCheck = null;
     }
 
+    // The bundled relay deletes __relay_check__ users once their pull is answered
     const userId = `__relay_check__:${Date.now()}:${Math.random().toString(16).slice(2)}`;
     const testData = `relay-check:${Date.now()}`;
 
@@ -984,17 +1071,13 @@ export async function runRelayPersistenceCheck(): Promise<RelayPersistenceStatus
       };
     });
 
-    relayWs.send(
-      JSON.stringify({
-        type: "push" as const,
-        userId,
-        data: testData,
-        timestamp: Date.now(),
-        u: userId,
-        d: testData,
-        t: Date.now(),
-      }),
+    // The check pushes under a fresh userId, so a throwaway key is enough
+    const pushMessage = await createPushMessage(
+      userId,
+      testData,
+      await generateRelaySigningKey(),
     );
+    relayWs?.send(JSON.stringify(pushMessage));
 
     setTimeout(() => {
       if (!relayWs || relayWs.readyState !== WebSocket.OPEN) return;
@@ -1029,7 +1112,7 @@ async function performPull(): Promise<void> {
     return;
   }
 
-  const profile = getUserProfile();
+  const profile = await getUserProfile();
   const userId =
     profile?.id || (activeMnemonic ? deriveUserId(activeMnemonic) : "new-user");
 
@@ -1046,30 +1129,33 @@ async function performPull(): Promise<void> {
         `[performPull] ✓ FOUND data in IndexedDB relay! Data length: ${storedData.data?.length || 0} chars`,
       );
       try {
-        const key = deriveKeyFromMnemonic(activeMnemonic);
-        const relayProfile = decryptFromString<UserProfile>(
+        const decrypted = await decryptFromString<UserProfile>(
           storedData.data,
-          key,
+          activeMnemonic,
         );
+        const relayProfile = decrypted?.data;
+        if (decrypted?.upgraded) {
+          storeInRelayDb(userId, decrypted.upgraded).catch(console.error);
+        }
         if (relayProfile) {
           console.log("[performPull] ✓ Successfully decrypted relay data:", {
             name: relayProfile.name,
             id: relayProfile.id,
           });
-          const local = getUserProfile();
+          const local = await getUserProfile();
           if (!local) {
             // Local database missing - download from relay
             console.log(
               "[performPull] Local database MISSING, downloading from relay...",
             );
-            saveEncryptedProfile(relayProfile);
+            await saveEncryptedProfile(relayProfile);
             notifyProfile(relayProfile);
           } else if (relayProfile.updatedAt > local.updatedAt) {
             // Relay has newer data - update local
             console.log(
               `[performPull] Relay data is NEWER (relay: ${new Date(relayProfile.updatedAt).toISOString()}, local: ${new Date(local.updatedAt).toISOString()}). Updating...`,
             );
-            saveEncryptedProfile(relayProfile);
+            await saveEncryptedProfile(relayProfile);
             notifyProfile(relayProfile);
           } else {
             // Local data is newer or same - keep local
@@ -1123,22 +1209,50 @@ export function pullLatestFromRelay(): Promise<void> {
   return Promise.resolve();
 }
 
+// Signing key for the active mnemonic, derived once (PBKDF2 is slow)
+function getRelaySigningKey(mnemonic: string): Promise<RelaySigningKey> {
+  if (relaySigningKey?.mnemonic !== mnemonic) {
+    relaySigningKey = { mnemonic, key: deriveRelaySigningKey(mnemonic) };
+  }
+  return relaySigningKey.key;
+}
+
+// Build a signed push replacing the version of the relay we last saw
+async function createPushMessage(
+  userId: string,
+  data: string,
+  key: RelaySigningKey,
+): Promise<RelayMessage> {
+  const previousTimestamp = relayTimestamps.get(userId) ?? null;
+  // The relay rejects timestamps not after the latest one, so a device whose
+  // clock is behind still moves the chain forward instead of looping on "stale"
+  const timestamp = Math.max(Date.now(), (previousTimestamp ?? 0) + 1);
+  const signed = await signRelayPush(key, {
+    userId,
+    data,
+    timestamp,
+    previousTimestamp,
+  });
+  return {
+    type: "push",
+    ...signed,
+    u: userId,
+    d: data,
+    t: timestamp,
+  };
+}
+
 // Push encrypted data to relay
-function pushToRelay(profile: UserProfile): void {
+async function pushToRelay(profile: UserProfile): Promise<void> {
   if (!relayWs || relayWs.readyState !== WebSocket.OPEN) {
     try {
-      const encryptionKey = deriveKeyFromMnemonic(profile.mnemonic);
-      const encryptedData = encryptToString(profile, encryptionKey);
+      const encryptedData = await encryptToString(profile, profile.mnemonic);
       const userId = profile.id || deriveUserId(profile.mnemonic);
-      pendingPush = {
-        type: "push",
+      pendingPush = await createPushMessage(
         userId,
-        data: encryptedData,
-        timestamp: Date.now(),
-        u: userId,
-        d: encryptedData,
-        t: Date.now(),
-      };
+        encryptedData,
+        await getRelaySigningKey(profile.mnemonic),
+      );
       console.warn(
         "[pushToRelay] Relay not connected, queued push for next connection",
       );
@@ -1150,8 +1264,7 @@ function pushToRelay(profile: UserProfile): void {
   }
 
   try {
-    const encryptionKey = deriveKeyFromMnemonic(profile.mnemonic);
-    const encryptedData = encryptToString(profile, encryptionKey);
+    const encryptedData = await encryptToString(profile, profile.mnemonic);
     const userId = profile.id || deriveUserId(profile.mnemonic);
 
     console.log("[pushToRelay] Preparing to push data for userId:", userId);
@@ -1170,21 +1283,23 @@ function pushToRelay(profile: UserProfile): void {
     // Store in IndexedDB relay for incognito/cross-tab sync
     storeInRelayDb(userId, encryptedData).catch(console.error);
 
-    const pushMessage = {
-      type: "push" as const,
+    const pushMessage = await createPushMessage(
       userId,
-      data: encryptedData,
-      timestamp: Date.now(),
-      u: userId,
-      d: encryptedData,
-      t: Date.now(),
-    };
+      encryptedData,
+      await getRelaySigningKey(profile.mnemonic),
+    );
 
     console.log(
       "[pushToRelay] Sending push message to remote relay (data length:",
       encryptedData.length,
       "chars)",
     );
+    // The socket may have closed while the push was being signed
+    if (!relayWs || relayWs.readyState !== WebSocket.OPEN) {
+      pendingPush = pushMessage;
+      console.warn("[pushToRelay] Relay disconnected, queued signed push");
+      return;
+    }
     relayWs.send(JSON.stringify(pushMessage));
 
     console.log("[pushToRelay] Encrypted profile pushed to remote relay");
@@ -1203,13 +1318,13 @@ export function clearUserProfile(): void {
 }
 
 // Utility to set mnemonic context and optionally trigger a pull
-export function activateMnemonicAndPull(mnemonic: string): Promise<void> {
+export async function activateMnemonicAndPull(mnemonic: string): Promise<void> {
   console.log("[activateMnemonicAndPull] Starting with mnemonic: ***");
   setActiveMnemonic(mnemonic);
   // setActiveMnemonic now calls checkFallbackRelay() automatically
 
   // Also check local storage immediately
-  const localProfile = getUserProfile();
+  const localProfile = await getUserProfile();
   if (localProfile) {
     console.log("[activateMnemonicAndPull] Found local profile, notifying:", {
       name: localProfile.name,
@@ -1224,11 +1339,10 @@ export function activateMnemonicAndPull(mnemonic: string): Promise<void> {
   // Then pull latest from relay
   console.log("[activateMnemonicAndPull] Scheduling pull from relay...");
   schedulePull("activateMnemonicAndPull");
-  return Promise.resolve();
 }
 
 // Diagnostic helper - run this in console for debugging
-export function diagnoseSync(): void {
+export async function diagnoseSync(): Promise<void> {
   console.group("📊 SYNC DIAGNOSTIC REPORT");
 
   console.log("=== CONNECTION STATUS ===");
@@ -1252,7 +1366,7 @@ export function diagnoseSync(): void {
   );
 
   console.log("\n=== LOCAL PROFILE ===");
-  const profile = getUserProfile();
+  const profile = await getUserProfile();
   if (profile) {
     console.log("Name:", profile.name);
     console.log("Email:", profile.email);
@@ -0,0 +1,127 @@
+export type EmlAddress = {
+  name?: string | null;
+  address: string;
+};
+
+export type EmlAttachment = {
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+};
+
+export type EmlMessage = {
+  from?: EmlAddress | null;
+  to?: readonly EmlAddress[];
+  subject: string;
+  body: string;
+  attachments?: readonly EmlAttachment[];
+  date?: Date;
+};
+
+const CRLF = "\r\n";
+/** Bytes of UTF-8 per encoded word, so each stays within 75 characters. */
+const ENCODED_WORD_BYTES = 45;
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const wrapBase64 = (bytes: Uint8Array) =>
+  (toBase64(bytes).match(/.{1,76}/g) ?? []).join(CRLF);
+
+const isPlainAscii = (value: string) => /^[\x20-\x7e]*$/.test(value);
+
+/** RFC 2047 encoded words for header text outside printable ASCII. */
+const encodeHeaderText = (value: string): string => {
+  if (isPlainAscii(value)) return value;
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (encoder.encode(chunk + char).length > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words
+    .map((word) => `=?UTF-8?B?${toBase64(encoder.encode(word))}?=`)
+    .join(`${CRLF} `);
+};
+
+const formatAddress = ({ name, address }: EmlAddress) => {
+  const trimmedName = name?.trim();
+  if (!trimmedName) return address;
+  const displayName = isPlainAscii(trimmedName)
+    ? `"${trimmedName.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeaderText(trimmedName);
+  return `${displayName} <${address}>`;
+};
+
+/** RFC 5322 date in UTC, e.g. "Mon, 19 Oct 2026 08:30:00 +0000". */
+const formatDate = (date: Date) => date.toUTCString().replace(/GMT$/, "+0000");
+
+/** ASCII file name plus an RFC 2231 parameter when it has other characters. */
+const fileNameParameters = (filename: string) => {
+  const asciiName = filename
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]|["\\]/g, "_");
+  if (asciiName === filename) return `filename="${filename}"`;
+  return `filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+/**
+ * An RFC 5322 message with a UTF-8 plain-text body and base64 attachments.
+ * It is marked unsent, so mail clients that honour `X-Unsent` (Outlook) open
+ * it as a draft ready to send; others show it as a message to forward or
+ * edit as new.
+ */
+export const buildEml = (message: EmlMessage): string => {
+  const boundary = `=_fakturing_${Date.now().toString(36)}${Math.random()
+    .toString(36)
+    .slice(2)}`;
+  const headers = [
+    "MIME-Version: 1.0",
+    `Date: ${formatDate(message.date ?? new Date())}`,
+    message.from ? `From: ${formatAddress(message.from)}` : null,
+    message.to && message.to.length > 0
+      ? `To: ${message.to.map(formatAddress).join(", ")}`
+      : null,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    "X-Unsent: 1",
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+  ].filter((header): header is string => header !== null);
+
+  const body = [
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(encoder.encode(message.body.replace(/\r?\n/g, CRLF))),
+  ];
+  const attachments = (message.attachments ?? []).flatMap((attachment) => [
+    `--${boundary}`,
+    `Content-Type: ${attachment.contentType}`,
+    "Content-Transfer-Encoding: base64",
+    `Content-Disposition: attachment; ${fileNameParameters(attachment.filename)}`,
+    "",
+    wrapBase64(attachment.data),
+  ]);
+
+  return [
+    ...headers,
+    "",
+    "This is a multi-part message in MIME format.",
+    ...body,
+    ...attachments,
+    `--${boundary}--`,
+    "",
+  ].join(CRLF);
+};
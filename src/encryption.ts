@@ -2,23 +2,110 @@ import CryptoJS from "crypto-js";
 
 /**
  * Encryption utilities for securing user data
- * Uses AES-256 encryption with keys derived from the mnemonic
+ * Uses AES-256-GCM (WebCrypto) with a key derived from the mnemonic or a
+ * passphrase by PBKDF2-SHA256 under a random salt.
  */
 
-const ENCRYPTION_VERSION = "1";
+const ENCRYPTION_VERSION = "2";
+const KDF_NAME = "PBKDF2-SHA256";
+const KDF_ITERATIONS = 600_000;
+// Envelopes outside this range are refused rather than derived: too few
+// iterations would be a downgrade, too many a way to hang the app.
+const MIN_KDF_ITERATIONS = 100_000;
+const MAX_KDF_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Derived keys kept per secret and salt, so repeated saves skip the KDF.
+const MAX_CACHED_KEYS = 8;
 
-export interface EncryptedData {
-  version: string;
+/** Legacy envelope: crypto-js AES-256-CBC without authentication. */
+export interface EncryptedDataV1 {
+  version: "1";
   encrypted: string;
   iv: string;
 }
 
+/** AES-256-GCM envelope; the KDF parameters are authenticated with the data. */
+export interface EncryptedDataV2 {
+  version: "2";
+  kdf: typeof KDF_NAME;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type EncryptedData = EncryptedDataV1 | EncryptedDataV2;
+
+export interface DecryptedData<T> {
+  data: T;
+  /** The same data as a v2 envelope when the input was v1, otherwise null. */
+  upgraded: EncryptedDataV2 | null;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const keyCache = new Map<string, Promise<CryptoKey>>();
+let sessionSalt: Uint8Array<ArrayBuffer> | null = null;
+
+const deriveKey = (
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> => {
+  const cacheKey = `${iterations}:${toBase64(salt)}:${secret}`;
+  const cached = keyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const key = crypto.subtle
+    .importKey("raw", encoder.encode(secret.trim()), "PBKDF2", false, [
+      "deriveKey",
+    ])
+    .then((baseKey) =>
+      crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+        baseKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      ),
+    );
+  keyCache.set(cacheKey, key);
+  key.catch(() => keyCache.delete(cacheKey));
+  if (keyCache.size > MAX_CACHED_KEYS) {
+    keyCache.delete(keyCache.keys().next().value!);
+  }
+  return key;
+};
+
+// Binds the version and KDF parameters to the ciphertext.
+const additionalData = (
+  envelope: Pick<EncryptedDataV2, "version" | "kdf" | "iterations" | "salt">,
+) =>
+  encoder.encode(
+    JSON.stringify([
+      envelope.version,
+      envelope.kdf,
+      envelope.iterations,
+      envelope.salt,
+    ]),
+  );
+
 /**
- * Derive a 256-bit encryption key from a mnemonic using PBKDF2
- * @param mnemonic - The BIP39 mnemonic phrase
- * @returns A 256-bit key suitable for AES encryption
+ * Derive the v1 key from a mnemonic (PBKDF2, 1,000 iterations, fixed salt).
+ * Only used to read envelopes written before v2.
  */
-export function deriveKeyFromMnemonic(mnemonic: string): string {
+function deriveLegacyKey(mnemonic: string): string {
   const salt = "invoiceapp:encryption";
   const key = CryptoJS.PBKDF2(mnemonic.trim(), salt, {
     keySize: 256 / 32, // 256 bits / 32 bits per word
@@ -28,54 +115,118 @@ export function deriveKeyFromMnemonic(mnemonic: string): string {
   return key.toString();
 }
 
+function decryptLegacy(encryptedData: EncryptedDataV1, secret: string): string {
+  const decrypted = CryptoJS.AES.decrypt(
+    encryptedData.encrypted,
+    CryptoJS.enc.Hex.parse(deriveLegacyKey(secret)),
+    {
+      iv: CryptoJS.enc.Hex.parse(encryptedData.iv),
+      mode: CryptoJS.mode.CBC,
+      padding: CryptoJS.pad.Pkcs7,
+    },
+  );
+  return decrypted.toString(CryptoJS.enc.Utf8);
+}
+
 /**
- * Encrypt data using AES-256-GCM
+ * Check whether a parsed value is an envelope written by encryptData
+ * @param value - Anything parsed from storage
+ */
+export function isEncryptedData(value: unknown): value is EncryptedData {
+  if (!value || typeof value !== "object") return false;
+  const envelope = value as Record<string, unknown>;
+  if (envelope.version === "1") return !!envelope.encrypted && !!envelope.iv;
+  return (
+    envelope.version === ENCRYPTION_VERSION &&
+    !!envelope.salt &&
+    !!envelope.iv &&
+    !!envelope.ciphertext
+  );
+}
+
+/**
+ * Encrypt data as a v2 envelope
  * @param data - The data to encrypt (will be JSON stringified)
- * @param encryptionKey - The encryption key (derived from mnemonic)
- * @returns Encrypted data with version and IV
+ * @param secret - The mnemonic or passphrase the key is derived from
+ * @returns Encrypted data with version, KDF parameters and IV
  */
-export function encryptData(data: unknown, encryptionKey: string): EncryptedData {
-  // Generate a random IV
-  const iv = CryptoJS.lib.WordArray.random(16);
-
-  // Serialize data to JSON
-  const plaintext = JSON.stringify(data);
-
-  // Encrypt using AES-256-CBC (AES-GCM not directly supported in crypto-js)
-  const encrypted = CryptoJS.AES.encrypt(plaintext, CryptoJS.enc.Hex.parse(encryptionKey), {
-    iv: iv,
-    mode: CryptoJS.mode.CBC,
-    padding: CryptoJS.pad.Pkcs7,
-  });
+export async function encryptData(
+  data: unknown,
+  secret: string,
+): Promise<EncryptedDataV2> {
+  // One random salt per session keeps repeated saves fast; the IV is always fresh.
+  sessionSalt ??= crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const header = {
+    version: ENCRYPTION_VERSION,
+    kdf: KDF_NAME,
+    iterations: KDF_ITERATIONS,
+    salt: toBase64(sessionSalt),
+  } as const;
+
+  const key = await deriveKey(secret, sessionSalt, KDF_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(header) },
+    key,
+    encoder.encode(JSON.stringify(data)),
+  );
 
   return {
-    version: ENCRYPTION_VERSION,
-    encrypted: encrypted.toString(),
-    iv: iv.toString(),
+    ...header,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
   };
 }
 
 /**
- * Decrypt data that was encrypted with encryptData
+ * Decrypt data that was encrypted with encryptData, v1 or v2
  * @param encryptedData - The encrypted data object
- * @param encryptionKey - The encryption key (derived from mnemonic)
- * @returns Decrypted and parsed data, or null if decryption fails
+ * @param secret - The mnemonic or passphrase it was encrypted with
+ * @returns Decrypted and parsed data, plus a v2 copy to store back when the
+ * input was v1; null if decryption fails (wrong secret or tampered data)
  */
-export function decryptData<T>(encryptedData: EncryptedData, encryptionKey: string): T | null {
+export async function decryptData<T>(
+  encryptedData: EncryptedData,
+  secret: string,
+): Promise<DecryptedData<T> | null> {
   try {
-    if (encryptedData.version !== ENCRYPTION_VERSION) {
+    if (encryptedData.version === "1") {
+      const data = JSON.parse(decryptLegacy(encryptedData, secret)) as T;
+      return { data, upgraded: await encryptData(data, secret) };
+    }
+
+    if (
+      encryptedData.version !== ENCRYPTION_VERSION ||
+      encryptedData.kdf !== KDF_NAME
+    ) {
       console.error("Unsupported encryption version:", encryptedData.version);
       return null;
     }
+    const { iterations } = encryptedData;
+    if (
+      !Number.isInteger(iterations) ||
+      iterations < MIN_KDF_ITERATIONS ||
+      iterations > MAX_KDF_ITERATIONS
+    ) {
+      console.error("Unsupported KDF iterations:", iterations);
+      return null;
+    }
 
-    const decrypted = CryptoJS.AES.decrypt(encryptedData.encrypted, CryptoJS.enc.Hex.parse(encryptionKey), {
-      iv: CryptoJS.enc.Hex.parse(encryptedData.iv),
-      mode: CryptoJS.mode.CBC,
-      padding: CryptoJS.pad.Pkcs7,
-    });
-
-    const plaintext = decrypted.toString(CryptoJS.enc.Utf8);
-    return JSON.parse(plaintext) as T;
+    const key = await deriveKey(
+      secret,
+      fromBase64(encryptedData.salt),
+      iterations,
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: fromBase64(encryptedData.iv),
+        additionalData: additionalData(encryptedData),
+      },
+      key,
+      fromBase64(encryptedData.ciphertext),
+    );
+    return { data: JSON.parse(decoder.decode(plaintext)) as T, upgraded: null };
   } catch (error) {
     console.error("Failed to decrypt data:", error);
     return null;
@@ -85,18 +236,34 @@ export function decryptData<T>(encryptedData: EncryptedData, encryptionKey: stri
 /**
  * Encrypt data to a string (for storage/transmission)
  */
-export function encryptToString(data: unknown, encryptionKey: string): string {
-  const encrypted = encryptData(data, encryptionKey);
+export async function encryptToString(
+  data: unknown,
+  secret: string,
+): Promise<string> {
+  const encrypted = await encryptData(data, secret);
   return JSON.stringify(encrypted);
 }
 
 /**
- * Decrypt data from a string
+ * Decrypt data from a string; `upgraded` is the v2 string to store back
+ * when the input was v1
  */
-export function decryptFromString<T>(encryptedString: string, encryptionKey: string): T | null {
+export async function decryptFromString<T>(
+  encryptedString: string,
+  secret: string,
+): Promise<{ data: T; upgraded: string | null } | null> {
   try {
-    const encryptedData = JSON.parse(encryptedString) as EncryptedData;
-    return decryptData<T>(encryptedData, encryptionKey);
+    const encryptedData: unknown = JSON.parse(encryptedString);
+    if (!isEncryptedData(encryptedData)) {
+      console.error("Not an encrypted envelope");
+      return null;
+    }
+    const decrypted = await decryptData<T>(encryptedData, secret);
+    if (!decrypted) return null;
+    return {
+      data: decrypted.data,
+      upgraded: decrypted.upgraded ? JSON.stringify(decrypted.upgraded) : null,
+    };
   } catch (error) {
     console.error("Failed to parse encrypted data:", error);
     return null;
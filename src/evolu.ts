@@ -2,6 +2,7 @@ import * as Evolu from "@evolu/common";
 import { createEvolu, SimpleName } from "@evolu/common";
 import { createUseEvolu, EvoluProvider } from "@evolu/react";
 import { evoluReactWebDeps } from "@evolu/react-web";
+import { MAX_PDF_IMAGE_LENGTH } from "./pdfTemplate";
 
 const RELAY_URL_KEY = "invoiceApp_relayUrl";
 const DEFAULT_RELAY_URL = "wss://free.evoluhq.com";
@@ -21,6 +22,12 @@ export const setRelayUrl = (url: string): void => {
 };
 
 const UserProfileId = Evolu.id("UserProfile");
+const ClientId = Evolu.id("Client");
+const InvoiceId = Evolu.id("Invoice");
+const RecurringInvoiceId = Evolu.id("RecurringInvoice");
+
+// Logo and signature images for the PDF as PNG or JPEG data URLs.
+const PdfImage = Evolu.maxLength(MAX_PDF_IMAGE_LENGTH)(Evolu.String);
 
 export const Schema = {
   userProfile: {
@@ -43,9 +50,31 @@ export const Schema = {
     poRequired: Evolu.nullOr(Evolu.SqliteBoolean),
     mempoolUrl: Evolu.nullOr(Evolu.TrimmedString1000),
     invoiceNamingFormat: Evolu.nullOr(Evolu.TrimmedString100),
+    // Number templates per document type, e.g. "{YYYY}{MM}-{SEQ:4}".
+    invoiceNumberTemplate: Evolu.nullOr(Evolu.TrimmedString100),
+    creditNoteNumberTemplate: Evolu.nullOr(Evolu.TrimmedString100),
+    proformaNumberTemplate: Evolu.nullOr(Evolu.TrimmedString100),
+    // Invoice email drafts; empty means the localized default. Placeholders
+    // as in the settings help, e.g. "{invoiceNumber}".
+    emailSubjectTemplate: Evolu.nullOr(Evolu.TrimmedString1000),
+    emailBodyTemplate: Evolu.nullOr(Evolu.TrimmedString1000),
+    // PDF branding: "classic", "modern" or "compact", "#rrggbb" and the
+    // comma-separated blocks left out, e.g. "qr,purchaseOrder".
+    pdfLayout: Evolu.nullOr(Evolu.TrimmedString100),
+    pdfAccentColor: Evolu.nullOr(Evolu.TrimmedString100),
+    pdfLogo: Evolu.nullOr(PdfImage),
+    pdfSignature: Evolu.nullOr(PdfImage),
+    pdfHiddenBlocks: Evolu.nullOr(Evolu.TrimmedString100),
+    // VAT filing for the EPO exports: "month" or "quarter", "F" (natural
+    // person) or "P" (legal entity), tax office codes and CZ-NACE.
+    vatPeriod: Evolu.nullOr(Evolu.TrimmedString100),
+    taxSubjectType: Evolu.nullOr(Evolu.TrimmedString100),
+    taxOfficeCode: Evolu.nullOr(Evolu.TrimmedString100),
+    taxOfficeBranchCode: Evolu.nullOr(Evolu.TrimmedString100),
+    naceCode: Evolu.nullOr(Evolu.TrimmedString100),
   },
   client: {
-    id: Evolu.id("Client"),
+    id: ClientId,
     name: Evolu.NonEmptyTrimmedString100,
     email: Evolu.nullOr(Evolu.TrimmedString100),
     phone: Evolu.nullOr(Evolu.TrimmedString100),
@@ -54,12 +83,38 @@ export const Schema = {
     companyIdentificationNumber: Evolu.nullOr(Evolu.TrimmedString100),
     vatNumber: Evolu.nullOr(Evolu.TrimmedString100),
     note: Evolu.nullOr(Evolu.TrimmedString1000),
+    // "cz", "en" or "cz-en" (bilingual); null follows the app language.
+    documentLanguage: Evolu.nullOr(Evolu.TrimmedString100),
     deleted: Evolu.nullOr(Evolu.SqliteBoolean),
   },
   invoice: {
-    id: Evolu.id("Invoice"),
-    invoiceNumber: Evolu.NonEmptyTrimmedString100,
+    id: InvoiceId,
+    // Assigned when the invoice is issued; drafts have none.
+    invoiceNumber: Evolu.nullOr(Evolu.NonEmptyTrimmedString100),
+    // "creditNote" (opravný daňový doklad) or "proforma" (zálohová
+    // faktura); null on regular invoices.
+    documentType: Evolu.nullOr(Evolu.TrimmedString100),
+    // Credit notes point at the invoice they correct and keep its number.
+    correctedInvoiceId: Evolu.nullOr(InvoiceId),
+    correctedInvoiceNumber: Evolu.nullOr(Evolu.TrimmedString100),
+    correctionReason: Evolu.nullOr(Evolu.TrimmedString1000),
+    // Final invoices point at the proforma whose paid advance they deduct.
+    advanceInvoiceId: Evolu.nullOr(InvoiceId),
+    // Drafts can be edited freely and have no number yet. Issued invoices
+    // (draft not set) are locked except for payment fields; force unlocks
+    // are recorded in `auditNote`.
+    draft: Evolu.nullOr(Evolu.SqliteBoolean),
+    auditNote: Evolu.nullOr(Evolu.TrimmedString1000),
+    // The recurring schedule that generated this invoice.
+    recurringInvoiceId: Evolu.nullOr(RecurringInvoiceId),
+    clientId: Evolu.nullOr(ClientId),
+    // Customer details as they were when the invoice was issued, so later
+    // client edits never change historical documents.
     clientName: Evolu.NonEmptyTrimmedString100,
+    clientAddressLine1: Evolu.nullOr(Evolu.TrimmedString1000),
+    clientAddressLine2: Evolu.nullOr(Evolu.TrimmedString1000),
+    clientCompanyIdentificationNumber: Evolu.nullOr(Evolu.TrimmedString100),
+    clientVatNumber: Evolu.nullOr(Evolu.TrimmedString100),
     issueDate: Evolu.DateIso,
     duzp: Evolu.nullOr(Evolu.DateIso),
     paymentDate: Evolu.nullOr(Evolu.DateIso),
@@ -67,11 +122,52 @@ export const Schema = {
     paymentMethod: Evolu.nullOr(Evolu.TrimmedString100),
     purchaseOrderNumber: Evolu.nullOr(Evolu.TrimmedString100),
     invoicingNote: Evolu.nullOr(Evolu.TrimmedString1000),
+    // PDF language like the client's; null uses the client's setting.
+    documentLanguage: Evolu.nullOr(Evolu.TrimmedString100),
     btcInvoice: Evolu.SqliteBoolean,
     btcAddress: Evolu.nullOr(Evolu.TrimmedString100),
+    // ISO 4217 code; null on invoices created before multi-currency (CZK).
+    currency: Evolu.nullOr(Evolu.TrimmedString100),
+    // CZK per one unit of `currency`, fixed at DUZP (CNB rate).
+    exchangeRate: Evolu.nullOr(Evolu.PositiveNumber),
+    items: Evolu.Json,
+    // Invoice-level discount applied after the line discounts; the type is
+    // "percent" or "amount".
+    discount: Evolu.nullOr(Evolu.NonNegativeNumber),
+    discountType: Evolu.nullOr(Evolu.TrimmedString100),
+    // Round the amount to pay to whole crowns (CZK only).
+    cashRounding: Evolu.nullOr(Evolu.SqliteBoolean),
+    // "domestic" (null), "reverseCharge", "euServices" or "export"; all but
+    // domestic are invoiced at 0 %.
+    vatRegime: Evolu.nullOr(Evolu.TrimmedString100),
+    deleted: Evolu.nullOr(Evolu.SqliteBoolean),
+  },
+  recurringInvoice: {
+    id: RecurringInvoiceId,
+    clientId: ClientId,
+    // Same shape as invoice items.
     items: Evolu.Json,
+    paymentDays: Evolu.NonNegativeNumber,
+    paymentMethod: Evolu.nullOr(Evolu.TrimmedString100),
+    invoicingNote: Evolu.nullOr(Evolu.TrimmedString1000),
+    currency: Evolu.nullOr(Evolu.TrimmedString100),
+    discount: Evolu.nullOr(Evolu.NonNegativeNumber),
+    discountType: Evolu.nullOr(Evolu.TrimmedString100),
+    cashRounding: Evolu.nullOr(Evolu.SqliteBoolean),
+    vatRegime: Evolu.nullOr(Evolu.TrimmedString100),
+    // "monthly", "quarterly" or "yearly".
+    cadence: Evolu.NonEmptyTrimmedString100,
+    // Day the next draft is due; advanced by one cadence per generated draft.
+    nextRunDate: Evolu.DateIso,
+    paused: Evolu.nullOr(Evolu.SqliteBoolean),
     deleted: Evolu.nullOr(Evolu.SqliteBoolean),
   },
+  currencyRate: {
+    id: Evolu.id("CurrencyRate"),
+    rateDate: Evolu.DateIso,
+    currency: Evolu.NonEmptyTrimmedString100,
+    rate: Evolu.PositiveNumber,
+  },
   expense: {
     id: Evolu.id("Expense"),
     expenseNumber: Evolu.nullOr(Evolu.TrimmedString100),
@@ -83,6 +179,31 @@ export const Schema = {
     expenseDate: Evolu.DateIso,
     deleted: Evolu.nullOr(Evolu.SqliteBoolean),
   },
+  // Money received on an invoice, possibly in installments. The invoice's
+  // `paymentDate` is set once the payments cover its total.
+  payment: {
+    id: Evolu.id("Payment"),
+    invoiceId: InvoiceId,
+    paymentDate: Evolu.DateIso,
+    amount: Evolu.PositiveNumber,
+    // "bank", "cash", "card" or "other".
+    method: Evolu.nullOr(Evolu.TrimmedString100),
+    // Free note or the bank transaction reference.
+    note: Evolu.nullOr(Evolu.TrimmedString1000),
+    deleted: Evolu.nullOr(Evolu.SqliteBoolean),
+  },
+  // One row per invoice included in a sent payment reminder (upomínka).
+  paymentReminder: {
+    id: Evolu.id("PaymentReminder"),
+    invoiceId: InvoiceId,
+    clientId: Evolu.nullOr(ClientId),
+    // 1 = first, 2 = second, 3 = final reminder.
+    level: Evolu.PositiveNumber,
+    sentDate: Evolu.DateIso,
+    // Late-payment interest claimed on the invoice, in its currency.
+    lateInterest: Evolu.nullOr(Evolu.NonNegativeNumber),
+    deleted: Evolu.nullOr(Evolu.SqliteBoolean),
+  },
 };
 
 export type UserProfileInput = {
@@ -101,6 +222,16 @@ export type UserProfileInput = {
   discreteMode?: 0 | 1 | null;
   expenses?: 0 | 1 | null;
   invoiceNamingFormat?: string;
+  invoiceNumberTemplate?: string;
+  creditNoteNumberTemplate?: string;
+  proformaNumberTemplate?: string;
+  emailSubjectTemplate?: string;
+  emailBodyTemplate?: string;
+  pdfLayout?: string;
+  pdfAccentColor?: string;
+  pdfLogo?: string;
+  pdfSignature?: string;
+  pdfHiddenBlocks?: string;
   language?: string;
   poRequired?: 0 | 1 | null;
   mempoolUrl?: string;
@@ -24,7 +24,10 @@ const getValue = (language: Language, key: string): string | undefined => {
   return typeof current === "string" ? current : undefined;
 };
 
-const formatTemplate = (template: string, vars?: TemplateVars): string => {
+export const formatTemplate = (
+  template: string,
+  vars?: TemplateVars,
+): string => {
   if (!vars) return template;
   return template.replace(/\{(\w+)\}/g, (match, key) =>
     Object.prototype.hasOwnProperty.call(vars, key) ? String(vars[key]) : match,
@@ -41,6 +44,52 @@ export const createI18n = (language: Language) => {
   return { language, locale, t };
 };
 
+/**
+ * Language of a client's documents: one of the UI languages, or "cz-en" for
+ * Czech and English side by side.
+ */
+export const DOCUMENT_LANGUAGES = ["cz", "en", "cz-en"] as const;
+
+export type DocumentLanguage = (typeof DOCUMENT_LANGUAGES)[number];
+
+/** A known document language, or null for "not set". */
+export const normalizeDocumentLanguage = (
+  value?: string | null,
+): DocumentLanguage | null =>
+  (DOCUMENT_LANGUAGES as readonly string[]).includes(value ?? "")
+    ? (value as DocumentLanguage)
+    : null;
+
+/**
+ * The invoice's own language, else its client's, else the UI language.
+ */
+export const resolveDocumentLanguage = (
+  invoiceLanguage: string | null | undefined,
+  clientLanguage: string | null | undefined,
+  uiLanguage: Language,
+): DocumentLanguage =>
+  normalizeDocumentLanguage(invoiceLanguage) ??
+  normalizeDocumentLanguage(clientLanguage) ??
+  uiLanguage;
+
+/**
+ * Translations for a PDF. Bilingual documents join both texts as
+ * "Dodavatel / Supplier" and format numbers and dates the Czech way.
+ */
+export const createDocumentI18n = (
+  language: DocumentLanguage,
+): ReturnType<typeof createI18n> => {
+  if (language !== "cz-en") return createI18n(language);
+  const czech = createI18n("cz");
+  const english = createI18n("en");
+  const t = (key: string, vars?: TemplateVars): string => {
+    const primary = czech.t(key, vars);
+    const secondary = english.t(key, vars);
+    return primary === secondary ? primary : `${primary} / ${secondary}`;
+  };
+  return { ...czech, t };
+};
+
 export const useI18n = (overrideLanguage?: Language) => {
   const evolu = useEvolu();
   const owner = use(evolu.appOwner);
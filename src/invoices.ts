@@ -0,0 +1,785 @@
+import * as Evolu from "@evolu/common";
+import {
+  DEFAULT_CURRENCY,
+  addToCurrencyTotals,
+  normalizeCurrency,
+  type CurrencyTotals,
+} from "./currency";
+
+const ClientId = Evolu.id("Client");
+
+export type InvoiceClientSource = {
+  id: string;
+  name: string | null;
+  addressLine1?: string | null;
+  addressLine2?: string | null;
+  companyIdentificationNumber?: string | null;
+  vatNumber?: string | null;
+};
+
+export type InvoiceCustomerSnapshot = {
+  clientName?: string | null;
+  clientAddressLine1?: string | null;
+  clientAddressLine2?: string | null;
+  clientCompanyIdentificationNumber?: string | null;
+  clientVatNumber?: string | null;
+};
+
+export type InvoiceCustomer = {
+  name: string;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  companyIdentificationNumber: string | null;
+  vatNumber: string | null;
+};
+
+const trimToNull = (value?: string | null) => {
+  const trimmed = (value ?? "").trim();
+  return trimmed ? trimmed : null;
+};
+
+/**
+ * Builds the invoice columns that link an invoice to a client and freeze the
+ * client's current details on it.
+ */
+export const createClientSnapshot = (client: InvoiceClientSource) => {
+  const idResult = ClientId.from(client.id);
+  return {
+    clientId: idResult.ok ? idResult.value : null,
+    clientName: (client.name ?? "").trim(),
+    clientAddressLine1: trimToNull(client.addressLine1),
+    clientAddressLine2: trimToNull(client.addressLine2),
+    clientCompanyIdentificationNumber: trimToNull(
+      client.companyIdentificationNumber,
+    ),
+    clientVatNumber: trimToNull(client.vatNumber),
+  };
+};
+
+const hasSnapshotDetails = (invoice: InvoiceCustomerSnapshot) =>
+  Boolean(
+    invoice.clientAddressLine1 ||
+    invoice.clientAddressLine2 ||
+    invoice.clientCompanyIdentificationNumber ||
+    invoice.clientVatNumber,
+  );
+
+/**
+ * Customer details printed on an invoice. The snapshot stored on the invoice
+ * wins; the live client record is only used for legacy invoices created
+ * before snapshots existed.
+ */
+export const resolveInvoiceCustomer = (
+  invoice: InvoiceCustomerSnapshot & { clientId?: string | null },
+  client: InvoiceClientSource | null,
+): InvoiceCustomer => {
+  if (invoice.clientId || hasSnapshotDetails(invoice) || !client) {
+    return {
+      name: invoice.clientName ?? client?.name ?? "",
+      addressLine1: invoice.clientAddressLine1 ?? null,
+      addressLine2: invoice.clientAddressLine2 ?? null,
+      companyIdentificationNumber:
+        invoice.clientCompanyIdentificationNumber ?? null,
+      vatNumber: invoice.clientVatNumber ?? null,
+    };
+  }
+
+  return {
+    name: invoice.clientName ?? client.name ?? "",
+    addressLine1: client.addressLine1 ?? null,
+    addressLine2: client.addressLine2 ?? null,
+    companyIdentificationNumber: client.companyIdentificationNumber ?? null,
+    vatNumber: client.vatNumber ?? null,
+  };
+};
+
+/**
+ * Finds the client an invoice belongs to: by `clientId` when the invoice has
+ * one, otherwise by the (legacy) copied client name.
+ */
+export const findInvoiceClient = <T extends InvoiceClientSource>(
+  invoice: { clientId?: string | null; clientName?: string | null },
+  clients: readonly T[],
+): T | null => {
+  if (invoice.clientId) {
+    return clients.find((client) => client.id === invoice.clientId) ?? null;
+  }
+  const name = invoice.clientName?.trim();
+  if (!name) return null;
+  return clients.find((client) => client.name?.trim() === name) ?? null;
+};
+
+export type InvoiceDocumentType = "invoice" | "creditNote" | "proforma";
+
+/** Stored `documentType` values; regular invoices store null. */
+export const documentTypeValue = {
+  creditNote: Evolu.TrimmedString100.orThrow("creditNote"),
+  proforma: Evolu.TrimmedString100.orThrow("proforma"),
+};
+
+export const getInvoiceDocumentType = (invoice: {
+  documentType?: string | null;
+}): InvoiceDocumentType =>
+  invoice.documentType === "creditNote" || invoice.documentType === "proforma"
+    ? invoice.documentType
+    : "invoice";
+
+export const isCreditNote = (invoice: { documentType?: string | null }) =>
+  getInvoiceDocumentType(invoice) === "creditNote";
+
+export const isProforma = (invoice: { documentType?: string | null }) =>
+  getInvoiceDocumentType(invoice) === "proforma";
+
+/** Drafts are not issued yet and stay out of revenue and receivables. */
+export const isDraftInvoice = (invoice: { draft?: number | null }) =>
+  invoice.draft === Evolu.sqliteTrue;
+
+const AUDIT_NOTE_MAX_LENGTH = 1000;
+
+// Entries stay on one line so the note survives the CSV export.
+const AUDIT_NOTE_SEPARATOR = " | ";
+
+const pad2 = (value: number) => String(value).padStart(2, "0");
+
+export const getAuditNoteEntries = (note: string | null | undefined) =>
+  (note ?? "")
+    .split(AUDIT_NOTE_SEPARATOR)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * `existing` with an entry "YYYY-MM-DD HH:MM text" appended. The column holds
+ * 1000 characters, so the oldest entries are dropped when it would overflow.
+ */
+export const appendAuditNote = (
+  existing: string | null | undefined,
+  entry: string,
+  date: Date = new Date(),
+): string => {
+  const stamp = `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(
+    date.getDate(),
+  )} ${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+  const text = entry.replace(/\s+/g, " ").trim();
+  const entries = [
+    ...getAuditNoteEntries(existing),
+    `${stamp} ${text}`.slice(0, AUDIT_NOTE_MAX_LENGTH),
+  ];
+  while (entries.join(AUDIT_NOTE_SEPARATOR).length > AUDIT_NOTE_MAX_LENGTH) {
+    entries.shift();
+  }
+  return entries.join(AUDIT_NOTE_SEPARATOR);
+};
+
+export const VAT_REGIMES = [
+  "domestic",
+  "reverseCharge",
+  "euServices",
+  "export",
+] as const;
+
+/**
+ * How VAT applies to the whole invoice. Everything but "domestic" is
+ * invoiced at 0 %: the customer accounts for the tax (reverse charge under
+ * §92a, services to an EU VAT payer under §9) or the supply is exempt
+ * (export of goods under §66).
+ */
+export type VatRegime = (typeof VAT_REGIMES)[number];
+
+/** Invoices created before VAT regimes existed are domestic. */
+export const normalizeVatRegime = (value?: string | null): VatRegime =>
+  (VAT_REGIMES as readonly string[]).includes(value ?? "")
+    ? (value as VatRegime)
+    : "domestic";
+
+export const isZeroRatedVatRegime = (value?: string | null) =>
+  normalizeVatRegime(value) !== "domestic";
+
+/**
+ * Regime to offer for a customer: services to a VAT payer registered in
+ * another country (a VAT number with a foreign prefix) are taxed by the
+ * customer under §9; everything else starts as domestic.
+ */
+export const suggestVatRegime = (vatNumber?: string | null): VatRegime => {
+  const prefix = (vatNumber ?? "").trim().slice(0, 2).toUpperCase();
+  return /^[A-Z]{2}$/.test(prefix) && prefix !== "CZ"
+    ? "euServices"
+    : "domestic";
+};
+
+/** VAT return lines of the supplies without Czech VAT. */
+export type VatReturnLine = 21 | 22 | 25;
+
+export type VatRegimeReporting = {
+  /** Control statement (DPHKH1) section; domestic supplies go to A4/A5. */
+  controlStatementSection: "A1" | null;
+  /** EC Sales List (DPHSHV) supply code. */
+  ecSalesListCode: "3" | null;
+  /** VAT return (DPHDP3) line; domestic supplies go to lines 1 and 2. */
+  vatReturnLine: VatReturnLine | null;
+};
+
+export const VAT_REGIME_REPORTING: Record<VatRegime, VatRegimeReporting> = {
+  domestic: {
+    controlStatementSection: null,
+    ecSalesListCode: null,
+    vatReturnLine: null,
+  },
+  reverseCharge: {
+    controlStatementSection: "A1",
+    ecSalesListCode: null,
+    vatReturnLine: 25,
+  },
+  euServices: {
+    controlStatementSection: null,
+    ecSalesListCode: "3",
+    vatReturnLine: 21,
+  },
+  export: {
+    controlStatementSection: null,
+    ecSalesListCode: null,
+    vatReturnLine: 22,
+  },
+};
+
+/** "percent" of the amount, or a fixed "amount" in the invoice currency. */
+export type DiscountType = "percent" | "amount";
+
+export const normalizeDiscountType = (value?: string | null): DiscountType =>
+  value === "amount" ? "amount" : "percent";
+
+export type InvoiceItem = {
+  amount?: number;
+  unit?: string;
+  description?: string;
+  unitPrice?: number;
+  vat?: number;
+  discount?: number;
+  discountType?: DiscountType;
+};
+
+/** An item as edited in the invoice form (and passed in the `items` URL param). */
+export type InvoiceItemForm = {
+  amount: string;
+  unit: string;
+  description: string;
+  unitPrice: string;
+  vat: string;
+  discount: string;
+  discountType: DiscountType;
+};
+
+/**
+ * Reads items from JSON (the `items` URL param or a recurring template) into
+ * form rows. Returns null when nothing usable is there.
+ */
+export const parseItemsParam = (
+  value: string | null,
+): InvoiceItemForm[] | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return null;
+    const normalized = parsed
+      .filter((item) => item && typeof item === "object")
+      .map((item) => ({
+        amount: item.amount === 0 || item.amount ? String(item.amount) : "",
+        unit: typeof item.unit === "string" ? item.unit : "",
+        description:
+          typeof item.description === "string" ? item.description : "",
+        unitPrice:
+          item.unitPrice === 0 || item.unitPrice ? String(item.unitPrice) : "",
+        vat: item.vat === 0 || item.vat ? String(item.vat) : "",
+        discount: item.discount ? String(item.discount) : "",
+        discountType: normalizeDiscountType(item.discountType),
+      }))
+      .filter(
+        (item) =>
+          item.description ||
+          item.unit ||
+          item.amount ||
+          item.unitPrice ||
+          item.vat,
+      );
+    return normalized.length > 0 ? normalized : null;
+  } catch {
+    return null;
+  }
+};
+
+// Items without a discount keep the original shape.
+const toStoredDiscount = (
+  discount: string,
+  discountType: DiscountType,
+): Pick<InvoiceItem, "discount" | "discountType"> => {
+  const value = Number(discount);
+  return Number.isFinite(value) && value > 0
+    ? { discount: value, discountType }
+    : {};
+};
+
+/** Form rows to stored items; empty rows are dropped. */
+export const normalizeInvoiceItems = (
+  items: readonly InvoiceItemForm[],
+): InvoiceItem[] =>
+  items
+    .map((item) => ({
+      amount: Number.isFinite(Number(item.amount)) ? Number(item.amount) : 0,
+      unit: item.unit.trim(),
+      description: item.description.trim(),
+      unitPrice: Number.isFinite(Number(item.unitPrice))
+        ? Number(item.unitPrice)
+        : 0,
+      vat: Number.isFinite(Number(item.vat)) ? Number(item.vat) : 0,
+      ...toStoredDiscount(item.discount, item.discountType),
+    }))
+    .filter(
+      (item) =>
+        item.description ||
+        item.unit ||
+        item.amount ||
+        item.unitPrice ||
+        item.vat,
+    );
+
+export type InvoiceStatus =
+  "paid" | "partial" | "overdue" | "unpaid" | "credited";
+
+type InvoiceDueFields = {
+  issueDate: string | null;
+  paymentDate?: string | null;
+  paymentDays: number | null;
+  /** Sum of recorded payments; `paymentDate` is set once it covers the total. */
+  paidAmount?: number;
+  /** See `applyCreditNotes`. */
+  creditedAmount?: number;
+  settledByCredit?: boolean;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const parseInvoiceItems = (raw: unknown): InvoiceItem[] => {
+  if (!raw) return [];
+  if (Array.isArray(raw)) return raw as InvoiceItem[];
+  if (typeof raw === "string") {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as InvoiceItem[]) : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+/** Invoice-level fields that change the total on top of the items. */
+export type InvoiceAdjustments = {
+  discount?: number | null;
+  discountType?: string | null;
+  cashRounding?: number | null;
+  currency?: string | null;
+  vatRegime?: string | null;
+};
+
+export type InvoiceLineTotals = {
+  /** `amount * unitPrice` */
+  gross: number;
+  discount: number;
+  /** `gross - discount`, the line's tax base. */
+  base: number;
+  vatRate: number;
+  vat: number;
+};
+
+/** One row of the VAT recapitulation, rounded to cents. */
+export type VatRateTotals = {
+  vatRate: number;
+  base: number;
+  vat: number;
+  /** `base + vat` */
+  total: number;
+};
+
+export type InvoiceTotals = {
+  lines: InvoiceLineTotals[];
+  /** Sum of the line bases, before the invoice-level discount. */
+  itemsBase: number;
+  invoiceDiscount: number;
+  /** Sum of the rounded per-rate bases in `vatRates`. */
+  base: number;
+  /** Sum of the rounded per-rate VAT in `vatRates`. */
+  vat: number;
+  /** Tax base and VAT per rate, after all discounts, by rate descending. */
+  vatRates: VatRateTotals[];
+  /** Cash rounding to whole crowns, a separate line without VAT. */
+  rounding: number;
+  /** Amount to pay: base (plus VAT with `withVat`) plus rounding. */
+  total: number;
+};
+
+/**
+ * Rounds half away from zero, so a negated amount rounds to the negated
+ * result and a credit note mirrors its invoice to the cent.
+ */
+export const roundCents = (value: number) =>
+  (Math.sign(value) * Math.round(Math.abs(value) * 100)) / 100;
+
+/** Whole crowns, rounding half away from zero like `roundCents`. */
+export const roundCrowns = (value: number) =>
+  Math.sign(value) * Math.round(Math.abs(value));
+
+const finiteOrZero = (value: unknown) =>
+  Number.isFinite(Number(value)) ? Number(value ?? 0) : 0;
+
+/**
+ * The part of `value` a discount takes off. Percentages are capped at 100 and
+ * fixed amounts at `value`; the result has the sign of `value`, so negated
+ * credit-note lines shrink towards zero like the lines they cancel.
+ */
+const getDiscountAmount = (
+  value: number,
+  discount: unknown,
+  discountType: string | null | undefined,
+): number => {
+  const size = finiteOrZero(discount);
+  if (size <= 0 || value === 0) return 0;
+  const magnitude =
+    normalizeDiscountType(discountType) === "amount"
+      ? Math.min(size, Math.abs(value))
+      : (Math.abs(value) * Math.min(size, 100)) / 100;
+  return Math.sign(value) * magnitude;
+};
+
+/**
+ * Totals of an invoice: line discounts first, then the invoice-level
+ * discount, which is split across VAT rates in proportion to their bases
+ * (a discount lowers the tax base of every rate it covers). VAT is computed
+ * once per rate from the base rounded to cents rather than summed from the
+ * lines, so the recap, the totals and the exports add up to the same cents.
+ * Cash rounding applies to CZK invoices only and rounds the amount to pay,
+ * so pass `withVat` for VAT payers. A VAT regime other than domestic puts
+ * every line at 0 %.
+ */
+export const computeInvoiceTotals = (
+  rawItems: unknown,
+  adjustments: InvoiceAdjustments = {},
+  options: { withVat?: boolean } = {},
+): InvoiceTotals => {
+  const zeroRated = isZeroRatedVatRegime(adjustments.vatRegime);
+  const lines = parseInvoiceItems(rawItems).map((item) => {
+    const gross = finiteOrZero(item.amount) * finiteOrZero(item.unitPrice);
+    const discount = getDiscountAmount(gross, item.discount, item.discountType);
+    const base = gross - discount;
+    const vatRate = zeroRated ? 0 : finiteOrZero(item.vat);
+    return { gross, discount, base, vatRate, vat: base * (vatRate / 100) };
+  });
+
+  const itemsBase = lines.reduce((sum, line) => sum + line.base, 0);
+  const invoiceDiscount = getDiscountAmount(
+    itemsBase,
+    adjustments.discount,
+    adjustments.discountType,
+  );
+  const remainingShare = itemsBase === 0 ? 1 : 1 - invoiceDiscount / itemsBase;
+
+  const baseByRate = new Map<number, number>();
+  for (const line of lines) {
+    baseByRate.set(
+      line.vatRate,
+      (baseByRate.get(line.vatRate) ?? 0) + line.base * remainingShare,
+    );
+  }
+  const vatRates = Array.from(baseByRate, ([vatRate, rateBase]) => {
+    const base = roundCents(rateBase);
+    const vat = roundCents(base * (vatRate / 100));
+    return { vatRate, base, vat, total: roundCents(base + vat) };
+  }).sort((a, b) => b.vatRate - a.vatRate);
+
+  const base = roundCents(vatRates.reduce((sum, rate) => sum + rate.base, 0));
+  const vat = roundCents(vatRates.reduce((sum, rate) => sum + rate.vat, 0));
+  const payable = options.withVat ? base + vat : base;
+  const roundsToCrowns =
+    adjustments.cashRounding === Evolu.sqliteTrue &&
+    normalizeCurrency(adjustments.currency) === DEFAULT_CURRENCY;
+  const rounding = roundsToCrowns
+    ? roundCents(roundCrowns(payable) - payable)
+    : 0;
+
+  return {
+    lines,
+    itemsBase,
+    invoiceDiscount,
+    base,
+    vat,
+    vatRates,
+    rounding,
+    total: roundsToCrowns ? roundCrowns(payable) : payable,
+  };
+};
+
+/**
+ * Sum of the stored items after their line discounts, optionally with the
+ * per-line VAT added on top. Invoice-level adjustments are not included;
+ * use `getInvoiceTotal` for a whole invoice.
+ */
+export const getInvoiceItemsTotal = (
+  rawItems: unknown,
+  options: { withVat?: boolean } = {},
+): number => computeInvoiceTotals(rawItems, {}, options).total;
+
+/** Amount to pay for an invoice, including its discount and rounding. */
+export const getInvoiceTotal = (
+  invoice: InvoiceAdjustments & { items: unknown },
+  options: { withVat?: boolean } = {},
+): number => computeInvoiceTotals(invoice.items, invoice, options).total;
+
+/** VAT recapitulation of an invoice: base, VAT and total per rate. */
+export const getVatRecap = (
+  invoice: InvoiceAdjustments & { items: unknown },
+): VatRateTotals[] => computeInvoiceTotals(invoice.items, invoice).vatRates;
+
+/** Items as stored under `vatRegime`: 0 % on every line unless domestic. */
+export const applyVatRegime = (
+  items: InvoiceItem[],
+  vatRegime?: string | null,
+): InvoiceItem[] =>
+  isZeroRatedVatRegime(vatRegime)
+    ? items.map((item) => ({ ...item, vat: 0 }))
+    : items;
+
+/**
+ * Items for a credit note cancelling `rawItems` in full: the same lines with
+ * negative quantities.
+ */
+export const negateInvoiceItems = (rawItems: unknown): InvoiceItem[] =>
+  parseInvoiceItems(rawItems).map((item) => ({
+    ...item,
+    amount: -Number(item.amount ?? 0),
+  }));
+
+/**
+ * Lines deducting a paid proforma on the final invoice. There is one line
+ * per VAT rate, so both the base and the VAT of the advance are netted. The
+ * bases are taken after line discounts but before the invoice-level
+ * discount, which the final invoice carries over and applies to the net.
+ */
+export const getAdvanceDeductionItems = (
+  rawItems: unknown,
+  description: string,
+): InvoiceItem[] => {
+  const baseByVat = new Map<number, number>();
+  for (const line of computeInvoiceTotals(rawItems).lines) {
+    baseByVat.set(line.vatRate, (baseByVat.get(line.vatRate) ?? 0) + line.base);
+  }
+
+  return Array.from(baseByVat, ([vat, base]) => ({
+    amount: 1,
+    unit: "",
+    description,
+    unitPrice: -roundCents(base),
+    vat,
+  })).filter((item) => item.unitPrice !== 0);
+};
+
+export type CreditNetting = {
+  /**
+   * Part of the total settled by netting credit notes against the invoices
+   * they correct: what the credit notes cancel on an invoice (positive), and
+   * on a credit note the part of it offset against an unpaid balance
+   * (negative, like its total). The rest of a credit note is a refund.
+   */
+  creditedAmount: number;
+  /** Credit notes and payments leave nothing to pay or refund. */
+  settledByCredit: boolean;
+};
+
+type CreditNettingInvoice = InvoiceAdjustments & {
+  id: string;
+  items: unknown;
+  documentType?: string | null;
+  draft?: number | null;
+  correctedInvoiceId?: string | null;
+  paidAmount?: number;
+};
+
+/**
+ * Adds `CreditNetting` to every invoice. Issued credit notes reduce the
+ * balance of the invoice they correct; where that invoice was already paid,
+ * the excess stays open on the credit notes (in proportion to their totals)
+ * as a refund to the customer. `options` must match the totals payments are
+ * recorded against.
+ */
+export const applyCreditNotes = <T extends CreditNettingInvoice>(
+  invoices: readonly T[],
+  options: { withVat?: boolean } = {},
+): (T & CreditNetting)[] => {
+  const creditNotesByInvoice = new Map<string, T[]>();
+  for (const invoice of invoices) {
+    if (!isCreditNote(invoice) || isDraftInvoice(invoice)) continue;
+    if (!invoice.correctedInvoiceId) continue;
+    const creditNotes = creditNotesByInvoice.get(invoice.correctedInvoiceId);
+    if (creditNotes) creditNotes.push(invoice);
+    else creditNotesByInvoice.set(invoice.correctedInvoiceId, [invoice]);
+  }
+
+  const netting = new Map<string, CreditNetting>();
+  for (const invoice of invoices) {
+    const creditNotes = creditNotesByInvoice.get(invoice.id);
+    if (!creditNotes || isCreditNote(invoice) || isDraftInvoice(invoice)) {
+      continue;
+    }
+    const creditTotals = creditNotes.map((note) =>
+      getInvoiceTotal(note, options),
+    );
+    const credited = -roundCents(
+      creditTotals.reduce((sum, total) => sum + total, 0),
+    );
+    if (credited <= 0) continue;
+
+    const total = getInvoiceTotal(invoice, options);
+    const paid = invoice.paidAmount ?? 0;
+    const offset = Math.min(credited, Math.max(0, roundCents(total - paid)));
+    netting.set(invoice.id, {
+      creditedAmount: credited,
+      settledByCredit: roundCents(total - credited - paid) <= 0,
+    });
+    creditNotes.forEach((note, index) => {
+      netting.set(note.id, {
+        creditedAmount:
+          roundCents((offset * creditTotals[index]) / credited) || 0,
+        settledByCredit: offset >= credited,
+      });
+    });
+  }
+
+  return invoices.map((invoice) => ({
+    ...invoice,
+    ...(netting.get(invoice.id) ?? {
+      creditedAmount: 0,
+      settledByCredit: false,
+    }),
+  }));
+};
+
+export const getInvoiceDueDate = (invoice: InvoiceDueFields): Date | null => {
+  if (!invoice.issueDate) return null;
+  const issueDate = new Date(invoice.issueDate);
+  if (Number.isNaN(issueDate.getTime())) return null;
+  const days = Number(invoice.paymentDays ?? 0);
+  if (!Number.isFinite(days)) return null;
+  const dueDate = new Date(issueDate);
+  dueDate.setDate(dueDate.getDate() + days);
+  return dueDate;
+};
+
+export const isInvoiceOverdue = (invoice: InvoiceDueFields) => {
+  if (invoice.paymentDate || invoice.settledByCredit) return false;
+  const dueDate = getInvoiceDueDate(invoice);
+  if (!dueDate) return false;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return dueDate < today;
+};
+
+/**
+ * A partially paid invoice stays "partial" after its due date; use
+ * `isInvoiceOverdue` when the remaining balance matters. An invoice that
+ * credit notes cancel without any payment is "credited"; with payments
+ * covering the rest it is "paid".
+ */
+export const getInvoiceStatus = (invoice: InvoiceDueFields): InvoiceStatus => {
+  if (invoice.paymentDate) return "paid";
+  const paid = invoice.paidAmount ?? 0;
+  if (invoice.settledByCredit) return paid > 0 ? "paid" : "credited";
+  if (paid > 0 || (invoice.creditedAmount ?? 0) > 0) return "partial";
+  if (isInvoiceOverdue(invoice)) return "overdue";
+  return "unpaid";
+};
+
+export type ReceivablesSummary = {
+  invoiceCount: number;
+  lifetimeRevenue: CurrencyTotals;
+  openBalance: CurrencyTotals;
+  overdueBalance: CurrencyTotals;
+  averageDaysToPay: number | null;
+  lastPaymentDate: string | null;
+};
+
+/**
+ * Revenue and receivables over a set of invoices (typically one client's),
+ * kept per currency. Credit notes carry negative totals and so net against
+ * the invoices they correct; they are not counted as invoices and do not
+ * affect days-to-pay, which is measured from the issue date to the recorded
+ * payment date. Proformas are owed like invoices but only become revenue
+ * once paid (the final invoice deducts the advance). Partial payments and
+ * credit notes netted by `applyCreditNotes` reduce the open balance. Drafts
+ * are skipped.
+ */
+export const summarizeReceivables = (
+  invoices: readonly (InvoiceDueFields & {
+    items: unknown;
+    currency?: string | null;
+    documentType?: string | null;
+    draft?: number | null;
+  } & InvoiceAdjustments)[],
+  options: { withVat?: boolean } = {},
+): ReceivablesSummary => {
+  const lifetimeRevenue: CurrencyTotals = {};
+  const openBalance: CurrencyTotals = {};
+  const overdueBalance: CurrencyTotals = {};
+  let paidDaysSum = 0;
+  let paidCount = 0;
+  let lastPaymentDate: string | null = null;
+  let invoiceCount = 0;
+
+  for (const invoice of invoices) {
+    if (isDraftInvoice(invoice)) continue;
+    const total = getInvoiceTotal(invoice, options);
+    const status = getInvoiceStatus(invoice);
+    const creditNote = isCreditNote(invoice);
+    const proforma = isProforma(invoice);
+    if (!proforma || status === "paid") {
+      addToCurrencyTotals(lifetimeRevenue, invoice.currency, total);
+    }
+    if (!creditNote && !proforma) invoiceCount += 1;
+
+    if (status !== "paid" && status !== "credited") {
+      const outstanding =
+        total - (invoice.creditedAmount ?? 0) - (invoice.paidAmount ?? 0);
+      addToCurrencyTotals(openBalance, invoice.currency, outstanding);
+      if (isInvoiceOverdue(invoice)) {
+        addToCurrencyTotals(overdueBalance, invoice.currency, outstanding);
+      }
+      continue;
+    }
+    if (creditNote || status === "credited") continue;
+
+    const paymentDate = invoice.paymentDate ?? null;
+    if (paymentDate && (!lastPaymentDate || paymentDate > lastPaymentDate)) {
+      lastPaymentDate = paymentDate;
+    }
+
+    const issued = invoice.issueDate ? new Date(invoice.issueDate) : null;
+    const paid = paymentDate ? new Date(paymentDate) : null;
+    if (
+      issued &&
+      paid &&
+      !Number.isNaN(issued.getTime()) &&
+      !Number.isNaN(paid.getTime())
+    ) {
+      paidDaysSum += Math.max(
+        0,
+        Math.round((paid.getTime() - issued.getTime()) / DAY_MS),
+      );
+      paidCount += 1;
+    }
+  }
+
+  return {
+    invoiceCount,
+    lifetimeRevenue,
+    openBalance,
+    overdueBalance,
+    averageDaysToPay: paidCount > 0 ? paidDaysSum / paidCount : null,
+    lastPaymentDate,
+  };
+};
@@ -0,0 +1,640 @@
+import { splitStreetLine, splitTownLine } from "./address";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import {
+  computeInvoiceTotals,
+  getInvoiceDocumentType,
+  getInvoiceDueDate,
+  parseInvoiceItems,
+  roundCents,
+  type InvoiceAdjustments,
+  type InvoiceCustomer,
+} from "./invoices";
+import { getVariableSymbol } from "./numbering";
+import { childElement, childText, escapeXml, xmlNode } from "./xml";
+
+const ISDOC_NAMESPACE = "http://isdoc.cz/namespace/2013";
+const ISDOC_VERSION = "6.0.2";
+
+const DOCUMENT_TYPE_CODES = {
+  invoice: 1,
+  creditNote: 2,
+  proforma: 4,
+} as const;
+
+export type IsdocSupplier = InvoiceCustomer & {
+  email?: string | null;
+  phone?: string | null;
+  bankAccount?: string | null;
+  iban?: string | null;
+  swift?: string | null;
+};
+
+export type IsdocInvoice = InvoiceAdjustments & {
+  id: string;
+  invoiceNumber: string | null;
+  documentType?: string | null;
+  correctedInvoiceId?: string | null;
+  correctedInvoiceNumber?: string | null;
+  issueDate: string | null;
+  duzp?: string | null;
+  paymentDays: number | null;
+  paymentMethod?: string | null;
+  exchangeRate?: number | null;
+  items: unknown;
+};
+
+/** A file shipped next to the ISDOC in an ISDOCX, with its SHA-1 digest. */
+export type IsdocSupplement = {
+  fileName: string;
+  digest: string;
+};
+
+export type IsdocInput = {
+  invoice: IsdocInvoice;
+  supplier: IsdocSupplier;
+  customer: InvoiceCustomer;
+  vatPayer: boolean;
+  /** Free text for the document note, e.g. the invoicing note. */
+  note?: string | null;
+  /** Item description of the invoice-level discount lines. */
+  discountLabel: string;
+  supplements?: IsdocSupplement[];
+};
+
+const toDay = (value?: string | null) => (value ?? "").slice(0, 10);
+
+const toDateInputValue = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+const formatAmount = (value: number) => roundCents(value).toFixed(2);
+
+/**
+ * UUID derived from the invoice id, so exporting the same invoice twice gives
+ * the same document identity.
+ */
+const toDocumentUuid = (id: string) => {
+  const words = [0x811c9dc5, 0x01000193, 0x050c5d1f, 0x2f9a3b17].map((seed) => {
+    let hash = seed;
+    for (const char of id) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+  });
+  const hex = words.join("").toUpperCase();
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join("-");
+};
+
+/** Country code from the VAT number prefix, Czech Republic otherwise. */
+const getCountryCode = (vatNumber: string | null) => {
+  const prefix = (vatNumber ?? "").trim().slice(0, 2).toUpperCase();
+  return /^[A-Z]{2}$/.test(prefix) ? prefix : "CZ";
+};
+
+/** "123456789/0800" → account number and bank code. */
+const splitBankAccount = (value: string | null | undefined) => {
+  const [account, bankCode] = (value ?? "").split("/");
+  return { account: account?.trim() ?? "", bankCode: bankCode?.trim() ?? "" };
+};
+
+const partyElement = (party: IsdocSupplier, withContact: boolean): string => {
+  const street = splitStreetLine(party.addressLine1);
+  const town = splitTownLine(party.addressLine2);
+  const buildingNumber = street.orientationNumber
+    ? `${street.houseNumber}/${street.orientationNumber}`
+    : street.houseNumber;
+  return xmlNode("Party", [
+    xmlNode("PartyIdentification", [
+      xmlNode("ID", party.companyIdentificationNumber ?? ""),
+    ]),
+    xmlNode("PartyName", [xmlNode("Name", party.name)]),
+    xmlNode("PostalAddress", [
+      xmlNode("StreetName", street.street ?? ""),
+      xmlNode("BuildingNumber", buildingNumber ?? ""),
+      xmlNode("CityName", town.town ?? ""),
+      xmlNode("PostalZone", town.postcode ?? ""),
+      xmlNode("Country", [
+        xmlNode("IdentificationCode", getCountryCode(party.vatNumber)),
+        xmlNode("Name", ""),
+      ]),
+    ]),
+    party.vatNumber
+      ? xmlNode("PartyTaxScheme", [
+          xmlNode("CompanyID", party.vatNumber),
+          xmlNode("TaxScheme", "VAT"),
+        ])
+      : null,
+    withContact && (party.email || party.phone)
+      ? xmlNode("Contact", [
+          party.phone ? xmlNode("Telephone", party.phone) : null,
+          party.email ? xmlNode("ElectronicMail", party.email) : null,
+        ])
+      : null,
+  ]);
+};
+
+type IsdocLine = {
+  description: string;
+  quantity: number;
+  unit: string;
+  base: number;
+  vatRate: number;
+  vat: number;
+};
+
+/**
+ * ISDOC 6 invoice XML. Amounts go out in CZK; foreign-currency invoices carry
+ * the invoice currency amounts as well, converted with the invoice exchange
+ * rate. The invoice discount is written as one negative line per VAT rate and
+ * cash rounding as the payable rounding amount, so the lines add up to the
+ * totals.
+ */
+export const buildIsdocXml = ({
+  invoice,
+  supplier,
+  customer,
+  vatPayer,
+  note,
+  discountLabel,
+  supplements = [],
+}: IsdocInput): string => {
+  const documentType = getInvoiceDocumentType(invoice);
+  const currency = normalizeCurrency(invoice.currency);
+  const isForeign = currency !== DEFAULT_CURRENCY;
+  const rate = isForeign ? (invoice.exchangeRate ?? 1) : 1;
+  const items = parseInvoiceItems(invoice.items);
+  const totals = computeInvoiceTotals(items, invoice, { withVat: vatPayer });
+
+  const lines: IsdocLine[] = totals.lines.map((line, index) => ({
+    description: items[index]?.description ?? "",
+    quantity: Number(items[index]?.amount ?? 0),
+    unit: items[index]?.unit ?? "",
+    base: roundCents(line.base),
+    vatRate: line.vatRate,
+    vat: roundCents(line.vat),
+  }));
+  if (totals.invoiceDiscount !== 0) {
+    for (const vatRate of totals.vatRates) {
+      const linesBase = lines
+        .filter((line) => line.vatRate === vatRate.vatRate)
+        .reduce((sum, line) => sum + line.base, 0);
+      const linesVat = lines
+        .filter((line) => line.vatRate === vatRate.vatRate)
+        .reduce((sum, line) => sum + line.vat, 0);
+      const base = roundCents(vatRate.base - linesBase);
+      if (base === 0) continue;
+      lines.push({
+        description: discountLabel,
+        quantity: 1,
+        unit: "",
+        base,
+        vatRate: vatRate.vatRate,
+        vat: roundCents(vatRate.vat - linesVat),
+      });
+    }
+  }
+
+  // Pairs of the CZK amount and, for foreign invoices, the original one.
+  const local = (value: number) => formatAmount(value * rate);
+  const curr = (name: string, value: number) =>
+    isForeign ? xmlNode(name, formatAmount(value)) : null;
+
+  const invoiceLines = lines.map((line, index) => {
+    const unitPrice = line.quantity !== 0 ? line.base / line.quantity : 0;
+    const unitVat = line.quantity !== 0 ? line.vat / line.quantity : 0;
+    return xmlNode("InvoiceLine", [
+      xmlNode("ID", String(index + 1)),
+      xmlNode(
+        "InvoicedQuantity",
+        String(line.quantity),
+        line.unit ? { unitCode: line.unit } : {},
+      ),
+      curr("LineExtensionAmountCurr", line.base),
+      xmlNode("LineExtensionAmount", local(line.base)),
+      curr("LineExtensionAmountTaxInclusiveCurr", line.base + line.vat),
+      xmlNode("LineExtensionAmountTaxInclusive", local(line.base + line.vat)),
+      xmlNode("LineExtensionTaxAmount", local(line.vat)),
+      xmlNode("UnitPrice", local(unitPrice)),
+      xmlNode("UnitPriceTaxInclusive", local(unitPrice + unitVat)),
+      xmlNode("ClassifiedTaxCategory", [
+        xmlNode("Percent", String(line.vatRate)),
+        xmlNode("VATCalculationMethod", "0"),
+        xmlNode("VATApplicable", String(vatPayer)),
+      ]),
+      xmlNode("Item", [xmlNode("Description", line.description)]),
+    ]);
+  });
+
+  const taxSubTotals = totals.vatRates.map((vatRate) =>
+    xmlNode("TaxSubTotal", [
+      curr("TaxableAmountCurr", vatRate.base),
+      xmlNode("TaxableAmount", local(vatRate.base)),
+      curr("TaxAmountCurr", vatRate.vat),
+      xmlNode("TaxAmount", local(vatRate.vat)),
+      curr("TaxInclusiveAmountCurr", vatRate.total),
+      xmlNode("TaxInclusiveAmount", local(vatRate.total)),
+      curr("AlreadyClaimedTaxableAmountCurr", 0),
+      xmlNode("AlreadyClaimedTaxableAmount", formatAmount(0)),
+      curr("AlreadyClaimedTaxAmountCurr", 0),
+      xmlNode("AlreadyClaimedTaxAmount", formatAmount(0)),
+      curr("AlreadyClaimedTaxInclusiveAmountCurr", 0),
+      xmlNode("AlreadyClaimedTaxInclusiveAmount", formatAmount(0)),
+      curr("DifferenceTaxableAmountCurr", vatRate.base),
+      xmlNode("DifferenceTaxableAmount", local(vatRate.base)),
+      curr("DifferenceTaxAmountCurr", vatRate.vat),
+      xmlNode("DifferenceTaxAmount", local(vatRate.vat)),
+      curr("DifferenceTaxInclusiveAmountCurr", vatRate.total),
+      xmlNode("DifferenceTaxInclusiveAmount", local(vatRate.total)),
+      xmlNode("TaxCategory", [
+        xmlNode("Percent", String(vatRate.vatRate)),
+        xmlNode("VATApplicable", String(vatPayer)),
+      ]),
+    ]),
+  );
+
+  const taxInclusive = totals.base + totals.vat;
+  const monetaryTotal = xmlNode("LegalMonetaryTotal", [
+    xmlNode("TaxExclusiveAmount", local(totals.base)),
+    curr("TaxExclusiveAmountCurr", totals.base),
+    xmlNode("TaxInclusiveAmount", local(taxInclusive)),
+    curr("TaxInclusiveAmountCurr", taxInclusive),
+    xmlNode("AlreadyClaimedTaxExclusiveAmount", formatAmount(0)),
+    curr("AlreadyClaimedTaxExclusiveAmountCurr", 0),
+    xmlNode("AlreadyClaimedTaxInclusiveAmount", formatAmount(0)),
+    curr("AlreadyClaimedTaxInclusiveAmountCurr", 0),
+    xmlNode("DifferenceTaxExclusiveAmount", local(totals.base)),
+    curr("DifferenceTaxExclusiveAmountCurr", totals.base),
+    xmlNode("DifferenceTaxInclusiveAmount", local(taxInclusive)),
+    curr("DifferenceTaxInclusiveAmountCurr", taxInclusive),
+    xmlNode("PayableRoundingAmount", local(totals.rounding)),
+    curr("PayableRoundingAmountCurr", totals.rounding),
+    xmlNode("PaidDepositsAmount", formatAmount(0)),
+    curr("PaidDepositsAmountCurr", 0),
+    xmlNode("PayableAmount", local(totals.total)),
+    curr("PayableAmountCurr", totals.total),
+  ]);
+
+  const dueDate = getInvoiceDueDate(invoice);
+  const bankAccount = splitBankAccount(supplier.bankAccount);
+  const paymentMeans =
+    invoice.paymentMethod === "cash"
+      ? xmlNode("PaymentMeans", [
+          xmlNode("Payment", [
+            xmlNode("PaidAmount", local(totals.total)),
+            xmlNode("PaymentMeansCode", "10"),
+          ]),
+        ])
+      : xmlNode("PaymentMeans", [
+          xmlNode("Payment", [
+            xmlNode("PaidAmount", local(totals.total)),
+            xmlNode("PaymentMeansCode", "42"),
+            xmlNode("Details", [
+              xmlNode(
+                "PaymentDueDate",
+                dueDate ? toDateInputValue(dueDate) : "",
+              ),
+              xmlNode("ID", bankAccount.account),
+              xmlNode("BankCode", bankAccount.bankCode),
+              xmlNode("Name", ""),
+              xmlNode("IBAN", supplier.iban ?? ""),
+              xmlNode("BIC", supplier.swift ?? ""),
+              xmlNode(
+                "VariableSymbol",
+                getVariableSymbol(invoice.invoiceNumber ?? ""),
+              ),
+            ]),
+          ]),
+        ]);
+
+  const body = [
+    xmlNode("DocumentType", String(DOCUMENT_TYPE_CODES[documentType])),
+    xmlNode("ID", invoice.invoiceNumber ?? ""),
+    xmlNode("UUID", toDocumentUuid(invoice.id)),
+    xmlNode("IssuingSystem", "Fakturing"),
+    xmlNode("IssueDate", toDay(invoice.issueDate)),
+    invoice.duzp ? xmlNode("TaxPointDate", toDay(invoice.duzp)) : null,
+    xmlNode("VATApplicable", String(vatPayer)),
+    xmlNode("ElectronicPossibilityAgreementReference", ""),
+    note?.trim() ? xmlNode("Note", note.trim()) : null,
+    xmlNode("LocalCurrencyCode", DEFAULT_CURRENCY),
+    isForeign ? xmlNode("ForeignCurrencyCode", currency) : null,
+    xmlNode("CurrRate", String(rate)),
+    xmlNode("RefCurrRate", "1"),
+    xmlNode("AccountingSupplierParty", [partyElement(supplier, true)]),
+    xmlNode("AccountingCustomerParty", [partyElement(customer, false)]),
+    documentType === "creditNote"
+      ? xmlNode("OriginalDocumentReferences", [
+          xmlNode(
+            "OriginalDocumentReference",
+            [
+              xmlNode("ID", invoice.correctedInvoiceNumber ?? ""),
+              invoice.correctedInvoiceId
+                ? xmlNode("UUID", toDocumentUuid(invoice.correctedInvoiceId))
+                : null,
+            ],
+            { id: "original" },
+          ),
+        ])
+      : null,
+    supplements.length > 0
+      ? xmlNode(
+          "SupplementsList",
+          supplements.map((supplement) =>
+            xmlNode("Supplement", [
+              xmlNode("Filename", supplement.fileName),
+              xmlNode("DigestMethod", "", {
+                Algorithm: "http://www.w3.org/2000/09/xmldsig#sha1",
+              }),
+              xmlNode("DigestValue", supplement.digest),
+            ]),
+          ),
+        )
+      : null,
+    xmlNode("InvoiceLines", invoiceLines),
+    xmlNode("TaxTotal", [
+      ...taxSubTotals,
+      curr("TaxAmountCurr", totals.vat),
+      xmlNode("TaxAmount", local(totals.vat)),
+    ]),
+    monetaryTotal,
+    paymentMeans,
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    xmlNode("Invoice", body, {
+      xmlns: ISDOC_NAMESPACE,
+      version: ISDOC_VERSION,
+    }),
+    "",
+  ].join("\n");
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+type ZipEntry = { name: string; data: Uint8Array };
+
+/** A ZIP archive with the entries stored uncompressed. */
+const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    // UTF-8 file names.
+    view.setUint16(6, 0x0800, true);
+    // 1 January 1980, the earliest DOS date.
+    view.setUint16(12, 0x0021, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, entry.data.length, true);
+    view.setUint32(22, entry.data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true);
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, 0x0800, true);
+    recordView.setUint16(14, 0x0021, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, entry.data.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, entry.data);
+    directory.push(record);
+    offset += header.length + entry.data.length;
+  }
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob(
+    [...parts, ...directory, end].map((part) => part.slice()),
+    {
+      type: "application/zip",
+    },
+  );
+};
+
+const readStream = async (stream: ReadableStream<Uint8Array>) =>
+  new Uint8Array(await new Response(stream).arrayBuffer());
+
+/** Entries of a ZIP archive; deflated entries are inflated by the browser. */
+const readZip = async (data: Uint8Array): Promise<ZipEntry[]> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end -= 1;
+  if (end < 0) return [];
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(position, true) !== 0x02014b50) break;
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      data.subarray(position + 46, position + 46 + nameLength),
+    );
+    position += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.push({ name, data: raw });
+    } else if (method === 8) {
+      const stream = new Blob([raw.slice()])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      entries.push({ name, data: await readStream(stream) });
+    }
+  }
+  return entries;
+};
+
+const toBase64 = (data: Uint8Array) => {
+  let binary = "";
+  for (const byte of data) binary += String.fromCharCode(byte);
+  return btoa(binary);
+};
+
+/**
+ * ISDOCX package: the ISDOC with the invoice PDF as its supplement. The PDF
+ * digest is written into the ISDOC so the pair can be checked.
+ */
+export const buildIsdocx = async (
+  input: IsdocInput,
+  isdocFileName: string,
+  pdf: { fileName: string; data: Uint8Array },
+): Promise<Blob> => {
+  const digest = await crypto.subtle.digest("SHA-1", pdf.data.slice());
+  const xml = buildIsdocXml({
+    ...input,
+    supplements: [
+      { fileName: pdf.fileName, digest: toBase64(new Uint8Array(digest)) },
+    ],
+  });
+  const encoder = new TextEncoder();
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${ISDOC_NAMESPACE}/manifest">`,
+    `<maindocument filename="${escapeXml(isdocFileName)}"/>`,
+    "</manifest>",
+    "",
+  ].join("\n");
+  return createZip([
+    { name: "manifest.xml", data: encoder.encode(manifest) },
+    { name: isdocFileName, data: encoder.encode(xml) },
+    { name: pdf.fileName, data: pdf.data },
+  ]);
+};
+
+/** A supplier invoice read from ISDOC, in the shape of an expense. */
+export type IsdocExpense = {
+  expenseNumber: string;
+  supplierName: string;
+  supplierVat: string;
+  amountWithoutVat: number;
+  amountWithVat: number;
+  /** The rate with the largest tax base. */
+  vatRate: number;
+  /** DUZP, or the issue date when the document has none. */
+  expenseDate: string;
+  isCreditNote: boolean;
+};
+
+const childElements = (parent: Element | null, name: string) =>
+  Array.from(parent?.children ?? []).filter(
+    (child) => child.localName === name,
+  );
+
+const childNumber = (parent: Element | null, ...path: string[]) => {
+  const value = Number(childText(parent, ...path));
+  return Number.isFinite(value) ? value : 0;
+};
+
+/** Reads the expense fields from ISDOC XML; null when it is not an ISDOC. */
+export const parseIsdocExpense = (xml: string): IsdocExpense | null => {
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  const root = document.documentElement;
+  if (root.localName !== "Invoice" || root.namespaceURI !== ISDOC_NAMESPACE) {
+    return null;
+  }
+
+  const supplier = childElement(root, "AccountingSupplierParty", "Party");
+  const taxSchemes = childElements(supplier, "PartyTaxScheme");
+  const vatScheme =
+    taxSchemes.find((scheme) => childText(scheme, "TaxScheme") === "VAT") ??
+    taxSchemes[0] ??
+    null;
+
+  let vatRate = 0;
+  let largestBase = -1;
+  for (const subTotal of childElements(
+    childElement(root, "TaxTotal"),
+    "TaxSubTotal",
+  )) {
+    const base = Math.abs(childNumber(subTotal, "TaxableAmount"));
+    if (base > largestBase) {
+      largestBase = base;
+      vatRate = childNumber(subTotal, "TaxCategory", "Percent");
+    }
+  }
+
+  const totals = childElement(root, "LegalMonetaryTotal");
+  return {
+    expenseNumber: childText(root, "ID"),
+    supplierName: childText(supplier, "PartyName", "Name"),
+    supplierVat: childText(vatScheme, "CompanyID"),
+    amountWithoutVat: Math.abs(childNumber(totals, "TaxExclusiveAmount")),
+    amountWithVat: Math.abs(childNumber(totals, "TaxInclusiveAmount")),
+    vatRate,
+    expenseDate: toDay(
+      childText(root, "TaxPointDate") || childText(root, "IssueDate"),
+    ),
+    isCreditNote: childText(root, "DocumentType") === "2",
+  };
+};
+
+/**
+ * Reads an .isdoc file, or the main document of an .isdocx package, into
+ * expense fields.
+ */
+export const readIsdocExpense = async (
+  file: Blob,
+): Promise<IsdocExpense | null> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+  // ZIP archives start with "PK".
+  if (data[0] !== 0x50 || data[1] !== 0x4b) {
+    return parseIsdocExpense(decoder.decode(data));
+  }
+
+  const entries = await readZip(data);
+  const manifest = entries.find((entry) => entry.name === "manifest.xml");
+  const mainFileName = manifest
+    ? new DOMParser()
+        .parseFromString(decoder.decode(manifest.data), "application/xml")
+        .getElementsByTagNameNS("*", "maindocument")[0]
+        ?.getAttribute("filename")
+    : null;
+  const main =
+    entries.find((entry) => entry.name === mainFileName) ??
+    entries.find((entry) => entry.name.toLowerCase().endsWith(".isdoc"));
+  return main ? parseIsdocExpense(decoder.decode(main.data)) : null;
+};
@@ -0,0 +1,98 @@
+import * as Evolu from "@evolu/common";
+import type { evolu as evoluInstance } from "./evolu";
+import { createClientSnapshot } from "./invoices";
+
+type EvoluInstance = typeof evoluInstance;
+
+/**
+ * Links invoices created before `clientId` existed to their client by the
+ * copied client name and stores the customer snapshot on them.
+ *
+ * Only rows without a `clientId` are touched, so running it again (e.g. when
+ * legacy rows arrive from another device via sync) is safe. Names matching
+ * more than one client are left alone rather than guessed.
+ */
+export const migrateInvoiceClientLinks = async (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+): Promise<number> => {
+  const [invoices, clients] = await Promise.all([
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select([
+            "id",
+            "clientName",
+            "clientAddressLine1",
+            "clientAddressLine2",
+            "clientCompanyIdentificationNumber",
+            "clientVatNumber",
+          ])
+          .where("ownerId", "=", ownerId)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("clientId", "is", null),
+      ),
+    ),
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("client")
+          .select([
+            "id",
+            "name",
+            "addressLine1",
+            "addressLine2",
+            "companyIdentificationNumber",
+            "vatNumber",
+          ])
+          .where("ownerId", "=", ownerId)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    ),
+  ]);
+
+  const clientsByName = new Map<string, (typeof clients)[number][]>();
+  for (const client of clients) {
+    const name = client.name?.trim();
+    if (!name) continue;
+    clientsByName.set(name, [...(clientsByName.get(name) ?? []), client]);
+  }
+
+  let migrated = 0;
+  for (const invoice of invoices) {
+    const matches = clientsByName.get(invoice.clientName?.trim() ?? "") ?? [];
+    if (matches.length !== 1) continue;
+
+    const snapshot = createClientSnapshot(matches[0]);
+    const hasSnapshot = Boolean(
+      invoice.clientAddressLine1 ||
+      invoice.clientAddressLine2 ||
+      invoice.clientCompanyIdentificationNumber ||
+      invoice.clientVatNumber,
+    );
+
+    const result = evolu.update(
+      "invoice",
+      hasSnapshot
+        ? { id: invoice.id, clientId: snapshot.clientId }
+        : {
+            id: invoice.id,
+            clientId: snapshot.clientId,
+            clientAddressLine1: snapshot.clientAddressLine1,
+            clientAddressLine2: snapshot.clientAddressLine2,
+            clientCompanyIdentificationNumber:
+              snapshot.clientCompanyIdentificationNumber,
+            clientVatNumber: snapshot.clientVatNumber,
+          },
+    );
+    if (!result.ok) {
+      console.error("Invoice client migration error:", result.error);
+      continue;
+    }
+    migrated += 1;
+  }
+
+  return migrated;
+};
@@ -0,0 +1,188 @@
+import { getInvoiceDocumentType, type InvoiceDocumentType } from "./invoices";
+
+/**
+ * Document number templates. Supported tokens:
+ *
+ *     {YYYY}  four-digit year        {YY}  two-digit year
+ *     {MM}    two-digit month        {SEQ:n}  sequence padded to n digits
+ *
+ * The sequence restarts whenever the date part of the number changes, so
+ * `{YYYY}{MM}-{SEQ:4}` resets every month, `FV{YY}{SEQ:3}` every year and a
+ * template without date tokens never resets.
+ *
+ * The invoice and proforma defaults differ in their digits, not only in the
+ * prefix, so their variable symbols never collide (20260001 and 260001).
+ */
+export const DEFAULT_NUMBER_TEMPLATES: Record<InvoiceDocumentType, string> = {
+  invoice: "{YYYY}-{SEQ:4}",
+  creditNote: "OD{YYYY}-{SEQ:4}",
+  proforma: "ZF{YY}{SEQ:4}",
+};
+
+const TOKEN_PATTERN = /\{(YYYY|YY|MM|SEQ(?::(\d+))?)\}/g;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Checks that a template has exactly one `{SEQ}` and only known tokens. */
+export const isValidNumberTemplate = (template: string): boolean => {
+  const trimmed = template.trim();
+  if (!trimmed) return false;
+  const sequences = trimmed.match(/\{SEQ(?::\d+)?\}/g) ?? [];
+  if (sequences.length !== 1) return false;
+  const withoutTokens = trimmed.replace(TOKEN_PATTERN, "");
+  return !/[{}]/.test(withoutTokens);
+};
+
+/** The template for `documentType`, falling back to the default. */
+export const resolveNumberTemplate = (
+  template: string | null | undefined,
+  documentType: InvoiceDocumentType,
+): string =>
+  template && isValidNumberTemplate(template)
+    ? template.trim()
+    : DEFAULT_NUMBER_TEMPLATES[documentType];
+
+const fillDateTokens = (token: string, date: Date): string => {
+  const year = String(date.getFullYear());
+  if (token === "YYYY") return year;
+  if (token === "YY") return year.slice(-2);
+  return String(date.getMonth() + 1).padStart(2, "0");
+};
+
+export const formatDocumentNumber = (
+  template: string,
+  date: Date,
+  sequence: number,
+): string =>
+  template
+    .trim()
+    .replace(TOKEN_PATTERN, (_, token: string, width) =>
+      token.startsWith("SEQ")
+        ? String(sequence).padStart(Number(width ?? 1), "0")
+        : fillDateTokens(token, date),
+    );
+
+/**
+ * Matches numbers issued from `template` in the period of `date`; the first
+ * capture group is the sequence.
+ */
+const buildPeriodMatcher = (template: string, date: Date): RegExp => {
+  let pattern = "";
+  let lastIndex = 0;
+  const trimmed = template.trim();
+  for (const match of trimmed.matchAll(TOKEN_PATTERN)) {
+    pattern += escapeRegExp(trimmed.slice(lastIndex, match.index));
+    pattern += match[1].startsWith("SEQ")
+      ? "(\\d+)"
+      : escapeRegExp(fillDateTokens(match[1], date));
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  pattern += escapeRegExp(trimmed.slice(lastIndex));
+  return new RegExp(`^${pattern}$`);
+};
+
+/** Next free number for `template` in the period of `date`. */
+export const getNextDocumentNumber = (
+  template: string,
+  date: Date,
+  existingNumbers: readonly (string | null)[],
+): string => {
+  const matcher = buildPeriodMatcher(template, date);
+  let highest = 0;
+  for (const number of existingNumbers) {
+    const match = number?.trim().match(matcher);
+    if (!match) continue;
+    const sequence = Number.parseInt(match[1], 10);
+    if (Number.isFinite(sequence) && sequence > highest) highest = sequence;
+  }
+  return formatDocumentNumber(template, date, highest + 1);
+};
+
+/**
+ * Variable symbol for bank payments: the digits of the document number
+ * (the literal text of the template dropped), at most 10 of them.
+ */
+export const getVariableSymbol = (invoiceNumber: string): string =>
+  invoiceNumber.replace(/\D/g, "").slice(-10);
+
+/** Customers pay both, so their variable symbols must differ across both series. */
+const PAYABLE_DOCUMENT_TYPES: readonly InvoiceDocumentType[] = [
+  "invoice",
+  "proforma",
+];
+
+const sharesVariableSymbols = (
+  documentType: InvoiceDocumentType,
+  other: InvoiceDocumentType,
+) =>
+  documentType === other ||
+  (PAYABLE_DOCUMENT_TYPES.includes(documentType) &&
+    PAYABLE_DOCUMENT_TYPES.includes(other));
+
+type NumberTemplateSettings = {
+  invoiceNumberTemplate?: string | null;
+  creditNoteNumberTemplate?: string | null;
+  proformaNumberTemplate?: string | null;
+};
+
+type NumberedDocument = {
+  id: string;
+  invoiceNumber: string | null;
+  documentType?: string | null;
+};
+
+export const getNumberTemplate = (
+  settings: NumberTemplateSettings | null | undefined,
+  documentType: InvoiceDocumentType,
+): string =>
+  resolveNumberTemplate(
+    documentType === "creditNote"
+      ? settings?.creditNoteNumberTemplate
+      : documentType === "proforma"
+        ? settings?.proformaNumberTemplate
+        : settings?.invoiceNumberTemplate,
+    documentType,
+  );
+
+/** Next number in the series of `documentType`, each type counted alone. */
+export const getNextSeriesNumber = (
+  documents: readonly NumberedDocument[],
+  documentType: InvoiceDocumentType,
+  settings: NumberTemplateSettings | null | undefined,
+  date: Date = new Date(),
+): string =>
+  getNextDocumentNumber(
+    getNumberTemplate(settings, documentType),
+    date,
+    documents
+      .filter((row) => getInvoiceDocumentType(row) === documentType)
+      .map((row) => row.invoiceNumber),
+  );
+
+/**
+ * True when another document already uses `invoiceNumber`, or when one with
+ * the same variable symbol is paid the same way (e.g. "FV26001" and
+ * "FV-26-001", or invoice "2026-0001" and proforma "ZF2026-0001"), which
+ * would make payments impossible to tell apart.
+ */
+export const hasDuplicateDocumentNumber = (
+  invoiceNumber: string,
+  documentType: InvoiceDocumentType,
+  documents: readonly NumberedDocument[],
+  excludeId?: string | null,
+): boolean => {
+  const trimmed = invoiceNumber.trim();
+  if (!trimmed) return false;
+  const variableSymbol = getVariableSymbol(trimmed);
+  return documents.some((row) => {
+    if (row.id === excludeId) return false;
+    const number = row.invoiceNumber?.trim() ?? "";
+    if (number === trimmed) return true;
+    return (
+      Boolean(variableSymbol) &&
+      sharesVariableSymbols(documentType, getInvoiceDocumentType(row)) &&
+      getVariableSymbol(number) === variableSymbol
+    );
+  });
+};
@@ -0,0 +1,37 @@
+/**
+ * Czech QR payment (SPAYD) string for a bank transfer, or null without an
+ * IBAN or a positive amount. `dueDate` is YYYYMMDD.
+ */
+export const buildSpdPayload = (payment: {
+  iban: string | null | undefined;
+  swift?: string | null;
+  amount: number;
+  currency: string;
+  variableSymbol?: string | null;
+  dueDate?: string | null;
+  message?: string;
+}): string | null => {
+  const iban = (payment.iban ?? "").replace(/\s/g, "");
+  if (!iban) return null;
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) return null;
+
+  const formattedAmount = Number.isInteger(payment.amount)
+    ? String(payment.amount)
+    : payment.amount.toFixed(2);
+  const accountValue = payment.swift ? `${iban}+${payment.swift}` : iban;
+  // Values may not contain the field separator.
+  const message = (payment.message ?? "QRPLATBA")
+    .replace(/\*/g, " ")
+    .slice(0, 60);
+  return [
+    "SPD*1.0",
+    `ACC:${accountValue}`,
+    "PT:IP",
+    `AM:${formattedAmount}`,
+    `CC:${payment.currency}`,
+    payment.variableSymbol ? `X-VS:${payment.variableSymbol}` : "",
+    payment.dueDate ? `DT:${payment.dueDate}` : "",
+    `MSG:${message}`,
+    "",
+  ].join("*");
+};
@@ -0,0 +1,233 @@
+import * as Evolu from "@evolu/common";
+import type { evolu as evoluInstance } from "./evolu";
+import { roundCents } from "./invoices";
+
+type EvoluInstance = typeof evoluInstance;
+
+export const PAYMENT_METHODS = ["bank", "cash", "card", "other"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const normalizePaymentMethod = (value?: string | null): PaymentMethod =>
+  (PAYMENT_METHODS as readonly string[]).includes(value ?? "")
+    ? (value as PaymentMethod)
+    : "bank";
+
+export type PaymentRecord = {
+  id?: string;
+  invoiceId: string | null;
+  paymentDate: string | null;
+  amount: number | null;
+};
+
+export type NewPayment = {
+  /** YYYY-MM-DD */
+  paymentDate: string;
+  amount: number;
+  method: PaymentMethod;
+  note: string;
+};
+
+/** Amounts below half a cent count as settled. */
+const SETTLED_TOLERANCE = 0.005;
+
+/** Sum of the recorded payments per invoice id. */
+export const getPaidAmounts = (
+  payments: readonly PaymentRecord[],
+): Map<string, number> => {
+  const paid = new Map<string, number>();
+  for (const payment of payments) {
+    if (!payment.invoiceId) continue;
+    const amount = Number(payment.amount ?? 0);
+    if (!Number.isFinite(amount)) continue;
+    paid.set(
+      payment.invoiceId,
+      roundCents((paid.get(payment.invoiceId) ?? 0) + amount),
+    );
+  }
+  return paid;
+};
+
+/**
+ * Date of the payment that brought the running sum up to `payable`, or null
+ * while the invoice is still short.
+ */
+export const getSettlementDate = (
+  payable: number,
+  payments: readonly PaymentRecord[],
+): string | null => {
+  const sorted = payments
+    .filter((payment) => payment.paymentDate)
+    .sort((a, b) => (a.paymentDate ?? "").localeCompare(b.paymentDate ?? ""));
+  let sum = 0;
+  for (const payment of sorted) {
+    sum += Number(payment.amount ?? 0);
+    if (sum >= payable - SETTLED_TOLERANCE) return payment.paymentDate;
+  }
+  return null;
+};
+
+/** Amount still owed on an invoice, never below zero. */
+export const getRemainingAmount = (payable: number, paid: number) =>
+  Math.max(0, roundCents(payable - paid));
+
+/**
+ * Part of `amount` (e.g. a total without VAT) that is still owed, in the
+ * proportion of the settled sum to the amount to pay. `credited` is the
+ * `creditedAmount` of `applyCreditNotes`, so this works for credit notes too.
+ */
+export const getOutstandingShare = (
+  amount: number,
+  payable: number,
+  paid: number,
+  credited = 0,
+) => {
+  const settled = paid + credited;
+  if (settled === 0 || payable === 0) return amount;
+  const share = (payable - settled) / payable;
+  return amount * Math.min(1, Math.max(0, share));
+};
+
+/**
+ * Marks the invoice paid on the settlement date of its payments, or unpaid
+ * when they no longer cover `payable`.
+ */
+const syncInvoicePaymentDate = (
+  evolu: EvoluInstance,
+  invoiceId: string,
+  payable: number,
+  payments: readonly PaymentRecord[],
+): boolean => {
+  const settlementDate = getSettlementDate(payable, payments);
+  let paymentDate: Evolu.DateIso | null = null;
+  if (settlementDate) {
+    const dateResult = Evolu.dateToDateIso(new Date(settlementDate));
+    if (!dateResult.ok) {
+      console.error("Payment date error:", dateResult.error);
+      return false;
+    }
+    paymentDate = dateResult.value;
+  }
+  const result = evolu.update("invoice", {
+    id: invoiceId,
+    paymentDate,
+  });
+  if (!result.ok) {
+    console.error("Payment update error:", result.error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Records a payment on an invoice and updates the invoice's payment date
+ * from all of its payments. `payments` are the invoice's existing payments.
+ */
+export const recordInvoicePayment = (
+  evolu: EvoluInstance,
+  invoice: { id: string; payable: number; payments: readonly PaymentRecord[] },
+  payment: NewPayment,
+): boolean => {
+  const dateResult = Evolu.dateToDateIso(new Date(payment.paymentDate));
+  if (!dateResult.ok) {
+    console.error("Payment date error:", dateResult.error);
+    return false;
+  }
+  const result = evolu.insert("payment", {
+    invoiceId: invoice.id,
+    paymentDate: dateResult.value,
+    amount: roundCents(payment.amount),
+    method: payment.method,
+    note: payment.note.trim().slice(0, 1000) || null,
+    deleted: Evolu.sqliteFalse,
+  });
+  if (!result.ok) {
+    console.error("Payment insert error:", result.error);
+    return false;
+  }
+  return syncInvoicePaymentDate(evolu, invoice.id, invoice.payable, [
+    ...invoice.payments,
+    {
+      invoiceId: invoice.id,
+      paymentDate: dateResult.value,
+      amount: payment.amount,
+    },
+  ]);
+};
+
+export const deleteInvoicePayment = (
+  evolu: EvoluInstance,
+  invoice: { id: string; payable: number; payments: readonly PaymentRecord[] },
+  paymentId: string,
+): boolean => {
+  const result = evolu.update("payment", {
+    id: paymentId,
+    deleted: Evolu.sqliteTrue,
+  });
+  if (!result.ok) {
+    console.error("Payment delete error:", result.error);
+    return false;
+  }
+  return syncInvoicePaymentDate(
+    evolu,
+    invoice.id,
+    invoice.payable,
+    invoice.payments.filter((payment) => payment.id !== paymentId),
+  );
+};
+
+/**
+ * Marks an invoice paid on `paymentDate` by recording what is still owed as
+ * one payment, so the date comes from the ledger like for any other payment.
+ * With nothing left to pay the date is set directly.
+ */
+export const settleInvoicePayment = (
+  evolu: EvoluInstance,
+  invoice: { id: string; payable: number; payments: readonly PaymentRecord[] },
+  paymentDate: string,
+  method: PaymentMethod,
+): boolean => {
+  const paid = getPaidAmounts(invoice.payments).get(invoice.id) ?? 0;
+  const remaining = getRemainingAmount(invoice.payable, paid);
+  if (remaining > 0) {
+    return recordInvoicePayment(evolu, invoice, {
+      paymentDate,
+      amount: remaining,
+      method,
+      note: "",
+    });
+  }
+  const dateResult = Evolu.dateToDateIso(new Date(paymentDate));
+  if (!dateResult.ok) {
+    console.error("Payment date error:", dateResult.error);
+    return false;
+  }
+  const result = evolu.update("invoice", {
+    id: invoice.id,
+    paymentDate: dateResult.value,
+  });
+  if (!result.ok) {
+    console.error("Payment update error:", result.error);
+    return false;
+  }
+  return true;
+};
+
+/** Deletes all payments of an invoice, which leaves it unpaid. */
+export const clearInvoicePayments = (
+  evolu: EvoluInstance,
+  invoice: { id: string; payable: number; payments: readonly PaymentRecord[] },
+): boolean => {
+  for (const payment of invoice.payments) {
+    if (!payment.id) continue;
+    const result = evolu.update("payment", {
+      id: payment.id,
+      deleted: Evolu.sqliteTrue,
+    });
+    if (!result.ok) {
+      console.error("Payment delete error:", result.error);
+      return false;
+    }
+  }
+  return syncInvoicePaymentDate(evolu, invoice.id, invoice.payable, []);
+};
@@ -0,0 +1,16 @@
+import { Font } from "@react-pdf/renderer";
+
+/** Noto Sans covers the Czech diacritics the built-in PDF fonts lack. */
+export const PDF_FONT_FAMILY = "NotoSans";
+
+Font.register({
+  family: PDF_FONT_FAMILY,
+  src: "https://fonts.gstatic.com/s/notosans/v42/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyD9A99d.ttf",
+  fontWeight: 400,
+});
+
+Font.register({
+  family: PDF_FONT_FAMILY,
+  src: "https://fonts.gstatic.com/s/notosans/v42/o-0mIpQlx3QUlC5A4PNB6Ryti20_6n1iPHjcz6L1SoM-jCpoiyAaBN9d.ttf",
+  fontWeight: 700,
+});
@@ -0,0 +1,121 @@
+export const PDF_LAYOUTS = ["classic", "modern", "compact"] as const;
+
+export type PdfLayout = (typeof PDF_LAYOUTS)[number];
+
+/** Optional parts of the invoice PDF the supplier can leave out. */
+export const PDF_BLOCKS = ["qr", "bankDetails", "purchaseOrder"] as const;
+
+export type PdfBlock = (typeof PDF_BLOCKS)[number];
+
+/** The grey the PDF used before it could be branded. */
+export const DEFAULT_PDF_ACCENT_COLOR = "#6b7280";
+
+/**
+ * Longest data URL stored per image. Both images travel with every profile
+ * save, so together they stay well under Evolu's 640 KB mutation limit.
+ */
+export const MAX_PDF_IMAGE_LENGTH = 150_000;
+
+/** Longest side of a stored image in pixels, enough for print at its size. */
+const MAX_PDF_IMAGE_SIDE = 600;
+
+export type PdfTemplate = {
+  layout: PdfLayout;
+  accentColor: string;
+  logo: string | null;
+  signature: string | null;
+  hiddenBlocks: ReadonlySet<PdfBlock>;
+};
+
+export const normalizePdfLayout = (value?: string | null): PdfLayout =>
+  (PDF_LAYOUTS as readonly string[]).includes(value ?? "")
+    ? (value as PdfLayout)
+    : "classic";
+
+/** `#rrggbb` in lower case, or the default accent for anything else. */
+export const normalizePdfAccentColor = (value?: string | null): string => {
+  const trimmed = (value ?? "").trim().toLowerCase();
+  return /^#[0-9a-f]{6}$/.test(trimmed) ? trimmed : DEFAULT_PDF_ACCENT_COLOR;
+};
+
+/** Hidden blocks are stored as a comma-separated list, e.g. "qr,bankDetails". */
+export const parsePdfHiddenBlocks = (
+  value?: string | null,
+): ReadonlySet<PdfBlock> =>
+  new Set(
+    (value ?? "")
+      .split(",")
+      .map((block) => block.trim())
+      .filter((block): block is PdfBlock =>
+        (PDF_BLOCKS as readonly string[]).includes(block),
+      ),
+  );
+
+export const serializePdfHiddenBlocks = (
+  blocks: Iterable<PdfBlock>,
+): string | null => {
+  const hidden = new Set(blocks);
+  const value = PDF_BLOCKS.filter((block) => hidden.has(block)).join(",");
+  return value || null;
+};
+
+export const getPdfTemplate = (
+  profile: {
+    pdfLayout?: string | null;
+    pdfAccentColor?: string | null;
+    pdfLogo?: string | null;
+    pdfSignature?: string | null;
+    pdfHiddenBlocks?: string | null;
+  } | null,
+): PdfTemplate => ({
+  layout: normalizePdfLayout(profile?.pdfLayout),
+  accentColor: normalizePdfAccentColor(profile?.pdfAccentColor),
+  logo: profile?.pdfLogo || null,
+  signature: profile?.pdfSignature || null,
+  hiddenBlocks: parsePdfHiddenBlocks(profile?.pdfHiddenBlocks),
+});
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Cannot read image ${file.name}`));
+    };
+    image.src = url;
+  });
+
+/**
+ * Scales an uploaded image down and re-encodes it as a data URL the PDF
+ * renderer accepts: PNG to keep transparency, JPEG when the PNG is too big.
+ * Throws when even the JPEG exceeds {@link MAX_PDF_IMAGE_LENGTH}.
+ */
+export const preparePdfImage = async (file: File): Promise<string> => {
+  const image = await loadImage(file);
+  const scale = Math.min(
+    1,
+    MAX_PDF_IMAGE_SIDE / Math.max(image.naturalWidth, image.naturalHeight),
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not available");
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const png = canvas.toDataURL("image/png");
+  if (png.length <= MAX_PDF_IMAGE_LENGTH) return png;
+
+  // JPEG has no alpha; paint transparent areas white instead of black.
+  context.globalCompositeOperation = "destination-over";
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  const jpeg = canvas.toDataURL("image/jpeg", 0.85);
+  if (jpeg.length <= MAX_PDF_IMAGE_LENGTH) return jpeg;
+  throw new Error(`Image ${file.name} is too large`);
+};
@@ -0,0 +1,482 @@
+import { splitStreetLine, splitTownLine } from "./address";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import {
+  computeInvoiceTotals,
+  findInvoiceClient,
+  getInvoiceDocumentType,
+  getInvoiceDueDate,
+  isDraftInvoice,
+  normalizeVatRegime,
+  parseInvoiceItems,
+  resolveInvoiceCustomer,
+  roundCents,
+  type InvoiceAdjustments,
+  type InvoiceClientSource,
+  type InvoiceCustomer,
+  type InvoiceCustomerSnapshot,
+  type InvoiceDocumentType,
+  type VatRegime,
+} from "./invoices";
+import { getVariableSymbol } from "./numbering";
+import { xmlNode, type XmlChild } from "./xml";
+
+const POHODA_NAMESPACES = {
+  "xmlns:dat": "http://www.stormware.cz/schema/version_2/data.xsd",
+  "xmlns:inv": "http://www.stormware.cz/schema/version_2/invoice.xsd",
+  "xmlns:typ": "http://www.stormware.cz/schema/version_2/type.xsd",
+};
+
+const INVOICE_TYPES: Record<InvoiceDocumentType, string> = {
+  invoice: "issuedInvoice",
+  creditNote: "issuedCreditNotice",
+  proforma: "issuedAdvanceInvoice",
+};
+
+/**
+ * Pohoda's VAT classification (členění DPH) of issued invoices. The accountant
+ * can still reclassify a document after the import.
+ */
+const ISSUED_VAT_CLASSIFICATION: Record<VatRegime, string> = {
+  domestic: "UD",
+  reverseCharge: "UDpdp",
+  euServices: "UDslEU",
+  export: "UDvyvoz",
+};
+
+const RECEIVED_VAT_CLASSIFICATION = "PD";
+
+/** Pohoda names the rates rather than storing the percentage. */
+const RATE_NAMES: Record<number, "high" | "low" | "third"> = {
+  21: "high",
+  15: "low",
+  12: "low",
+  10: "third",
+};
+
+const getRateName = (vatRate: number) =>
+  vatRate === 0 ? "none" : (RATE_NAMES[vatRate] ?? "high");
+
+/** Summary element prefixes per rate name. */
+const SUMMARY_PREFIXES = {
+  high: "priceHigh",
+  low: "priceLow",
+  third: "price3",
+} as const;
+
+export type PohodaInvoice = InvoiceAdjustments &
+  InvoiceCustomerSnapshot & {
+    id: string;
+    invoiceNumber: string | null;
+    documentType?: string | null;
+    correctedInvoiceNumber?: string | null;
+    draft?: number | null;
+    clientId?: string | null;
+    issueDate: string | null;
+    duzp?: string | null;
+    paymentDays: number | null;
+    paymentMethod?: string | null;
+    invoicingNote?: string | null;
+    exchangeRate?: number | null;
+    items: unknown;
+  };
+
+export type PohodaExpense = {
+  id: string;
+  expenseNumber: string | null;
+  supplierVat: string | null;
+  amountWithoutVat: number | null;
+  vatRate: number | null;
+  amountWithVat: number | null;
+  description: string | null;
+  expenseDate: string | null;
+};
+
+export type PohodaExportInput = {
+  invoices: readonly PohodaInvoice[];
+  expenses: readonly PohodaExpense[];
+  clients: readonly InvoiceClientSource[];
+  /** IČO of the accounting unit; Pohoda refuses data packs for another one. */
+  companyIdentificationNumber: string;
+  vatPayer: boolean;
+  /** Inclusive YYYY-MM-DD range of issue dates and expense dates. */
+  from: string;
+  to: string;
+  /** Item text of the invoice-level discount lines. */
+  discountLabel: string;
+};
+
+const toDay = (value?: string | null) => (value ?? "").slice(0, 10);
+
+const toDateInputValue = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+const formatAmount = (value: number) => String(roundCents(value));
+
+/** Unit prices keep their decimals; the line totals carry the cents. */
+const formatUnitPrice = (value: number) => String(Number(value.toFixed(6)));
+
+/**
+ * Splits running totals into cent amounts per line: each line gets the step
+ * between two rounded running totals, so the lines add up to the rounded
+ * total exactly. `toAmount` maps a running total, e.g. a base to its VAT.
+ */
+const roundedSteps = (
+  values: number[],
+  toAmount: (total: number) => number = (total) => total,
+): number[] => {
+  let total = 0;
+  let previous = 0;
+  return values.map((value) => {
+    total += value;
+    const current = roundCents(toAmount(total));
+    const step = roundCents(current - previous);
+    previous = current;
+    return step;
+  });
+};
+
+const isInRange = (date: string, from: string, to: string) =>
+  Boolean(date) && date >= from && date <= to;
+
+const addressElement = (party: InvoiceCustomer): string => {
+  const street = splitStreetLine(party.addressLine1);
+  const town = splitTownLine(party.addressLine2);
+  const streetLine = [
+    street.street,
+    street.orientationNumber
+      ? `${street.houseNumber}/${street.orientationNumber}`
+      : street.houseNumber,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return xmlNode("inv:partnerIdentity", [
+    xmlNode("typ:address", [
+      party.name ? xmlNode("typ:company", party.name) : null,
+      town.town ? xmlNode("typ:city", town.town) : null,
+      streetLine ? xmlNode("typ:street", streetLine) : null,
+      town.postcode ? xmlNode("typ:zip", town.postcode) : null,
+      party.companyIdentificationNumber
+        ? xmlNode("typ:ico", party.companyIdentificationNumber)
+        : null,
+      party.vatNumber ? xmlNode("typ:dic", party.vatNumber) : null,
+    ]),
+  ]);
+};
+
+const classificationElement = (vatPayer: boolean, code: string) =>
+  xmlNode(
+    "inv:classificationVAT",
+    vatPayer
+      ? [xmlNode("typ:ids", code)]
+      : [xmlNode("typ:classificationVATType", "nonSubsume")],
+  );
+
+type PohodaLine = {
+  text: string;
+  quantity: number;
+  unit: string;
+  /** Base of the line before cent rounding. */
+  base: number;
+  vatRate: number;
+};
+
+/** Line base and VAT in cents, in the document currency and in CZK. */
+type PohodaLineAmounts = {
+  price: number;
+  priceVAT: number;
+  homePrice: number;
+  homePriceVAT: number;
+};
+
+/**
+ * Rounds the lines rate by rate the way computeInvoiceTotals rounds the
+ * recap: per rate the line bases add up to its base and the line VAT to its
+ * VAT, both in the document currency and in CZK.
+ */
+const roundLineAmounts = (
+  lines: PohodaLine[],
+  vatPayer: boolean,
+  exchangeRate: number,
+): PohodaLineAmounts[] => {
+  const amounts: PohodaLineAmounts[] = [];
+  for (const vatRate of new Set(lines.map((line) => line.vatRate))) {
+    const indexes = lines.flatMap((line, index) =>
+      line.vatRate === vatRate ? [index] : [],
+    );
+    const rate = vatPayer ? vatRate / 100 : 0;
+    const prices = roundedSteps(indexes.map((index) => lines[index].base));
+    const vats = roundedSteps(prices, (total) => roundCents(total) * rate);
+    const homePrices = roundedSteps(
+      prices,
+      (total) => roundCents(total) * exchangeRate,
+    );
+    const homeVats = roundedSteps(
+      vats,
+      (total) => roundCents(total) * exchangeRate,
+    );
+    indexes.forEach((index, position) => {
+      amounts[index] = {
+        price: prices[position],
+        priceVAT: vats[position],
+        homePrice: homePrices[position],
+        homePriceVAT: homeVats[position],
+      };
+    });
+  }
+  return amounts;
+};
+
+const itemAmounts = (
+  unitPrice: number | null,
+  price: number,
+  priceVAT: number,
+): XmlChild[] => [
+  unitPrice !== null
+    ? xmlNode("typ:unitPrice", formatUnitPrice(unitPrice))
+    : null,
+  xmlNode("typ:price", formatAmount(price)),
+  xmlNode("typ:priceVAT", formatAmount(priceVAT)),
+  xmlNode("typ:priceSum", formatAmount(price + priceVAT)),
+];
+
+const invoiceItem = (
+  line: PohodaLine,
+  amounts: PohodaLineAmounts,
+  isForeign: boolean,
+) => {
+  const unitPrice = line.quantity !== 0 ? line.base / line.quantity : 0;
+  return xmlNode("inv:invoiceItem", [
+    xmlNode("inv:text", line.text.slice(0, 90)),
+    xmlNode("inv:quantity", String(line.quantity)),
+    line.unit ? xmlNode("inv:unit", line.unit.slice(0, 10)) : null,
+    xmlNode("inv:payVAT", "false"),
+    xmlNode("inv:rateVAT", getRateName(line.vatRate)),
+    xmlNode("inv:percentVAT", String(line.vatRate)),
+    xmlNode(
+      "inv:homeCurrency",
+      isForeign
+        ? itemAmounts(null, amounts.homePrice, amounts.homePriceVAT)
+        : itemAmounts(unitPrice, amounts.price, amounts.priceVAT),
+    ),
+    isForeign
+      ? xmlNode(
+          "inv:foreignCurrency",
+          itemAmounts(unitPrice, amounts.price, amounts.priceVAT),
+        )
+      : null,
+  ]);
+};
+
+const invoiceElement = (
+  invoice: PohodaInvoice,
+  customer: InvoiceCustomer,
+  vatPayer: boolean,
+  discountLabel: string,
+): string => {
+  const documentType = getInvoiceDocumentType(invoice);
+  const currency = normalizeCurrency(invoice.currency);
+  const isForeign = currency !== DEFAULT_CURRENCY;
+  const items = parseInvoiceItems(invoice.items);
+  const totals = computeInvoiceTotals(items, invoice, { withVat: vatPayer });
+
+  // Line discounts are folded into the line base.
+  const lines: PohodaLine[] = totals.lines.map((line, index) => ({
+    text: items[index]?.description ?? "",
+    quantity: Number(items[index]?.amount ?? 0),
+    unit: items[index]?.unit ?? "",
+    base: line.base,
+    vatRate: line.vatRate,
+  }));
+  if (totals.invoiceDiscount !== 0) {
+    for (const vatRate of totals.vatRates) {
+      const linesBase = totals.lines
+        .filter((line) => line.vatRate === vatRate.vatRate)
+        .reduce((sum, line) => sum + line.base, 0);
+      lines.push({
+        text: discountLabel,
+        quantity: 1,
+        unit: "",
+        base: vatRate.base - linesBase,
+        vatRate: vatRate.vatRate,
+      });
+    }
+  }
+  const amounts = roundLineAmounts(
+    lines,
+    vatPayer,
+    isForeign ? (invoice.exchangeRate ?? 1) : 1,
+  );
+  // A discount line left without a cent to carry is dropped.
+  const itemElements = lines.flatMap((line, index) =>
+    index >= totals.lines.length &&
+    amounts[index].price === 0 &&
+    amounts[index].priceVAT === 0
+      ? []
+      : [invoiceItem(line, amounts[index], isForeign)],
+  );
+
+  const dueDate = getInvoiceDueDate(invoice);
+  const number = invoice.invoiceNumber ?? "";
+  const header: XmlChild[] = [
+    xmlNode("inv:invoiceType", INVOICE_TYPES[documentType]),
+    xmlNode("inv:number", [xmlNode("typ:numberRequested", number)]),
+    xmlNode("inv:symVar", getVariableSymbol(number)),
+    documentType === "creditNote" && invoice.correctedInvoiceNumber
+      ? xmlNode("inv:originalDocumentNumber", invoice.correctedInvoiceNumber)
+      : null,
+    xmlNode("inv:date", toDay(invoice.issueDate)),
+    invoice.duzp ? xmlNode("inv:dateTax", toDay(invoice.duzp)) : null,
+    dueDate ? xmlNode("inv:dateDue", toDateInputValue(dueDate)) : null,
+    classificationElement(
+      vatPayer,
+      ISSUED_VAT_CLASSIFICATION[normalizeVatRegime(invoice.vatRegime)],
+    ),
+    xmlNode("inv:text", (items[0]?.description ?? number).slice(0, 240)),
+    addressElement(customer),
+    xmlNode("inv:paymentType", [
+      xmlNode(
+        "typ:paymentType",
+        invoice.paymentMethod === "cash" ? "cash" : "draft",
+      ),
+    ]),
+    invoice.invoicingNote?.trim()
+      ? xmlNode("inv:note", invoice.invoicingNote.trim())
+      : null,
+  ];
+
+  const summary: XmlChild[] = [
+    xmlNode(
+      "inv:roundingDocument",
+      totals.rounding !== 0 ? "math2one" : "none",
+    ),
+    isForeign
+      ? xmlNode("inv:foreignCurrency", [
+          xmlNode("typ:currency", [xmlNode("typ:ids", currency)]),
+          xmlNode("typ:rate", String(invoice.exchangeRate ?? 1)),
+          xmlNode("typ:amount", "1"),
+        ])
+      : null,
+  ];
+
+  return xmlNode(
+    "inv:invoice",
+    [
+      xmlNode("inv:invoiceHeader", header),
+      xmlNode("inv:invoiceDetail", itemElements),
+      xmlNode("inv:invoiceSummary", summary),
+    ],
+    { version: "2.0" },
+  );
+};
+
+/**
+ * Expenses carry no items, so they go out as a received invoice with the
+ * amounts in the summary. A missing amount is derived from the other one.
+ */
+const expenseElement = (expense: PohodaExpense, vatPayer: boolean): string => {
+  const vatRate = vatPayer ? (expense.vatRate ?? 0) : 0;
+  const base =
+    expense.amountWithoutVat ??
+    (expense.amountWithVat ?? 0) / (1 + vatRate / 100);
+  const total = expense.amountWithVat ?? base * (1 + vatRate / 100);
+  const rateName = getRateName(vatRate);
+  const documentNumber = expense.expenseNumber?.trim() ?? "";
+
+  const amounts =
+    rateName === "none"
+      ? [xmlNode("typ:priceNone", formatAmount(total))]
+      : [
+          xmlNode(`typ:${SUMMARY_PREFIXES[rateName]}`, formatAmount(base)),
+          xmlNode(
+            `typ:${SUMMARY_PREFIXES[rateName]}VAT`,
+            formatAmount(total - base),
+          ),
+          xmlNode(`typ:${SUMMARY_PREFIXES[rateName]}Sum`, formatAmount(total)),
+        ];
+
+  return xmlNode(
+    "inv:invoice",
+    [
+      xmlNode("inv:invoiceHeader", [
+        xmlNode("inv:invoiceType", "receivedInvoice"),
+        documentNumber
+          ? xmlNode("inv:symVar", getVariableSymbol(documentNumber))
+          : null,
+        documentNumber ? xmlNode("inv:originalDocument", documentNumber) : null,
+        xmlNode("inv:date", toDay(expense.expenseDate)),
+        vatPayer ? xmlNode("inv:dateTax", toDay(expense.expenseDate)) : null,
+        classificationElement(vatPayer, RECEIVED_VAT_CLASSIFICATION),
+        xmlNode("inv:text", (expense.description ?? "").slice(0, 240)),
+        expense.supplierVat
+          ? xmlNode("inv:partnerIdentity", [
+              xmlNode("typ:address", [xmlNode("typ:dic", expense.supplierVat)]),
+            ])
+          : null,
+      ]),
+      xmlNode("inv:invoiceSummary", [
+        xmlNode("inv:roundingDocument", "none"),
+        xmlNode("inv:homeCurrency", amounts),
+      ]),
+    ],
+    { version: "2.0" },
+  );
+};
+
+/**
+ * Pohoda XML data pack with the issued invoices (drafts left out) and the
+ * expenses of the date range. Invoices are picked by issue date, expenses by
+ * their date.
+ */
+export const buildPohodaXml = ({
+  invoices,
+  expenses,
+  clients,
+  companyIdentificationNumber,
+  vatPayer,
+  from,
+  to,
+  discountLabel,
+}: PohodaExportInput): string => {
+  const items: string[] = [];
+  for (const invoice of invoices) {
+    if (isDraftInvoice(invoice)) continue;
+    if (!isInRange(toDay(invoice.issueDate), from, to)) continue;
+    const customer = resolveInvoiceCustomer(
+      invoice,
+      findInvoiceClient(invoice, clients),
+    );
+    items.push(
+      xmlNode(
+        "dat:dataPackItem",
+        [invoiceElement(invoice, customer, vatPayer, discountLabel)],
+        { id: `INV-${invoice.id}`, version: "2.0" },
+      ),
+    );
+  }
+  for (const expense of expenses) {
+    if (!isInRange(toDay(expense.expenseDate), from, to)) continue;
+    items.push(
+      xmlNode("dat:dataPackItem", [expenseElement(expense, vatPayer)], {
+        id: `EXP-${expense.id}`,
+        version: "2.0",
+      }),
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    xmlNode("dat:dataPack", items, {
+      ...POHODA_NAMESPACES,
+      id: `fakturing-${from}-${to}`,
+      ico: companyIdentificationNumber,
+      application: "Fakturing",
+      version: "2.0",
+      note: `${from} – ${to}`,
+    }),
+    "",
+  ].join("\n");
+};
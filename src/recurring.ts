@@ -0,0 +1,250 @@
+import * as Evolu from "@evolu/common";
+import { findRateForDate, normalizeCurrency } from "./currency";
+import type { evolu as evoluInstance } from "./evolu";
+import {
+  createClientSnapshot,
+  normalizeInvoiceItems,
+  parseInvoiceItems,
+  parseItemsParam,
+} from "./invoices";
+
+type EvoluInstance = typeof evoluInstance;
+
+export const RECURRING_CADENCES = ["monthly", "quarterly", "yearly"] as const;
+
+export type RecurringCadence = (typeof RECURRING_CADENCES)[number];
+
+const CADENCE_MONTHS: Record<RecurringCadence, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Drafts generated for one schedule in a single run at most. A schedule left
+ * untouched for years should not flood the invoice list.
+ */
+const MAX_RUNS_PER_SCHEDULE = 12;
+
+export const normalizeCadence = (value?: string | null): RecurringCadence =>
+  (RECURRING_CADENCES as readonly string[]).includes(value ?? "")
+    ? (value as RecurringCadence)
+    : "monthly";
+
+const toDateInputValue = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * `date` (YYYY-MM-DD or ISO) moved by one cadence. Days past the end of the
+ * target month are clamped, so 31 January is followed by 28/29 February.
+ */
+export const addCadence = (date: string, cadence: RecurringCadence): string => {
+  const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+  const target = new Date(year, month - 1 + CADENCE_MONTHS[cadence], 1);
+  const lastDay = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0,
+  ).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return toDateInputValue(target);
+};
+
+export const isRecurringRunDue = (
+  nextRunDate: string | null,
+  today: Date = new Date(),
+): boolean =>
+  Boolean(nextRunDate) &&
+  (nextRunDate ?? "").slice(0, 10) <= toDateInputValue(today);
+
+/** Runs in progress per owner; StrictMode mounts the app effect twice. */
+const pendingRuns = new Map<string, Promise<number>>();
+
+/**
+ * Id of the draft for one run of a schedule. Every tab and device derives the
+ * same one, so a run generated twice ends up as a single invoice.
+ */
+const getRunInvoiceId = (scheduleId: string, runDate: string) =>
+  Evolu.createIdFromString<"Invoice">(`recurring:${scheduleId}:${runDate}`);
+
+/**
+ * Creates a draft invoice for every due run of every active schedule and
+ * moves the schedules' next run date forward. Each draft is dated by its own
+ * run: the run date is its issue date and DUZP and picks its exchange rate,
+ * so a catch-up after a long break yields one draft per missed period. The
+ * customer details are the client's as it is now; the number is assigned
+ * when the draft is issued.
+ *
+ * Runs on app open. The next run date is advanced together with the insert,
+ * so opening the app again the same day does nothing. A run whose draft
+ * already exists, e.g. generated by another tab or device, is skipped.
+ */
+export const generateDueRecurringInvoices = (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+  today: Date = new Date(),
+): Promise<number> => {
+  const pending = pendingRuns.get(ownerId);
+  if (pending) return pending;
+  const run = generateDueRuns(evolu, ownerId, today).finally(() => {
+    pendingRuns.delete(ownerId);
+  });
+  pendingRuns.set(ownerId, run);
+  return run;
+};
+
+const generateDueRuns = async (
+  evolu: EvoluInstance,
+  ownerId: Evolu.OwnerId,
+  today: Date,
+): Promise<number> => {
+  const schedules = await evolu.loadQuery(
+    evolu.createQuery((db) =>
+      db
+        .selectFrom("recurringInvoice")
+        .selectAll()
+        .where("ownerId", "=", ownerId)
+        .where("isDeleted", "is not", Evolu.sqliteTrue)
+        .where("deleted", "is not", Evolu.sqliteTrue)
+        .where("paused", "is not", Evolu.sqliteTrue),
+    ),
+  );
+  const dueSchedules = schedules.filter((schedule) =>
+    isRecurringRunDue(schedule.nextRunDate, today),
+  );
+  if (dueSchedules.length === 0) return 0;
+
+  const [clients, profiles, rates, generatedInvoices] = await Promise.all([
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("client")
+          .select([
+            "id",
+            "name",
+            "addressLine1",
+            "addressLine2",
+            "companyIdentificationNumber",
+            "vatNumber",
+          ])
+          .where("ownerId", "=", ownerId)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .where("deleted", "is not", Evolu.sqliteTrue),
+      ),
+    ),
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("userProfile")
+          .select(["vatPayer"])
+          .where("ownerId", "=", ownerId)
+          .where("isDeleted", "is not", Evolu.sqliteTrue)
+          .orderBy("updatedAt", "desc")
+          .limit(1),
+      ),
+    ),
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("currencyRate")
+          .select(["rateDate", "currency", "rate"])
+          .where("ownerId", "=", ownerId)
+          .where("isDeleted", "is not", Evolu.sqliteTrue),
+      ),
+    ),
+    // Deleted drafts included: a run the user threw away stays generated.
+    evolu.loadQuery(
+      evolu.createQuery((db) =>
+        db
+          .selectFrom("invoice")
+          .select(["id"])
+          .where("ownerId", "=", ownerId)
+          .where("recurringInvoiceId", "is not", null),
+      ),
+    ),
+  ]);
+
+  const profile = profiles[0] ?? null;
+  const todayValue = toDateInputValue(today);
+  const existingIds = new Set<string>(generatedInvoices.map((row) => row.id));
+
+  let generated = 0;
+  for (const schedule of dueSchedules) {
+    const client = clients.find((row) => row.id === schedule.clientId);
+    if (!client || !schedule.nextRunDate) continue;
+
+    const items = normalizeInvoiceItems(
+      parseItemsParam(JSON.stringify(parseInvoiceItems(schedule.items))) ?? [],
+    );
+    const itemsResult = Evolu.Json.from(JSON.stringify(items));
+    if (!itemsResult.ok) continue;
+
+    const currency = normalizeCurrency(schedule.currency);
+    const cadence = normalizeCadence(schedule.cadence);
+
+    let nextRunDate = schedule.nextRunDate.slice(0, 10);
+    for (
+      let run = 0;
+      run < MAX_RUNS_PER_SCHEDULE && nextRunDate <= todayValue;
+      run += 1
+    ) {
+      const runDate = nextRunDate;
+      const runDateIso = Evolu.dateToDateIso(new Date(runDate));
+      if (!runDateIso.ok) break;
+      nextRunDate = addCadence(runDate, cadence);
+
+      const id = getRunInvoiceId(schedule.id, runDate);
+      if (existingIds.has(id)) continue;
+      const rate =
+        currency === "CZK" ? null : findRateForDate(rates, currency, runDate);
+      const result = evolu.upsert("invoice", {
+        id,
+        invoiceNumber: null,
+        documentType: null,
+        draft: Evolu.sqliteTrue,
+        recurringInvoiceId: schedule.id,
+        ...createClientSnapshot(client),
+        issueDate: runDateIso.value,
+        duzp: profile?.vatPayer === Evolu.sqliteTrue ? runDateIso.value : null,
+        paymentDays: schedule.paymentDays ?? 0,
+        paymentMethod: schedule.paymentMethod,
+        purchaseOrderNumber: null,
+        invoicingNote: schedule.invoicingNote,
+        btcInvoice: Evolu.sqliteFalse,
+        btcAddress: null,
+        currency,
+        exchangeRate: rate ? rate.rate : null,
+        items: itemsResult.value,
+        discount: schedule.discount,
+        discountType: schedule.discountType,
+        cashRounding: schedule.cashRounding,
+        vatRegime: schedule.vatRegime,
+        deleted: Evolu.sqliteFalse,
+      });
+      if (!result.ok) {
+        console.error("Recurring invoice error:", result.error);
+        nextRunDate = runDate;
+        break;
+      }
+
+      existingIds.add(id);
+      generated += 1;
+    }
+
+    const nextRunIso = Evolu.dateToDateIso(new Date(nextRunDate));
+    if (!nextRunIso.ok) continue;
+    const updateResult = evolu.update("recurringInvoice", {
+      id: schedule.id,
+      nextRunDate: nextRunIso.value,
+    });
+    if (!updateResult.ok) {
+      console.error("Recurring schedule update error:", updateResult.error);
+    }
+  }
+
+  return generated;
+};
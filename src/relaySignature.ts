@@ -0,0 +1,144 @@
+/**
+ * Signing of relay pushes.
+ * The relay binds each new userId to the first public key that pushes to it
+ * and afterwards accepts only pushes signed with that key. Data stored before
+ * pushes were signed is bound only once the relay operator approves the key. The key pair is an
+ * Ed25519 key derived from the mnemonic, so every device holding the
+ * mnemonic signs with the same key and the relay never learns the secret.
+ */
+
+const RELAY_SIGNING_SALT = "invoiceapp:relay-signing";
+const RELAY_SIGNING_ITERATIONS = 100_000;
+/** Protocol tag at the start of every signed payload; relay-server.cjs builds the same. */
+const RELAY_PUSH_PAYLOAD_TAG = "fakturing-relay-push";
+const RELAY_PUSH_PAYLOAD_VERSION = 1;
+/** DER prefix turning a 32-byte Ed25519 seed into a PKCS #8 private key. */
+const ED25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04,
+  0x22, 0x04, 0x20,
+]);
+
+export interface RelaySigningKey {
+  privateKey: CryptoKey;
+  /** Raw public key, base64url encoded. */
+  publicKey: string;
+}
+
+export interface RelayPush {
+  userId: string;
+  data: string;
+  timestamp: number;
+  /** Timestamp of the version this push replaces, null for the first push. */
+  previousTimestamp: number | null;
+}
+
+export interface SignedRelayPush extends RelayPush {
+  publicKey: string;
+  signature: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer): string => {
+  let binary = "";
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+/**
+ * Derive the relay signing key from a mnemonic.
+ * PBKDF2 turns the mnemonic into an Ed25519 seed under its own salt, so the
+ * signing key is independent of the encryption key.
+ * @param mnemonic - The BIP39 mnemonic phrase
+ */
+export async function deriveRelaySigningKey(
+  mnemonic: string,
+): Promise<RelaySigningKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(mnemonic.trim()),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const seed = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      salt: encoder.encode(RELAY_SIGNING_SALT),
+      iterations: RELAY_SIGNING_ITERATIONS,
+      hash: "SHA-256",
+    },
+    baseKey,
+    256,
+  );
+  const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + 32);
+  pkcs8.set(ED25519_PKCS8_PREFIX);
+  pkcs8.set(new Uint8Array(seed), ED25519_PKCS8_PREFIX.length);
+
+  // Extractable only to read the public half ("x") out of the JWK.
+  const privateKey = await crypto.subtle.importKey(
+    "pkcs8",
+    pkcs8,
+    { name: "Ed25519" },
+    true,
+    ["sign"],
+  );
+  const jwk = await crypto.subtle.exportKey("jwk", privateKey);
+  if (!jwk.x) throw new Error("Ed25519 public key is not available");
+  return { privateKey, publicKey: jwk.x };
+}
+
+/**
+ * Generate a throwaway signing key, e.g. for the relay persistence check
+ * which pushes under a random userId.
+ */
+export async function generateRelaySigningKey(): Promise<RelaySigningKey> {
+  const keyPair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const publicKey = await crypto.subtle.exportKey("raw", keyPair.publicKey);
+  return { privateKey: keyPair.privateKey, publicKey: toBase64Url(publicKey) };
+}
+
+/**
+ * The exact bytes a push signature covers.
+ * Must stay in sync with `pushPayload` in relay-server.cjs.
+ */
+export function relayPushPayload(push: RelayPush): string {
+  return JSON.stringify([
+    RELAY_PUSH_PAYLOAD_TAG,
+    RELAY_PUSH_PAYLOAD_VERSION,
+    push.userId,
+    push.timestamp,
+    push.previousTimestamp,
+    push.data,
+  ]);
+}
+
+/**
+ * Sign a push for the relay
+ * @param key - The signing key from deriveRelaySigningKey
+ * @param push - The push to sign
+ * @returns The push with the public key and base64url signature attached
+ */
+export async function signRelayPush(
+  key: RelaySigningKey,
+  push: RelayPush,
+): Promise<SignedRelayPush> {
+  const signature = await crypto.subtle.sign(
+    { name: "Ed25519" },
+    key.privateKey,
+    encoder.encode(relayPushPayload(push)),
+  );
+  return {
+    ...push,
+    publicKey: key.publicKey,
+    signature: toBase64Url(signature),
+  };
+}
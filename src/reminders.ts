@@ -0,0 +1,235 @@
+import * as Evolu from "@evolu/common";
+import type { evolu as evoluInstance } from "./evolu";
+
+type EvoluInstance = typeof evoluInstance;
+
+export const REMINDER_LEVELS = [1, 2, 3] as const;
+
+export type ReminderLevel = (typeof REMINDER_LEVELS)[number];
+
+const FINAL_REMINDER_LEVEL: ReminderLevel = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeReminderLevel = (value?: number | null): ReminderLevel =>
+  (REMINDER_LEVELS as readonly number[]).includes(Number(value))
+    ? (Number(value) as ReminderLevel)
+    : 1;
+
+/** The level after the highest one already sent; the final one repeats. */
+export const getNextReminderLevel = (
+  sentLevels: readonly number[],
+): ReminderLevel => {
+  const highest = Math.max(0, ...sentLevels);
+  return normalizeReminderLevel(Math.min(highest + 1, FINAL_REMINDER_LEVEL));
+};
+
+/**
+ * ČNB two-week repo rate in effect on the first day of each calendar
+ * half-year. Extend it every January and July; half-years outside the table
+ * fall back to its nearest entry and are reported as `stale`.
+ */
+const CNB_REPO_RATES: readonly (readonly [string, number])[] = [
+  ["2022-01-01", 3.75],
+  ["2022-07-01", 7],
+  ["2023-01-01", 7],
+  ["2023-07-01", 7],
+  ["2024-01-01", 6.75],
+  ["2024-07-01", 4.75],
+  ["2025-01-01", 4],
+  ["2025-07-01", 3.5],
+];
+
+export type StatutoryInterestRate = {
+  /** % per year. */
+  rate: number;
+  /** First day of the half-year whose repo rate was used (YYYY-MM-DD). */
+  repoRateFrom: string;
+  /** The delay began in a half-year the table does not cover. */
+  stale: boolean;
+};
+
+/**
+ * Statutory late-payment interest in % per year (government regulation
+ * 351/2013 Sb.): the repo rate on the first day of the half-year in which the
+ * delay began plus 8 percentage points, fixed for the whole delay.
+ */
+export const getStatutoryInterestRate = (
+  firstDayOfDelay: Date,
+): StatutoryInterestRate => {
+  const halfYearStart = `${firstDayOfDelay.getFullYear()}-${
+    firstDayOfDelay.getMonth() < 6 ? "01" : "07"
+  }-01`;
+  let [repoRateFrom, repoRate] = CNB_REPO_RATES[0];
+  for (const [from, rate] of CNB_REPO_RATES) {
+    if (from <= halfYearStart) [repoRateFrom, repoRate] = [from, rate];
+  }
+  return {
+    rate: repoRate + 8,
+    repoRateFrom,
+    stale:
+      halfYearStart < CNB_REPO_RATES[0][0] ||
+      halfYearStart > CNB_REPO_RATES[CNB_REPO_RATES.length - 1][0],
+  };
+};
+
+/** Whole days after the due date; zero on or before it. */
+export const getDaysOverdue = (dueDate: Date, asOf: Date = new Date()) => {
+  const due = new Date(dueDate);
+  due.setHours(0, 0, 0, 0);
+  const today = new Date(asOf);
+  today.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((today.getTime() - due.getTime()) / DAY_MS));
+};
+
+export type LateInterest = {
+  amount: number;
+  /** % per year. */
+  rate: number;
+  /** Set when the statutory rate applies; see `StatutoryInterestRate`. */
+  repoRateFrom: string | null;
+  stale: boolean;
+};
+
+/**
+ * Simple interest on `amount` for every day after the due date up to `asOf`,
+ * rounded to cents. Without `annualRatePercent` the statutory rate applies.
+ */
+export const computeLateInterest = (
+  amount: number,
+  dueDate: Date,
+  asOf: Date = new Date(),
+  annualRatePercent?: number,
+): LateInterest => {
+  const statutory =
+    annualRatePercent === undefined
+      ? getStatutoryInterestRate(new Date(dueDate.getTime() + DAY_MS))
+      : null;
+  const rate = statutory?.rate ?? annualRatePercent ?? 0;
+  const days = getDaysOverdue(dueDate, asOf);
+  return {
+    amount:
+      days === 0 || amount <= 0
+        ? 0
+        : Math.round(amount * (rate / 100) * (days / 365) * 100) / 100,
+    rate,
+    repoRateFrom: statutory?.repoRateFrom ?? null,
+    stale: statutory?.stale ?? false,
+  };
+};
+
+export type SentReminder = {
+  invoiceId: string | null;
+  level: number | null;
+  sentDate: string | null;
+};
+
+/** Latest reminder sent per invoice id. */
+export const getLatestReminders = (
+  reminders: readonly SentReminder[],
+): Map<string, { level: ReminderLevel; sentDate: string }> => {
+  const latest = new Map<string, { level: ReminderLevel; sentDate: string }>();
+  for (const reminder of reminders) {
+    if (!reminder.invoiceId || !reminder.sentDate) continue;
+    const level = normalizeReminderLevel(reminder.level);
+    const current = latest.get(reminder.invoiceId);
+    if (
+      !current ||
+      level > current.level ||
+      (level === current.level && reminder.sentDate > current.sentDate)
+    ) {
+      latest.set(reminder.invoiceId, { level, sentDate: reminder.sentDate });
+    }
+  }
+  return latest;
+};
+
+export type ReminderInvoice = {
+  id: string;
+  invoiceNumber: string | null;
+  clientId: string | null;
+  clientName: string | null;
+  currency: string;
+  issueDate: string | null;
+  dueDate: Date;
+  /** Amount still owed, in the invoice currency. */
+  outstanding: number;
+  lastLevel: number;
+};
+
+export type ReminderGroup = {
+  key: string;
+  clientId: string | null;
+  clientName: string;
+  currency: string;
+  invoices: ReminderInvoice[];
+  level: ReminderLevel;
+};
+
+/**
+ * One reminder per client and currency, so each carries a single payment QR.
+ * Its level follows the most advanced reminder any of its invoices has had.
+ */
+export const groupReminderInvoices = (
+  invoices: readonly ReminderInvoice[],
+): ReminderGroup[] => {
+  const groups = new Map<string, ReminderGroup>();
+  for (const invoice of invoices) {
+    const clientKey = invoice.clientId ?? invoice.clientName?.trim() ?? "";
+    const key = `${clientKey}|${invoice.currency}`;
+    const group = groups.get(key) ?? {
+      key,
+      clientId: invoice.clientId,
+      clientName: invoice.clientName?.trim() ?? "",
+      currency: invoice.currency,
+      invoices: [],
+      level: 1,
+    };
+    group.invoices.push(invoice);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values())
+    .map((group) => ({
+      ...group,
+      invoices: group.invoices.sort(
+        (a, b) => a.dueDate.getTime() - b.dueDate.getTime(),
+      ),
+      level: getNextReminderLevel(
+        group.invoices.map((invoice) => invoice.lastLevel),
+      ),
+    }))
+    .sort((a, b) => a.clientName.localeCompare(b.clientName));
+};
+
+/** Records that a reminder of `level` covering `invoices` went out. */
+export const recordReminderSent = (
+  evolu: EvoluInstance,
+  reminder: {
+    clientId: string | null;
+    level: ReminderLevel;
+    sentDate: string;
+    invoices: readonly { id: string; lateInterest: number | null }[];
+  },
+): boolean => {
+  const dateResult = Evolu.dateToDateIso(new Date(reminder.sentDate));
+  if (!dateResult.ok) {
+    console.error("Reminder date error:", dateResult.error);
+    return false;
+  }
+  let recorded = true;
+  for (const invoice of reminder.invoices) {
+    const result = evolu.insert("paymentReminder", {
+      invoiceId: invoice.id,
+      clientId: reminder.clientId,
+      level: reminder.level,
+      sentDate: dateResult.value,
+      lateInterest: invoice.lateInterest,
+      deleted: Evolu.sqliteFalse,
+    });
+    if (!result.ok) {
+      console.error("Reminder insert error:", result.error);
+      recorded = false;
+    }
+  }
+  return recorded;
+};
@@ -0,0 +1,563 @@
+import { splitStreetLine, splitTownLine } from "./address";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "./currency";
+import {
+  VAT_REGIME_REPORTING,
+  computeInvoiceTotals,
+  isDraftInvoice,
+  isProforma,
+  normalizeVatRegime,
+  roundCents,
+  roundCrowns,
+  type InvoiceAdjustments,
+  type VatReturnLine,
+} from "./invoices";
+import { escapeXml } from "./xml";
+
+/**
+ * Control statement threshold in CZK including VAT: documents above it are
+ * listed one by one (A.4, B.2), the rest only summed (A.5, B.3).
+ */
+export const CONTROL_STATEMENT_THRESHOLD = 10000;
+
+export type VatPeriodType = "month" | "quarter";
+
+/** A tax period: `number` is the month (1-12) or the quarter (1-4). */
+export type VatPeriod = {
+  year: number;
+  type: VatPeriodType;
+  number: number;
+};
+
+export const normalizeVatPeriodType = (value?: string | null): VatPeriodType =>
+  value === "quarter" ? "quarter" : "month";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** First and last day of `period` as YYYY-MM-DD, both inclusive. */
+export const getVatPeriodRange = (
+  period: VatPeriod,
+): { from: string; to: string } => {
+  const firstMonth =
+    period.type === "quarter" ? (period.number - 1) * 3 + 1 : period.number;
+  const lastMonth = period.type === "quarter" ? firstMonth + 2 : firstMonth;
+  const lastDay = new Date(period.year, lastMonth, 0).getDate();
+  return {
+    from: `${period.year}-${pad(firstMonth)}-01`,
+    to: `${period.year}-${pad(lastMonth)}-${pad(lastDay)}`,
+  };
+};
+
+/** The last closed period before `date`, the one due to be filed. */
+export const getPreviousVatPeriod = (
+  type: VatPeriodType,
+  date: Date = new Date(),
+): VatPeriod => {
+  const month = date.getMonth() + 1;
+  const current = type === "quarter" ? Math.ceil(month / 3) : month;
+  const count = type === "quarter" ? 4 : 12;
+  return current === 1
+    ? { year: date.getFullYear() - 1, type, number: count }
+    : { year: date.getFullYear(), type, number: current - 1 };
+};
+
+/**
+ * Columns of the forms: 1 is the basic rate, 2 and 3 the reduced ones
+ * (12 % since 2024; 15 % and 10 % before).
+ */
+type RateSlot = 1 | 2 | 3;
+
+const RATE_SLOTS: Record<number, RateSlot> = { 21: 1, 15: 2, 12: 2, 10: 3 };
+
+const RATE_SLOT_KEYS: readonly RateSlot[] = [1, 2, 3];
+
+export type RateAmounts = Record<RateSlot, { base: number; vat: number }>;
+
+const createRateAmounts = (): RateAmounts => ({
+  1: { base: 0, vat: 0 },
+  2: { base: 0, vat: 0 },
+  3: { base: 0, vat: 0 },
+});
+
+const addRateAmounts = (target: RateAmounts, amounts: RateAmounts) => {
+  for (const slot of RATE_SLOT_KEYS) {
+    target[slot].base += amounts[slot].base;
+    target[slot].vat += amounts[slot].vat;
+  }
+};
+
+export type VatReportInvoice = InvoiceAdjustments & {
+  id: string;
+  invoiceNumber: string | null;
+  documentType?: string | null;
+  draft?: number | null;
+  clientVatNumber?: string | null;
+  issueDate: string | null;
+  duzp?: string | null;
+  exchangeRate?: number | null;
+  items: unknown;
+};
+
+export type VatReportExpense = {
+  id: string;
+  expenseNumber: string | null;
+  supplierVat: string | null;
+  amountWithoutVat: number | null;
+  vatRate: number | null;
+  amountWithVat: number | null;
+  expenseDate: string | null;
+};
+
+/** A document listed on its own in the control statement (A.4, B.2). */
+export type ControlStatementDocument = {
+  /** DIČ of the counterparty without the "CZ" prefix. */
+  vatNumber: string;
+  documentNumber: string;
+  /** Date of the taxable supply, YYYY-MM-DD. */
+  date: string;
+  amounts: RateAmounts;
+};
+
+/** A reverse-charge supply (A.1); the customer pays the tax. */
+export type ReverseChargeDocument = {
+  vatNumber: string;
+  documentNumber: string;
+  date: string;
+  base: number;
+};
+
+/** VatReport fields of the VAT return lines in VAT_REGIME_REPORTING. */
+const VAT_RETURN_LINE_FIELDS: Record<
+  VatReturnLine,
+  "euServices" | "export" | "reverseCharge"
+> = {
+  21: "euServices",
+  22: "export",
+  25: "reverseCharge",
+};
+
+/** All amounts in CZK. */
+export type VatReport = {
+  period: VatPeriod;
+  /** Domestic supplies by rate (VAT return lines 1 and 2). */
+  output: RateAmounts;
+  /** Services to EU VAT payers under §9 (line 21). */
+  euServices: number;
+  /** Export of goods (line 22). */
+  export: number;
+  /** Reverse-charge supplies under §92a (line 25). */
+  reverseCharge: number;
+  /** Deductible input VAT from Czech suppliers by rate (lines 40 and 41). */
+  input: RateAmounts;
+  a1: ReverseChargeDocument[];
+  a4: ControlStatementDocument[];
+  a5: RateAmounts;
+  b2: ControlStatementDocument[];
+  b3: RateAmounts;
+  /** Foreign-currency invoices without an exchange rate, left out. */
+  missingExchangeRate: string[];
+  /** Documents with a rate the forms have no column for, left out. */
+  unknownVatRate: string[];
+  /** Reverse-charge invoices without the customer's Czech DIČ. */
+  missingCustomerVatNumber: string[];
+};
+
+/**
+ * The digits of a Czech DIČ ("CZ12345678" or "12345678"), as the forms want
+ * them; null for foreign or missing VAT numbers.
+ */
+export const toCzechVatId = (vatNumber?: string | null): string | null => {
+  const compact = (vatNumber ?? "").replace(/\s/g, "").toUpperCase();
+  const match = compact.match(/^(?:CZ)?(\d{8,10})$/);
+  return match ? match[1] : null;
+};
+
+const toDay = (value?: string | null) => (value ?? "").slice(0, 10);
+
+/**
+ * VAT return and control statement figures for `period`.
+ *
+ * Invoices count in the period of their DUZP (issue date when missing);
+ * drafts and proformas are not tax documents and are skipped. Credit notes
+ * reduce the figures with their negative totals. Domestic supplies to
+ * customers without a Czech DIČ are summed in A.5 of the control statement,
+ * whatever their amount, so A.4 + A.5 match lines 1 and 2 of the return.
+ *
+ * Expenses count when the supplier has a Czech DIČ and the rate is not zero.
+ */
+export const buildVatReport = (
+  invoices: readonly VatReportInvoice[],
+  expenses: readonly VatReportExpense[],
+  period: VatPeriod,
+): VatReport => {
+  const { from, to } = getVatPeriodRange(period);
+  const isInPeriod = (day: string) => Boolean(day) && day >= from && day <= to;
+
+  const report: VatReport = {
+    period,
+    output: createRateAmounts(),
+    euServices: 0,
+    export: 0,
+    reverseCharge: 0,
+    input: createRateAmounts(),
+    a1: [],
+    a4: [],
+    a5: createRateAmounts(),
+    b2: [],
+    b3: createRateAmounts(),
+    missingExchangeRate: [],
+    unknownVatRate: [],
+    missingCustomerVatNumber: [],
+  };
+
+  for (const invoice of invoices) {
+    if (isDraftInvoice(invoice) || isProforma(invoice)) continue;
+    const documentNumber = invoice.invoiceNumber?.trim() ?? "";
+    const date = toDay(invoice.duzp) || toDay(invoice.issueDate);
+    if (!documentNumber || !isInPeriod(date)) continue;
+
+    const rate =
+      normalizeCurrency(invoice.currency) === DEFAULT_CURRENCY
+        ? 1
+        : (invoice.exchangeRate ?? null);
+    if (!rate) {
+      report.missingExchangeRate.push(documentNumber);
+      continue;
+    }
+
+    const totals = computeInvoiceTotals(invoice.items, invoice, {
+      withVat: true,
+    });
+    const customerVatId = toCzechVatId(invoice.clientVatNumber);
+    const reporting =
+      VAT_REGIME_REPORTING[normalizeVatRegime(invoice.vatRegime)];
+
+    if (reporting.vatReturnLine !== null) {
+      const base = totals.base * rate;
+      report[VAT_RETURN_LINE_FIELDS[reporting.vatReturnLine]] += base;
+      if (reporting.controlStatementSection === "A1") {
+        if (customerVatId) {
+          report.a1.push({
+            vatNumber: customerVatId,
+            documentNumber,
+            date,
+            base,
+          });
+        } else {
+          report.missingCustomerVatNumber.push(documentNumber);
+        }
+      }
+      continue;
+    }
+
+    const amounts = createRateAmounts();
+    let hasUnknownRate = false;
+    for (const row of totals.vatRates) {
+      if (row.vatRate === 0) continue;
+      const slot = RATE_SLOTS[row.vatRate];
+      if (!slot) {
+        hasUnknownRate = true;
+        continue;
+      }
+      amounts[slot].base += row.base * rate;
+      amounts[slot].vat += row.vat * rate;
+    }
+    if (hasUnknownRate) {
+      report.unknownVatRate.push(documentNumber);
+      continue;
+    }
+
+    addRateAmounts(report.output, amounts);
+    // A.4 needs the customer's DIČ; everything else domestic goes to A.5.
+    if (
+      customerVatId &&
+      Math.abs(totals.base + totals.vat) * rate > CONTROL_STATEMENT_THRESHOLD
+    ) {
+      report.a4.push({
+        vatNumber: customerVatId,
+        documentNumber,
+        date,
+        amounts,
+      });
+    } else {
+      addRateAmounts(report.a5, amounts);
+    }
+  }
+
+  for (const expense of expenses) {
+    const date = toDay(expense.expenseDate);
+    const supplierVatId = toCzechVatId(expense.supplierVat);
+    const vatRate = expense.vatRate ?? 0;
+    if (!isInPeriod(date) || !supplierVatId || vatRate === 0) continue;
+
+    const documentNumber = expense.expenseNumber?.trim() || expense.id;
+    const slot = RATE_SLOTS[vatRate];
+    if (!slot) {
+      report.unknownVatRate.push(documentNumber);
+      continue;
+    }
+
+    const base =
+      expense.amountWithoutVat ??
+      (expense.amountWithVat ?? 0) / (1 + vatRate / 100);
+    const vat =
+      expense.amountWithVat != null && expense.amountWithoutVat != null
+        ? expense.amountWithVat - expense.amountWithoutVat
+        : base * (vatRate / 100);
+
+    const amounts = createRateAmounts();
+    amounts[slot] = { base, vat };
+    addRateAmounts(report.input, amounts);
+    if (base + vat > CONTROL_STATEMENT_THRESHOLD) {
+      report.b2.push({
+        vatNumber: supplierVatId,
+        documentNumber,
+        date,
+        amounts,
+      });
+    } else {
+      addRateAmounts(report.b3, amounts);
+    }
+  }
+
+  return report;
+};
+
+/** Taxpayer details for the `VetaP` record of the EPO forms. */
+export type VatReportSubject = {
+  vatNumber: string | null;
+  /** "F" for a natural person, "P" for a legal entity. */
+  subjectType: "F" | "P";
+  name: string;
+  addressLine1: string | null;
+  addressLine2: string | null;
+  email: string | null;
+  phone: string | null;
+  /** Tax office (c_ufo) and its branch (c_pracufo) codes. */
+  taxOfficeCode: string | null;
+  taxOfficeBranchCode: string | null;
+  /** Main economic activity (CZ-NACE), required by the VAT return. */
+  naceCode: string | null;
+};
+
+export const normalizeTaxSubjectType = (value?: string | null): "F" | "P" =>
+  value === "P" ? "P" : "F";
+
+type XmlAttributes = Record<string, string | number | null | undefined>;
+
+/** `<name a="1"/>`; empty attributes are left out, and so is an empty element. */
+const xmlElement = (name: string, attributes: XmlAttributes): string => {
+  const rendered = Object.entries(attributes)
+    .filter(
+      ([, value]) => value !== null && value !== undefined && value !== "",
+    )
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`);
+  return rendered.length > 0 ? `<${name} ${rendered.join(" ")}/>` : "";
+};
+
+const xmlDocument = (form: string, version: string, elements: string[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Pisemnost nazevSW="Fakturing">',
+    `<${form} verzePis="${version}">`,
+    ...elements.filter(Boolean),
+    `</${form}>`,
+    "</Pisemnost>",
+    "",
+  ].join("\n");
+
+/** DD.MM.YYYY, the date format of the EPO forms. */
+const formatEpoDate = (day: string) => {
+  const [year, month, date] = day.slice(0, 10).split("-");
+  return `${date}.${month}.${year}`;
+};
+
+/** VAT return amounts are whole crowns; zero is left out. */
+const wholeCrowns = (value: number) => roundCrowns(value) || null;
+
+/** Control statement amounts keep the haléře; zero is left out. */
+const crownsAndCents = (value: number) => {
+  const rounded = roundCents(value);
+  return rounded ? rounded.toFixed(2) : null;
+};
+
+const periodAttributes = (period: VatPeriod) =>
+  period.type === "quarter"
+    ? { rok: period.year, ctvrt: period.number }
+    : { rok: period.year, mesic: period.number };
+
+const subjectElement = (subject: VatReportSubject) => {
+  const name = subject.name.trim();
+  const lastSpace = name.lastIndexOf(" ");
+  const names =
+    subject.subjectType === "P"
+      ? { zkrobchjm: name }
+      : lastSpace > 0
+        ? {
+            jmeno: name.slice(0, lastSpace),
+            prijmeni: name.slice(lastSpace + 1),
+          }
+        : { prijmeni: name };
+  const street = splitStreetLine(subject.addressLine1);
+  const town = splitTownLine(subject.addressLine2);
+  return xmlElement("VetaP", {
+    dic: toCzechVatId(subject.vatNumber),
+    typ_ds: subject.subjectType,
+    ...names,
+    ulice: street.street,
+    c_pop: street.houseNumber,
+    c_orient: street.orientationNumber,
+    psc: town.postcode,
+    naz_obce: town.town,
+    stat: "ČESKÁ REPUBLIKA",
+    email: subject.email,
+    c_telef: subject.phone,
+    c_ufo: subject.taxOfficeCode,
+    c_pracufo: subject.taxOfficeBranchCode,
+  });
+};
+
+const sumSlots = (amounts: RateAmounts, slots: RateSlot[]) =>
+  slots.reduce(
+    (sum, slot) => ({
+      base: sum.base + amounts[slot].base,
+      vat: sum.vat + amounts[slot].vat,
+    }),
+    { base: 0, vat: 0 },
+  );
+
+/** VAT return (přiznání k DPH, DPHDP3) for EPO. */
+export const buildVatReturnXml = (
+  report: VatReport,
+  subject: VatReportSubject,
+  submissionDate: string,
+): string => {
+  const outputBasic = sumSlots(report.output, [1]);
+  const outputReduced = sumSlots(report.output, [2, 3]);
+  const inputBasic = sumSlots(report.input, [1]);
+  const inputReduced = sumSlots(report.input, [2, 3]);
+
+  // Line 62 and 63 are sums of the rounded lines above them.
+  const outputVat =
+    roundCrowns(outputBasic.vat) + roundCrowns(outputReduced.vat);
+  const inputVat = roundCrowns(inputBasic.vat) + roundCrowns(inputReduced.vat);
+  const balance = outputVat - inputVat;
+
+  return xmlDocument("DPHDP3", "01.02", [
+    xmlElement("VetaD", {
+      k_uladis: "DPH",
+      dokument: "DP3",
+      dapdph_forma: "B",
+      typ_platce: "P",
+      ...periodAttributes(report.period),
+      c_okec: subject.naceCode,
+      d_poddp: formatEpoDate(submissionDate),
+    }),
+    subjectElement(subject),
+    xmlElement("Veta1", {
+      obrat23: wholeCrowns(outputBasic.base),
+      dan23: wholeCrowns(outputBasic.vat),
+      obrat5: wholeCrowns(outputReduced.base),
+      dan5: wholeCrowns(outputReduced.vat),
+    }),
+    xmlElement("Veta2", {
+      pln_sluzby: wholeCrowns(report.euServices),
+      pln_vyvoz: wholeCrowns(report.export),
+      pln_rez_pren: wholeCrowns(report.reverseCharge),
+    }),
+    xmlElement("Veta4", {
+      pln23: wholeCrowns(inputBasic.base),
+      odp_tuz23_nar: wholeCrowns(inputBasic.vat),
+      pln5: wholeCrowns(inputReduced.base),
+      odp_tuz5_nar: wholeCrowns(inputReduced.vat),
+      odp_sum_nar: inputVat || null,
+    }),
+    xmlElement("Veta6", {
+      dan_zocelk: outputVat || null,
+      odp_zocelk: inputVat || null,
+      dano_da: balance > 0 ? balance : null,
+      dano_no: balance < 0 ? -balance : null,
+    }),
+  ]);
+};
+
+const rateAttributes = (amounts: RateAmounts) => ({
+  zakl_dane1: crownsAndCents(amounts[1].base),
+  dan1: crownsAndCents(amounts[1].vat),
+  zakl_dane2: crownsAndCents(amounts[2].base),
+  dan2: crownsAndCents(amounts[2].vat),
+  zakl_dane3: crownsAndCents(amounts[3].base),
+  dan3: crownsAndCents(amounts[3].vat),
+});
+
+/**
+ * Control statement (kontrolní hlášení, DPHKH1) for EPO. `reverseChargeCode`
+ * is the subject-of-supply code of the A.1 rows (e.g. 4 for construction
+ * work under §92e).
+ */
+export const buildControlStatementXml = (
+  report: VatReport,
+  subject: VatReportSubject,
+  submissionDate: string,
+  reverseChargeCode: string,
+): string => {
+  const sales = createRateAmounts();
+  for (const entry of report.a4) addRateAmounts(sales, entry.amounts);
+  addRateAmounts(sales, report.a5);
+  const purchases = createRateAmounts();
+  for (const entry of report.b2) {
+    addRateAmounts(purchases, entry.amounts);
+  }
+  addRateAmounts(purchases, report.b3);
+
+  return xmlDocument("DPHKH1", "03.01", [
+    xmlElement("VetaD", {
+      k_uladis: "DPH",
+      dokument: "KH1",
+      khdph_forma: "B",
+      ...periodAttributes(report.period),
+      d_poddp: formatEpoDate(submissionDate),
+    }),
+    subjectElement(subject),
+    ...report.a1.map((entry, index) =>
+      xmlElement("VetaA1", {
+        c_radku: index + 1,
+        dic_odb: entry.vatNumber,
+        c_evid_dd: entry.documentNumber,
+        duzp: formatEpoDate(entry.date),
+        zakl_dane1: crownsAndCents(entry.base),
+        kod_pred_pl: reverseChargeCode.trim(),
+      }),
+    ),
+    ...report.a4.map((entry, index) =>
+      xmlElement("VetaA4", {
+        c_radku: index + 1,
+        dic_odb: entry.vatNumber,
+        c_evid_dd: entry.documentNumber,
+        dppd: formatEpoDate(entry.date),
+        ...rateAttributes(entry.amounts),
+        kod_rezim_pl: "0",
+        zdph_44: "N",
+      }),
+    ),
+    xmlElement("VetaA5", rateAttributes(report.a5)),
+    ...report.b2.map((entry, index) =>
+      xmlElement("VetaB2", {
+        c_radku: index + 1,
+        dic_dod: entry.vatNumber,
+        c_evid_dd: entry.documentNumber,
+        dppd: formatEpoDate(entry.date),
+        ...rateAttributes(entry.amounts),
+        pomer: "N",
+        zdph_44: "N",
+      }),
+    ),
+    xmlElement("VetaB3", rateAttributes(report.b3)),
+    xmlElement("VetaC", {
+      obrat23: crownsAndCents(sumSlots(sales, [1]).base),
+      obrat5: crownsAndCents(sumSlots(sales, [2, 3]).base),
+      pln23: crownsAndCents(sumSlots(purchases, [1]).base),
+      pln5: crownsAndCents(sumSlots(purchases, [2, 3]).base),
+      pln_rez_pren: crownsAndCents(report.reverseCharge),
+    }),
+  ]);
+};
@@ -0,0 +1,40 @@
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export type XmlChild = string | null | undefined | false;
+
+/** `<name>…</name>`; text content is escaped, element children joined. */
+export const xmlNode = (
+  name: string,
+  content: XmlChild | XmlChild[],
+  attributes: Record<string, string> = {},
+): string => {
+  const rendered = Object.entries(attributes)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+  const children = Array.isArray(content)
+    ? content.filter(Boolean).join("")
+    : escapeXml(content || "");
+  return children
+    ? `<${name}${rendered}>${children}</${name}>`
+    : `<${name}${rendered}/>`;
+};
+
+/** The element at `path` of local names below `parent`, any namespace. */
+export const childElement = (parent: Element | null, ...path: string[]) => {
+  let current = parent;
+  for (const name of path) {
+    current =
+      Array.from(current?.children ?? []).find(
+        (child) => child.localName === name,
+      ) ?? null;
+  }
+  return current;
+};
+
+export const childText = (parent: Element | null, ...path: string[]) =>
+  childElement(parent, ...path)?.textContent?.trim() ?? "";